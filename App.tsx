@@ -1,65 +1,289 @@
-import React, { useState, useEffect } from 'react';
-import TripForm from './components/TripForm';
+import React, { useState, useEffect, useRef } from 'react';
+import TripForm, { SubmitOptions } from './components/TripForm';
 import ItineraryView from './components/ItineraryView';
-import { UserPreferences, ItineraryResult } from './types';
-import { generateItinerary } from './services/geminiService';
-import { getItineraryFromCloud } from './services/storageService';
-import { Map, Loader2 } from 'lucide-react';
+import GenerationProgress from './components/GenerationProgress';
+import CandidateReview from './components/CandidateReview';
+import { UserPreferences, ItineraryResult, DayPlan, PipelineStage, ProgressEvent, CandidatePlace, CandidateReview as CandidateReviewData } from './types';
+import { generateItinerary, regenerateDay, replaceActivity, GenerationAbortedError, FinalPlanningError } from './services/geminiService';
+import { ItineraryValidationError } from './services/itineraryValidator';
+import { getItineraryFromCloud, describeStorageError, StorageResult } from './services/storageService';
+import { saveTrip, loadTrip } from './services/tripLibrary';
+import { TripHistory, TripVersionKind, recordVersion, loadHistory, undoVersion, redoVersion, restoreVersion } from './services/tripHistory';
+import TripLibrary from './components/TripLibrary';
+import VersionHistory from './components/VersionHistory';
+import { CollabSession, Presence, createSharedTrip, joinSharedTrip, getCollaboratorName } from './services/collaboration';
+import CollaborationBar from './components/CollaborationBar';
+import { Map, Loader2, XCircle, FolderOpen, Lock } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<'input' | 'result'>('input');
+  const [step, setStep] = useState<'input' | 'result' | 'library'>('input');
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("");
   const [itinerary, setItinerary] = useState<ItineraryResult | null>(null);
   const [currentPrefs, setCurrentPrefs] = useState<UserPreferences | null>(null);
+  // "My Trips" entry of the open itinerary; null for shared links and trips not saved yet
+  const [currentTripId, setCurrentTripId] = useState<string | null>(null);
+  const [history, setHistory] = useState<TripHistory | null>(null);
+  const [historyBusy, setHistoryBusy] = useState(false);
+  // Real-time shared editing session of the itinerary on screen
+  const [collab, setCollab] = useState<CollabSession | null>(null);
+  const [collaborators, setCollaborators] = useState<Presence[]>([]);
+  const [collabNotice, setCollabNotice] = useState<string | null>(null);
+  const [collabBusy, setCollabBusy] = useState(false);
+  // Share link waiting for its passcode
+  const [passcodePrompt, setPasscodePrompt] = useState<{ shareId: string; message: string } | null>(null);
+  const [passcode, setPasscode] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<Partial<Record<PipelineStage, ProgressEvent>>>({});
+  const [partialDays, setPartialDays] = useState<DayPlan[]>([]);
+  // Skeleton itinerary offered when generation is cancelled or Stage 3 fails after routing succeeded
+  const [fallbackItinerary, setFallbackItinerary] = useState<ItineraryResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set while the pipeline is paused on the candidate review step
+  const [pendingReview, setPendingReview] = useState<{ review: CandidateReviewData; resolve: (scheduled: CandidatePlace[]) => void } | null>(null);
+
+  // Opens a ?shareId= link: a snapshot for read-only links, the shared editing session for editable ones
+  const openShareLink = async (shareId: string, passcode?: string) => {
+    setIsLoading(true);
+    setLoadingMessage("正在載入分享的行程...");
+    setError(null);
+
+    // Create a promise that rejects after 10 seconds to prevent infinite loading
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error("載入逾時，請檢查網路連線")), 10000);
+    });
+
+    const load = async (): Promise<StorageResult<unknown>> => {
+      const shared = await getItineraryFromCloud(shareId, passcode);
+      if (!shared.ok) return shared;
+      if (shared.value.permission === 'edit' && shared.value.collabId) return joinCollaboration(shared.value.collabId);
+      setItinerary(shared.value.itinerary);
+      return shared;
+    };
+
+    try {
+      const result = await Promise.race([load(), timeoutPromise]);
+      if (result.ok) {
+        setPasscodePrompt(null);
+        setStep('result');
+      } else if (result.error.code === 'passcode_required' || result.error.code === 'wrong_passcode') {
+        setPasscodePrompt({ shareId, message: describeStorageError(result.error) });
+      } else if (result.error.code === 'expired' || result.error.code === 'revoked') {
+        setError(describeStorageError(result.error));
+      } else if (result.error.code === 'not_found') {
+        setError("找不到該行程。");
+      } else {
+        setError("讀取行程失敗：" + describeStorageError(result.error));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError("讀取行程失敗：" + (err.message || "發生未知錯誤"));
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage("");
+    }
+  };
 
   // Check URL for shared itinerary ID on mount
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const sharedId = params.get('shareId');
-    
-    if (sharedId) {
-      setIsLoading(true);
-      setLoadingMessage("正在載入分享的行程...");
-      
-      // Create a promise that rejects after 10 seconds to prevent infinite loading
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error("載入逾時，請檢查網路連線")), 10000);
-      });
+    const sharedId = new URLSearchParams(window.location.search).get('shareId');
+    if (sharedId) openShareLink(sharedId);
+  }, []);
+
+  // Leaving a session (or replacing it) disconnects it
+  useEffect(() => {
+    if (!collab) return;
+    return () => {
+      collab.leave();
+      setCollaborators([]);
+      setCollabNotice(null);
+    };
+  }, [collab]);
 
-      Promise.race([getItineraryFromCloud(sharedId), timeoutPromise])
-        .then((data: any) => {
-          if (data) {
-            setItinerary(data);
-            setStep('result');
-          } else {
-            setError("找不到該行程或連結已過期。");
-          }
-        })
-        .catch((err: any) => {
-          console.error(err);
-          setError("讀取行程失敗：" + (err.message || "發生未知錯誤"));
-        })
-        .finally(() => {
-          setIsLoading(false);
-          setLoadingMessage("");
-        });
+  const joinCollaboration = async (docId: string): Promise<StorageResult<CollabSession>> => {
+    const result = await joinSharedTrip(docId, getCollaboratorName(), {
+      onChange: setItinerary,
+      onPresence: setCollaborators,
+      onConflict: ({ dayNumber, winnerName }) => setCollabNotice(`Day ${dayNumber} 同時被 ${winnerName} 修改，已採用對方的版本。`),
+      onError: (err) => setCollabNotice("即時同步中斷：" + describeStorageError(err)),
+      // The trip stays on screen as it was, no longer shared
+      onClosed: () => {
+        setCollab(null);
+        setError("分享連結已撤銷，共同編輯已結束。");
+      },
+    });
+    if (result.ok) {
+      setItinerary(result.value.getItinerary());
+      setCollab(result.value);
     }
-  }, []);
+    return result;
+  };
+
+  // Shared editing session of the trip on screen, started on first use (e.g. by an editable share link)
+  const ensureCollaboration = async (): Promise<StorageResult<string>> => {
+    if (collab) return { ok: true, value: collab.docId };
+    if (!itinerary) return { ok: false, error: { code: 'not_found', message: 'No itinerary on screen' } };
+    const created = await createSharedTrip(itinerary, getCollaboratorName());
+    const joined: StorageResult<CollabSession> = created.ok ? await joinCollaboration(created.value) : { ok: false, error: created.error };
+    return joined.ok ? { ok: true, value: joined.value.docId } : { ok: false, error: joined.error };
+  };
+
+  const startCollaboration = async () => {
+    setCollabBusy(true);
+    setError(null);
+    const started = await ensureCollaboration();
+    setCollabBusy(false);
+    if (!started.ok) setError("建立共同編輯失敗：" + describeStorageError(started.error));
+  };
+
+  const leaveCollaboration = () => {
+    setCollab(null);
+    window.history.pushState({}, '', window.location.pathname);
+  };
+
+  // Saves the trip to "My Trips": a new entry when `tripId` is null, else an overwrite of that entry.
+  // Every save is also recorded as a version of the trip.
+  const autoSaveTrip = async (trip: ItineraryResult, prefs: UserPreferences, tripId: string | null, label: string, kind: TripVersionKind) => {
+    const result = await saveTrip(trip, prefs, tripId || undefined);
+    if (!result.ok) {
+      setError("行程已更新，但自動儲存失敗：" + describeStorageError(result.error));
+      return;
+    }
+    setCurrentTripId(result.value.id);
+    const recorded = await recordVersion(result.value.id, trip, label, kind);
+    if (recorded.ok) setHistory(recorded.value);
+    else setError("行程已儲存，但版本紀錄失敗：" + describeStorageError(recorded.error));
+  };
+
+  // Partial regeneration result: shown right away, then saved over the open trip. In a shared session only
+  // the edited day is published, and the merged trip comes back through the session.
+  const applyEdit = async (edited: ItineraryResult, dayNumber: number, label: string, kind: TripVersionKind) => {
+    let result = edited;
+    if (collab) {
+      const published = await collab.editDay(edited, dayNumber);
+      if (!published.ok) {
+        setError("共同編輯同步失敗：" + describeStorageError(published.error));
+        return;
+      }
+      result = published.value;
+    } else {
+      setItinerary(edited);
+    }
+    if (currentPrefs && currentTripId) autoSaveTrip(result, currentPrefs, currentTripId, label, kind);
+  };
+
+  // Runs a re-plan of one day, announcing it to collaborators while it runs
+  const editDay = async (dayNumber: number, run: () => Promise<ItineraryResult>, label: string, kind: TripVersionKind) => {
+    collab?.setEditingDay(dayNumber);
+    try {
+      await applyEdit(await run(), dayNumber, label, kind);
+    } finally {
+      collab?.setEditingDay(null);
+    }
+  };
 
-  const handleFormSubmit = async (prefs: UserPreferences) => {
+  // Undo / redo / restore: shows the chosen version and saves it as the trip, without recording a new version
+  // (restore records its own). Snapshots have no planning context, so the open trip's is kept.
+  const switchVersion = async (action: () => Promise<StorageResult<{ history: TripHistory; itinerary: ItineraryResult }>>) => {
+    if (!itinerary || !currentPrefs || !currentTripId) return;
+    setHistoryBusy(true);
+    setError(null);
+    const result = await action();
+    if (result.ok) {
+      const shown = { ...result.value.itinerary, planningContext: itinerary.planningContext };
+      setItinerary(shown);
+      setHistory(result.value.history);
+      const saved = await saveTrip(shown, currentPrefs, currentTripId);
+      if (!saved.ok) setError("已切換版本，但自動儲存失敗：" + describeStorageError(saved.error));
+    } else {
+      setError("切換版本失敗：" + describeStorageError(result.error));
+    }
+    setHistoryBusy(false);
+  };
+
+  const openSavedTrip = async (id: string) => {
+    setError(null);
+    const result = await loadTrip(id);
+    if (!result.ok) {
+      setError("開啟行程失敗：" + describeStorageError(result.error));
+      return;
+    }
+    setCollab(null);
+    setItinerary(result.value.itinerary);
+    setCurrentPrefs(result.value.prefs);
+    setCurrentTripId(id);
+    setStep('result');
+    window.history.pushState({}, '', window.location.pathname);
+
+    // Trips saved before version history (and duplicates) start theirs with the version as opened
+    const loaded = await loadHistory(id);
+    const opened = loaded.ok && loaded.value.versions.length === 0
+      ? await recordVersion(id, result.value.itinerary, '目前版本', 'edit')
+      : loaded;
+    setHistory(opened.ok ? opened.value : null);
+    if (!opened.ok) setError("讀取版本紀錄失敗：" + describeStorageError(opened.error));
+  };
+
+  const handleFormSubmit = async (prefs: UserPreferences, submitOptions: SubmitOptions) => {
     setIsLoading(true);
     setLoadingMessage("AI 正在搜尋最新景點並規劃最佳路線...");
     setError(null);
     setCurrentPrefs(prefs);
+    setCurrentTripId(null);
+    setHistory(null);
+    setCollab(null);
+    setProgress({});
+    setPartialDays([]);
+    setFallbackItinerary(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const result = await generateItinerary(prefs);
+      const result = await generateItinerary(prefs, {
+        signal: controller.signal,
+        onProgress: (event) => setProgress(prev => ({ ...prev, [event.stage]: event })),
+        onPartialDays: setPartialDays,
+        refreshCandidates: submitOptions.refreshPlaces,
+        onReview: submitOptions.reviewCandidates
+          ? (review) => new Promise<CandidatePlace[]>(resolve => setPendingReview({ review, resolve }))
+          : undefined,
+      });
       setItinerary(result);
       setStep('result');
+      // Still loading until the trip has its id, so edits made right away are saved over it
+      setLoadingMessage("正在儲存行程...");
+      await autoSaveTrip(result, prefs, null, '生成行程', 'generate');
     } catch (err: any) {
       console.error(err);
+      if (err instanceof GenerationAbortedError || err instanceof FinalPlanningError) {
+        setFallbackItinerary(err.fallback || null);
+        setError(err.message + (err.fallback ? " 可改用依路線優化結果排出的簡易行程。" : ""));
+        return;
+      }
+      if (err instanceof ItineraryValidationError) {
+        setError("AI 回傳的行程資料經自動修正後仍有錯誤，請重新生成。" + err.message);
+        return;
+      }
       setError("規劃行程時發生錯誤，請稍後再試。請確保您已選取有效的 API Key。" + (err.message || ""));
+    } finally {
+      abortRef.current = null;
+      setPendingReview(null);
+      setIsLoading(false);
+      setLoadingMessage("");
+      setPartialDays([]);
+    }
+  };
+
+  const acceptFallbackItinerary = async () => {
+    if (!fallbackItinerary) return;
+    setItinerary(fallbackItinerary);
+    setFallbackItinerary(null);
+    setError(null);
+    setStep('result');
+    if (!currentPrefs) return;
+    setIsLoading(true);
+    setLoadingMessage("正在儲存行程...");
+    try {
+      await autoSaveTrip(fallbackItinerary, currentPrefs, null, '生成簡易行程', 'generate');
     } finally {
       setIsLoading(false);
       setLoadingMessage("");
@@ -81,6 +305,11 @@ const App: React.FC = () => {
               </div>
               <span className="text-xl font-bold text-white tracking-tight">AI TravelGenius</span>
             </div>
+            {!isLoading && (
+              <button onClick={() => { setError(null); setPasscodePrompt(null); setStep('library'); }} className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg transition ${step === 'library' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-700'}`}>
+                <FolderOpen className="w-4 h-4" /> 我的行程
+              </button>
+            )}
           </div>
         </div>
       </nav>
@@ -91,12 +320,32 @@ const App: React.FC = () => {
              <div className="flex">
                <div className="ml-3">
                  <p className="text-sm text-red-200">{error}</p>
+                 {fallbackItinerary && !isLoading && (
+                   <button onClick={acceptFallbackItinerary} className="mt-3 text-sm bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition">
+                     使用簡易行程 (演算法骨架)
+                   </button>
+                 )}
                </div>
              </div>
            </div>
         )}
 
-        {step === 'input' && !isLoading && (
+        {passcodePrompt && !isLoading && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (passcode.trim()) openShareLink(passcodePrompt.shareId, passcode.trim()); }}
+            className="max-w-md mx-auto bg-slate-800 p-6 rounded-2xl shadow-xl border border-slate-700 animate-fade-in mb-8"
+          >
+            <h2 className="text-xl font-bold text-white flex items-center gap-2 mb-2"><Lock className="w-5 h-5 text-amber-400" /> 受密碼保護的行程</h2>
+            <p className="text-sm text-slate-400 mb-4">{passcodePrompt.message}</p>
+            <div className="flex gap-2">
+              <input autoFocus type="password" value={passcode} onChange={e => setPasscode(e.target.value)} placeholder="請輸入密碼"
+                className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+              <button type="submit" className="bg-blue-600 hover:bg-blue-500 text-white text-sm px-4 py-2 rounded-lg transition">開啟</button>
+            </div>
+          </form>
+        )}
+
+        {step === 'input' && !isLoading && !passcodePrompt && (
           <div className="animate-fade-in-up">
             <div className="text-center mb-10">
               <h1 className="text-4xl font-extrabold text-white sm:text-5xl sm:tracking-tight lg:text-6xl">
@@ -110,20 +359,94 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {isLoading && (
-            <div className="flex flex-col items-center justify-center h-[60vh] text-center animate-fade-in">
+        {step === 'library' && !isLoading && (
+          <TripLibrary
+            activeTripId={currentTripId}
+            onOpen={openSavedTrip}
+            onDeleted={(id) => { if (id === currentTripId) { setCurrentTripId(null); setHistory(null); } }}
+          />
+        )}
+
+        {isLoading && pendingReview && (
+          <CandidateReview
+            review={pendingReview.review}
+            onConfirm={(scheduled) => {
+              pendingReview.resolve(scheduled);
+              setPendingReview(null);
+            }}
+            onCancel={() => abortRef.current?.abort()}
+          />
+        )}
+
+        {isLoading && !pendingReview && (
+            <div className={`flex flex-col items-center justify-center text-center animate-fade-in ${partialDays.length > 0 ? 'mb-8' : 'h-[60vh]'}`}>
                 <Loader2 className="w-16 h-16 text-blue-500 animate-spin mb-6" />
                 <h2 className="text-2xl font-bold text-white mb-2">請稍候</h2>
-                <p className="text-slate-400">{loadingMessage}</p>
+                <p className="text-slate-400 mb-6">{loadingMessage}</p>
+                {Object.keys(progress).length > 0 && <GenerationProgress progress={progress} />}
+                {abortRef.current && (
+                  <button onClick={() => abortRef.current?.abort()} className="mt-6 flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 px-4 py-2 rounded-lg transition">
+                    <XCircle className="w-4 h-4" /> 取消生成
+                  </button>
+                )}
             </div>
         )}
 
+        {/* Stage 3 streams days in as they complete */}
+        {isLoading && partialDays.length > 0 && currentPrefs && (
+          <ItineraryView
+            itinerary={{
+              tripTitle: "行程生成中...",
+              totalCostEstimate: 0,
+              currency: currentPrefs.budget.currency,
+              summary: `已完成 ${partialDays.length} 天`,
+              days: partialDays,
+            }}
+            travelers={currentPrefs.travelers}
+            isDraft
+            onBack={() => {}}
+          />
+        )}
+
+        {step === 'result' && itinerary && !isLoading && (itinerary.planningContext || collab) && (
+          <div className="max-w-6xl mx-auto mb-6">
+            <CollaborationBar
+              docId={collab?.docId || null}
+              clientId={collab?.clientId}
+              presence={collaborators}
+              notice={collabNotice}
+              busy={collabBusy}
+              onStart={startCollaboration}
+              onLeave={leaveCollaboration}
+            />
+          </div>
+        )}
+
+        {/* Undo / redo would silently rewrite other people's days, so history is local-only */}
+        {step === 'result' && itinerary && !isLoading && currentTripId && history && !collab && (
+          <div className="max-w-6xl mx-auto mb-6">
+            <VersionHistory
+              history={history}
+              currency={itinerary.currency}
+              busy={historyBusy}
+              onUndo={() => switchVersion(() => undoVersion(currentTripId))}
+              onRedo={() => switchVersion(() => redoVersion(currentTripId))}
+              onRestore={(version) => switchVersion(() => restoreVersion(currentTripId, version))}
+            />
+          </div>
+        )}
+
         {step === 'result' && itinerary && !isLoading && (
           <ItineraryView 
             itinerary={itinerary} 
             // Fix: Use travelers from the saved itinerary if available (shared link case), otherwise from current form input
             travelers={itinerary.travelers || currentPrefs?.travelers || 2} 
+            onRegenerateDay={itinerary.planningContext ? (dayNumber) => editDay(dayNumber, () => regenerateDay(itinerary, dayNumber), `重新生成 Day ${dayNumber}`, 'regenerate_day') : undefined}
+            onReplaceActivity={itinerary.planningContext ? (dayNumber, idx) => editDay(dayNumber, () => replaceActivity(itinerary, dayNumber, idx), `替換 Day ${dayNumber} 的活動`, 'replace_activity') : undefined}
+            shareOwnerKey={currentTripId || collab?.docId}
+            onCreateEditSession={itinerary.planningContext ? ensureCollaboration : undefined}
             onBack={() => {
+                setCollab(null);
                 setStep('input');
                 window.history.pushState({}, '', window.location.pathname);
             }} 
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { BudgetReport, BudgetSwap } from '../types';
+import { Wallet, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface BudgetReportPanelProps {
+  report: BudgetReport;
+  currency: string;
+}
+
+const describeSwap = (swap: BudgetSwap) =>
+  swap.add ? `Day ${swap.day}：以「${swap.add}」取代「${swap.remove}」` : `Day ${swap.day}：略過「${swap.remove}」`;
+
+// Optimizer's per-person spend estimate against the budget, with the swaps it made or would suggest
+const BudgetReportPanel: React.FC<BudgetReportPanelProps> = ({ report, currency }) => {
+  const [showApplied, setShowApplied] = useState(false);
+  const overBudget = report.overrun > 0;
+  if (!overBudget && report.appliedSwaps.length === 0) return null;
+
+  const suggestedTotal = report.suggestedSwaps.reduce((sum, s) => sum + s.savings, 0);
+
+  return (
+    <div className={`${overBudget ? 'bg-red-900/20 border-red-500/50' : 'bg-emerald-900/20 border-emerald-500/40'} border p-4 rounded-xl flex items-start gap-4 print:bg-white print:border-gray-300`}>
+      <Wallet className={`w-6 h-6 flex-shrink-0 mt-0.5 ${overBudget ? 'text-red-400' : 'text-emerald-400'}`} />
+      <div className="flex-1 text-sm">
+        <h3 className={`font-bold mb-1 print:text-black ${overBudget ? 'text-red-300' : 'text-emerald-300'}`}>
+          {overBudget ? `預估每人花費超出預算 ${currency} ${report.overrun.toLocaleString()}` : '已依預算調整行程'}
+        </h3>
+        <p className="text-slate-300 print:text-gray-700">
+          預估每人花費 (門票、餐費、交通) {currency} {report.plannedSpend.toLocaleString()} / 預算 {currency} {report.budget.toLocaleString()}
+        </p>
+
+        {overBudget && report.suggestedSwaps.length > 0 && (
+          <div className="mt-2">
+            <div className="text-red-200">最省的調整建議：</div>
+            <ul className="text-red-100/80 space-y-0.5 mt-1 print:text-gray-700">
+              {report.suggestedSwaps.map(swap => (
+                <li key={`${swap.day}-${swap.remove}`}>
+                  {describeSwap(swap)}，省 {currency} {swap.savings.toLocaleString()}
+                  {swap.mustVisit && <span className="ml-1 text-xs bg-amber-600 text-white px-1.5 py-0.5 rounded-full">必去</span>}
+                </li>
+              ))}
+            </ul>
+            {suggestedTotal < report.overrun && (
+              <div className="text-xs text-red-300/80 mt-1">以上調整仍不足以回到預算內，建議提高預算或減少餐飲安排。</div>
+            )}
+          </div>
+        )}
+        {overBudget && report.suggestedSwaps.length === 0 && (
+          <div className="text-xs text-red-300/80 mt-1">已無更便宜的替代地點，建議提高預算或減少餐飲安排。</div>
+        )}
+
+        {report.appliedSwaps.length > 0 && (
+          <div className="mt-2 print:hidden">
+            <button type="button" onClick={() => setShowApplied(v => !v)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+              {showApplied ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              為符合預算已自動調整 {report.appliedSwaps.length} 處
+            </button>
+            {showApplied && (
+              <ul className="text-xs text-slate-400 space-y-0.5 mt-1">
+                {report.appliedSwaps.map((swap, i) => (
+                  <li key={i}>{describeSwap(swap)}，省 {currency} {swap.savings.toLocaleString()}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BudgetReportPanel;
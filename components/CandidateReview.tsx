@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { CandidatePlace, ClosureCalendar, CandidateReview as CandidateReviewData } from '../types';
+import { Pin, PinOff, EyeOff, Plus, ListChecks, ArrowRight, XCircle, Star } from 'lucide-react';
+
+interface CandidateReviewProps {
+  review: CandidateReviewData;
+  onConfirm: (scheduled: CandidatePlace[]) => void;
+  onCancel: () => void;
+}
+
+const CATEGORY_LABELS: Record<CandidatePlace['category'], string> = {
+  sightseeing: '觀光',
+  shopping: '購物',
+  food: '美食',
+  culture: '文化',
+  other: '其他',
+};
+
+const CandidateReview: React.FC<CandidateReviewProps> = ({ review, onConfirm, onCancel }) => {
+  // Placeholders such as "市區自由探索" can repeat across days, so places are keyed by index
+  const allPlaces = [...review.scheduled, ...review.unscheduled].map((place, key) => ({ key, place }));
+
+  // key -> day (null = not in the plan)
+  const [assignments, setAssignments] = useState<Record<number, number | null>>(() => {
+    const initial: Record<number, number | null> = {};
+    allPlaces.forEach(({ key, place }) => { initial[key] = key < review.scheduled.length ? place.suggestedDay || null : null; });
+    return initial;
+  });
+  const [pinned, setPinned] = useState<Set<number>>(() => new Set(allPlaces.filter(p => p.place.pinned).map(p => p.key)));
+  const [addDay, setAddDay] = useState<Record<number, number>>({});
+
+  const dayNumbers = Array.from({ length: review.totalDays }, (_, i) => i + 1);
+
+  const assign = (key: number, day: number | null) => setAssignments(prev => ({ ...prev, [key]: day }));
+
+  const setPin = (key: number, value: boolean) => setPinned(prev => {
+    const next = new Set(prev);
+    if (value) next.add(key); else next.delete(key);
+    return next;
+  });
+
+  const handleConfirm = () => {
+    const result: CandidatePlace[] = [];
+    dayNumbers.forEach(day => {
+      // Keep the optimizer's order for places that stayed; appended places go last
+      allPlaces
+        .filter(({ key }) => assignments[key] === day)
+        .forEach(({ key, place }) => result.push({
+          ...place,
+          suggestedDay: day,
+          pinned: pinned.has(key),
+          // Times, meal booking, cost and the arriving leg were computed for the original day only
+          ...(place.suggestedDay !== day ? {
+            plannedArrival: undefined, plannedDeparture: undefined, mealSlot: undefined, estimatedCost: undefined, transportFromPrevious: undefined,
+          } : {}),
+        }));
+    });
+    onConfirm(result);
+  };
+
+  // Short summary of the date-specific closures, e.g. "假日照常開放、假日翌日休、休館 12-26~01-01"
+  const describeClosures = (closures: ClosureCalendar) => [
+    closures.openOnHolidays && '假日照常開放',
+    closures.closedOnHolidays && '假日休',
+    closures.closedAfterHolidays && '假日翌日休',
+    ...(closures.closedRanges || []).map(r => `休館 ${r.from.slice(5)}~${r.to.slice(5)}`),
+    closures.closedDates && closures.closedDates.length > 0 && `休館 ${closures.closedDates.map(d => d.slice(5)).join('、')}`,
+    closures.openOnlyOn && closures.openOnlyOn.length > 0 && `僅 ${closures.openOnlyOn.map(d => d.slice(5)).join('、')} 開放`,
+  ].filter(Boolean).join('、');
+
+  const renderMeta = (c: CandidatePlace) => (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400 mt-1">
+      <span className="bg-slate-700 px-2 py-0.5 rounded-full">{CATEGORY_LABELS[c.category] || c.category}</span>
+      {c.plannedArrival && <span>預計 {c.plannedArrival}–{c.plannedDeparture}</span>}
+      {c.openingText && <span>營業 {c.openingText}</span>}
+      {c.score !== undefined && <span>分數 {c.score}</span>}
+      {c.rating > 0 && <span className="flex items-center gap-0.5"><Star className="w-3 h-3 text-yellow-500" />{c.rating}</span>}
+      {c.distanceFromHotel !== undefined && c.distanceFromHotel < 999 && <span>距飯店 {c.distanceFromHotel} km</span>}
+      {c.closedDays && c.closedDays.length > 0 && <span>公休: {c.closedDays.map(d => '日一二三四五六'[d]).join('、')}</span>}
+      {c.closures && describeClosures(c.closures) && <span>{describeClosures(c.closures)}</span>}
+    </div>
+  );
+
+  const dropped = allPlaces.filter(({ key }) => assignments[key] === null);
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 animate-fade-in">
+      <div className="bg-slate-800 p-6 rounded-2xl shadow-lg border border-slate-700">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2"><ListChecks className="w-6 h-6 text-blue-400" /> 檢視候選地點</h2>
+        <p className="text-slate-400 text-sm mt-2">以下為演算法排出的每日地點。您可以固定 (必去)、排除或移動到其他天，確認後 AI 才會進行最終規劃。</p>
+      </div>
+
+      {dayNumbers.map(day => {
+        const places = allPlaces.filter(({ key }) => assignments[key] === day);
+        return (
+          <div key={day} className="bg-slate-800 rounded-2xl shadow-lg overflow-hidden border border-slate-700">
+            <div className="bg-blue-600 text-white px-4 py-2 font-bold">第 {day} 天 <span className="text-blue-100 text-sm font-normal">({places.length} 個地點)</span></div>
+            <ul className="divide-y divide-slate-700">
+              {places.length === 0 && <li className="px-4 py-3 text-sm text-slate-500">(無地點，AI 將自行安排)</li>}
+              {places.map(({ key, place: c }) => (
+                <li key={key} className="px-4 py-3 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1">
+                    <div className="font-medium text-slate-100 flex items-center gap-2">
+                      {c.name}
+                      {pinned.has(key) && <span className="text-xs bg-amber-600 text-white px-2 py-0.5 rounded-full">必去</span>}
+                    </div>
+                    {c.matchReason && <div className="text-xs text-blue-300 mt-0.5">{c.matchReason}</div>}
+                    {renderMeta(c)}
+                  </div>
+                  {c.cityTransfer ? (
+                    <div className="text-xs text-purple-300">{c.cityTransfer.label} {c.cityTransfer.depart}–{c.cityTransfer.arrive}，更換住宿的日子固定安排</div>
+                  ) : c.dayTrip ? (
+                    <div className="text-xs text-purple-300">{c.dayTrip.label} {c.plannedArrival}–{c.plannedDeparture}，{c.dayTrip.destination}一日遊的日子固定安排</div>
+                  ) : (
+                    <div className="flex gap-2 items-center">
+                      <button type="button" onClick={() => setPin(key, !pinned.has(key))} className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded text-xs transition">
+                        {pinned.has(key) ? <><PinOff className="w-3 h-3" /> 取消固定</> : <><Pin className="w-3 h-3" /> 固定</>}
+                      </button>
+                      <select value={day} onChange={e => assign(key, Number(e.target.value))} className="bg-slate-700 border border-slate-600 text-white text-xs rounded px-2 py-1.5">
+                        {dayNumbers.map(d => <option key={d} value={d}>移至 Day {d}</option>)}
+                      </select>
+                      <button type="button" onClick={() => { assign(key, null); setPin(key, false); }} className="flex items-center gap-1 bg-slate-700 hover:bg-red-700 text-slate-200 px-3 py-1.5 rounded text-xs transition">
+                        <EyeOff className="w-3 h-3" /> 排除
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+
+      {dropped.length > 0 && (
+        <div className="bg-slate-800 rounded-2xl shadow-lg overflow-hidden border border-slate-700">
+          <div className="bg-slate-700 text-slate-200 px-4 py-2 font-bold">未排入行程 <span className="text-slate-400 text-sm font-normal">({dropped.length} 個地點)</span></div>
+          <ul className="divide-y divide-slate-700">
+            {dropped.map(({ key, place: c }) => (
+              <li key={key} className="px-4 py-3 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1">
+                  <div className="font-medium text-slate-300">{c.name}</div>
+                  {renderMeta(c)}
+                </div>
+                <div className="flex gap-2 items-center">
+                  <select value={addDay[key] || c.suggestedDay || 1} onChange={e => setAddDay(prev => ({ ...prev, [key]: Number(e.target.value) }))} className="bg-slate-700 border border-slate-600 text-white text-xs rounded px-2 py-1.5">
+                    {dayNumbers.map(d => <option key={d} value={d}>Day {d}</option>)}
+                  </select>
+                  <button type="button" onClick={() => { assign(key, addDay[key] || c.suggestedDay || 1); setPin(key, true); }} className="flex items-center gap-1 bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded text-xs transition">
+                    <Plus className="w-3 h-3" /> 加入 (必去)
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button type="button" onClick={onCancel} className="flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 px-6 py-3 rounded-xl transition">
+          <XCircle className="w-5 h-5" /> 取消生成
+        </button>
+        <button type="button" onClick={handleConfirm} className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold px-6 py-3 rounded-xl transition">
+          確認並開始最終規劃 <ArrowRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateReview;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Users, LogOut, Loader2, Pencil } from 'lucide-react';
+import { Presence } from '../services/collaboration';
+
+interface CollaborationBarProps {
+  docId: string | null; // Shared document of the running session, if any
+  clientId?: string;
+  presence: Presence[];
+  notice?: string | null; // e.g. a lost edit conflict
+  busy: boolean;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+// Starts a shared editing session for the trip on screen, and shows who else is in it.
+// Others join through an editable share link, so the session itself has no invite link.
+const CollaborationBar: React.FC<CollaborationBarProps> = ({ docId, clientId, presence, notice, busy, onStart, onLeave }) => {
+  if (!docId) {
+    return (
+      <div className="flex justify-end print:hidden">
+        <button type="button" onClick={onStart} disabled={busy} className="flex items-center gap-2 text-sm bg-slate-800 border border-slate-700 hover:bg-slate-700 text-slate-200 px-4 py-2 rounded-lg transition disabled:opacity-50">
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />} 開始共同編輯
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 border border-emerald-700/50 rounded-xl p-4 print:hidden">
+      <div className="flex flex-wrap items-center gap-3">
+        <Users className="w-5 h-5 text-emerald-400" />
+        <span className="text-sm text-slate-300">共同編輯中</span>
+        <div className="flex flex-wrap gap-2">
+          {presence.map(p => (
+            <span key={p.clientId} className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full ${p.editingDay ? 'bg-amber-900/50 text-amber-200' : 'bg-slate-700 text-slate-200'}`}>
+              {p.editingDay && <Pencil className="w-3 h-3" />}
+              {p.name}{p.clientId === clientId ? ' (你)' : ''}
+              {p.editingDay ? ` · 編輯 Day ${p.editingDay}` : ' · 檢視中'}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 ml-auto">
+          <button type="button" onClick={onLeave} className="flex items-center gap-1 text-sm bg-slate-700 hover:bg-red-600 text-white px-3 py-1.5 rounded-lg transition">
+            <LogOut className="w-4 h-4" /> 離開
+          </button>
+        </div>
+      </div>
+      <div className="text-slate-500 text-xs mt-3">在「分享」中建立可編輯的連結，即可邀請旅伴加入。</div>
+      {notice && <div className="text-amber-300 text-xs mt-2">{notice}</div>}
+    </div>
+  );
+};
+
+export default CollaborationBar;
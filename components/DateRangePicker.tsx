@@ -1,38 +1,33 @@
 import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { formatTripDate, parseTripDate, daysBetween, getDayOfWeek, todayIn } from '../utils/tripDates';
 
 interface DateRangePickerProps {
   startDate: string;
   endDate: string;
   onChange: (start: string, end: string) => void;
+  today?: string; // Trip-local today (destination time zone); defaults to the browser's
 }
 
-const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, endDate, onChange }) => {
-  // Initialize view based on start date or today
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, endDate, onChange, today = todayIn() }) => {
+  // Initialize view based on start date or today; month is 0-based like Date#getMonth
   const [viewDate, setViewDate] = useState(() => {
-    return startDate ? new Date(startDate) : new Date();
+    const { year, month } = parseTripDate(startDate || today);
+    return { year, month: month - 1 };
   });
 
-  const year = viewDate.getFullYear();
-  const month = viewDate.getMonth();
+  const { year, month } = viewDate;
 
-  const getDaysInMonth = (y: number, m: number) => new Date(y, m + 1, 0).getDate();
-  const getFirstDayOfMonth = (y: number, m: number) => new Date(y, m, 1).getDay();
+  const getDaysInMonth = (y: number, m: number) => daysBetween(formatTripDate(y, m + 1, 1), formatTripDate(y, m + 2, 1));
+  const getFirstDayOfMonth = (y: number, m: number) => getDayOfWeek(formatTripDate(y, m + 1, 1));
 
   const daysInMonth = getDaysInMonth(year, month);
   const startDay = getFirstDayOfMonth(year, month);
   
-  const formatDate = (date: Date) => {
-    // Manually format to YYYY-MM-DD to avoid timezone issues
-    const y = date.getFullYear();
-    const m = String(date.getMonth() + 1).padStart(2, '0');
-    const d = String(date.getDate()).padStart(2, '0');
-    return `${y}-${m}-${d}`;
-  };
+  const cellDate = (day: number) => formatTripDate(year, month + 1, day);
 
   const handleDateClick = (day: number) => {
-    const clickedDate = new Date(year, month, day);
-    const clickedStr = formatDate(clickedDate);
+    const clickedStr = cellDate(day);
 
     // Logic:
     // 1. If range is full (Start & End exist) -> Reset, Start = Clicked, End = ''
@@ -49,9 +44,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, endDate, o
       onChange(clickedStr, '');
     } else {
       // Case 3: Start exists, waiting for end
-      const start = new Date(startDate);
-      // We compare timestamps to verify order
-      if (clickedDate.getTime() < start.getTime()) {
+      if (daysBetween(startDate, clickedStr) < 0) {
         // User clicked a date BEFORE the current start, update start instead
         onChange(clickedStr, '');
       } else {
@@ -62,20 +55,19 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, endDate, o
   };
 
   const changeMonth = (delta: number) => {
-    setViewDate(new Date(year, month + delta, 1));
+    const total = year * 12 + month + delta;
+    setViewDate({ year: Math.floor(total / 12), month: ((total % 12) + 12) % 12 });
   };
 
   const isSelected = (day: number) => {
-    const currentStr = formatDate(new Date(year, month, day));
+    const currentStr = cellDate(day);
     return currentStr === startDate || currentStr === endDate;
   };
 
   const isInRange = (day: number) => {
     if (!startDate || !endDate) return false;
-    const date = new Date(year, month, day).getTime();
-    const start = new Date(startDate).getTime();
-    const end = new Date(endDate).getTime();
-    return date > start && date < end;
+    const date = cellDate(day);
+    return daysBetween(startDate, date) > 0 && daysBetween(date, endDate) > 0;
   };
 
   return (
@@ -116,6 +108,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({ startDate, endDate, o
                 ${!selected && !inRange ? 'text-slate-300 hover:bg-slate-700 hover:text-white' : ''}
                 ${inRange && day === 1 ? 'rounded-l-lg' : ''}
                 ${inRange && day === daysInMonth ? 'rounded-r-lg' : ''}
+                ${!selected && cellDate(day) === today ? 'ring-1 ring-blue-400' : ''}
               `}
             >
               {day}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { PipelineStage, ProgressEvent } from '../types';
+import { CheckCircle2, Circle, Loader2, MinusCircle } from 'lucide-react';
+
+interface GenerationProgressProps {
+  progress: Partial<Record<PipelineStage, ProgressEvent>>;
+}
+
+const STAGES: { stage: PipelineStage; label: string; unit: string }[] = [
+  { stage: 'airport', label: '機場定位', unit: '' },
+  { stage: 'candidates', label: '搜尋住宿周邊景點', unit: '間酒店' },
+  { stage: 'routing', label: '評分與路線優化', unit: '個地點' },
+  { stage: 'final', label: 'AI 最終行程規劃', unit: '天' },
+];
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ progress }) => {
+  return (
+    <ul className="w-full max-w-md space-y-3 text-left">
+      {STAGES.map(({ stage, label, unit }) => {
+        const event = progress[stage];
+        const status = event?.status;
+        const hasCount = event?.total !== undefined && event.completed !== undefined;
+
+        return (
+          <li key={stage} className="flex items-start gap-3 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3">
+            {status === 'done' ? <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0" />
+              : status === 'running' ? <Loader2 className="w-5 h-5 text-blue-400 animate-spin flex-shrink-0" />
+              : status === 'skipped' ? <MinusCircle className="w-5 h-5 text-yellow-500 flex-shrink-0" />
+              : <Circle className="w-5 h-5 text-slate-600 flex-shrink-0" />}
+            <div className="flex-1">
+              <div className={`font-medium ${status ? 'text-slate-100' : 'text-slate-500'}`}>
+                {label}
+                {hasCount && <span className="ml-2 text-xs text-slate-400">{event!.completed} / {event!.total} {unit}</span>}
+              </div>
+              {event?.detail && <div className="text-xs text-slate-400 mt-0.5">{event.detail}</div>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default GenerationProgress;
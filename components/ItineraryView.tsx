@@ -1,25 +1,70 @@
 
 import React, { useState } from 'react';
-import { ItineraryResult } from '../types';
-import { DollarSign, Navigation, ExternalLink, Printer, Map as MapIcon, List, Users, Share2, MapPin, Download, Info, Lightbulb, Tag, AlertTriangle, Clock } from 'lucide-react';
+import { ItineraryResult, MustVisitIssue, DayTripIssue, ScheduledDayTrip, CandidatePlace, Activity } from '../types';
+import { DollarSign, Navigation, ExternalLink, Printer, Map as MapIcon, List, Users, Share2, MapPin, Download, Info, Lightbulb, Tag, AlertTriangle, Clock, RefreshCw, Shuffle, HelpCircle, TrainFront } from 'lucide-react';
 import { triggerBrowserPrint } from '../utils/pdfGenerator';
 import { downloadKML } from '../utils/kmlGenerator';
-import { saveItineraryToCloud } from '../services/storageService';
+import { StorageResult, createDocumentId } from '../services/storageService';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import MapComponent from './MapComponent';
+import ScoreExplanation from './ScoreExplanation';
+import BudgetReportPanel from './BudgetReportPanel';
+import SharePanel from './SharePanel';
+import { resolveTravelerProfiles, hasSpecialNeeds, groupActivityCost, activityCostFor, describeProfile, describeTravelerProfiles } from '../utils/travelerProfiles';
 
 interface ItineraryViewProps {
   itinerary: ItineraryResult;
   travelers: number;
   onBack: () => void;
+  isDraft?: boolean; // Still streaming in; hide actions that persist or export the trip
+  // Partial regeneration; only provided when the trip still has its planning context
+  onRegenerateDay?: (dayNumber: number) => Promise<void>;
+  onReplaceActivity?: (dayNumber: number, activityIndex: number) => Promise<void>;
+  shareOwnerKey?: string; // Groups this trip's share links, e.g. its "My Trips" id
+  onCreateEditSession?: () => Promise<StorageResult<string>>; // Enables editable share links
 }
 
-const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onBack }) => {
+const MUST_VISIT_REASONS: Record<MustVisitIssue['reason'], string> = {
+  not_found: '搜尋結果中找不到此地點',
+  unsuitable: '不適合同行者的行動需求',
+  closed: '可安排的日子皆為公休日',
+  too_far: '距離各天住宿過遠',
+  no_time: '可行日子的時間已排滿',
+  removed: '已在候選審核時移出行程',
+};
+
+const DAY_TRIP_REASONS: Record<DayTripIssue['reason'], string> = {
+  not_found: '找不到此目的地或其附近的地點',
+  too_close: '距離住宿太近，已併入一般行程',
+  closed: '主要景點在可安排的日子皆公休',
+  no_day: '沒有足夠時間來回的日子',
+};
+
+const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onBack, isDraft = false, onRegenerateDay, onReplaceActivity, shareOwnerKey, onCreateEditSession }) => {
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
-  const [isSaving, setIsSaving] = useState(false);
-  const [shareUrl, setShareUrl] = useState<string | null>(null);
-  const [copySuccess, setCopySuccess] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  // Trips outside "My Trips" group their links under a key of their own for as long as they are open
+  const [fallbackShareKey] = useState(createDocumentId);
   const [showKmlHelp, setShowKmlHelp] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null); // "day-2" or "act-2-1" while regenerating
+  const [openExplanation, setOpenExplanation] = useState<string | null>(null); // "2-1" = day 2, activity 1
+
+  // Ranked candidates keyed by name, for the "why this place" panel (absent on shared trips)
+  const candidatesByName = new Map<string, CandidatePlace>();
+  itinerary.planningContext?.rankedCandidates.forEach(c => {
+    if (c.scoreBreakdown) candidatesByName.set(c.name.toLowerCase().trim(), c);
+  });
+
+  const runRegeneration = async (key: string, task: () => Promise<void>) => {
+      setBusyKey(key);
+      try {
+          await task();
+      } catch (e: any) {
+          alert("重新生成失敗：" + (e.message || "發生未知錯誤"));
+      } finally {
+          setBusyKey(null);
+      }
+  };
 
   // Prepare chart data & calculations
   const costData = itinerary.days.map(day => ({
@@ -27,31 +72,28 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
     perPerson: day.activities.reduce((acc, act) => acc + (act.cost || 0) + (act.transportCost || 0), 0)
   }));
 
+  // Children / seniors pay Activity.costByAgeGroup where set; `cost` and the per-person figures are the adult price
+  const profiles = resolveTravelerProfiles({ travelers, travelerProfiles: itinerary.travelerProfiles });
+  const showProfiles = hasSpecialNeeds(profiles);
+  const groupCost = (act: Activity) => groupActivityCost(act, profiles) + (act.transportCost || 0) * travelers;
+  const dayGroupCost = (activities: Activity[]) => activities.reduce((sum, act) => sum + groupCost(act), 0);
+  const profileCosts = profiles.map(p => {
+    const perPerson = itinerary.days.reduce((sum, day) => sum + day.activities.reduce((acc, act) => acc + activityCostFor(act, p.ageGroup) + (act.transportCost || 0), 0), 0);
+    return { profile: p, perPerson, subtotal: perPerson * p.count };
+  });
+
   const totalPerPerson = costData.reduce((acc, item) => acc + item.perPerson, 0);
-  const totalGroup = totalPerPerson * travelers;
+  const totalGroup = itinerary.days.reduce((acc, day) => acc + dayGroupCost(day.activities), 0);
   
-  const isOverBudget = itinerary.totalCostEstimate ? totalGroup > itinerary.totalCostEstimate : false;
-
-  const handleShare = async () => {
-    setIsSaving(true);
-    try {
-        const id = await saveItineraryToCloud(itinerary);
-        const url = `${window.location.origin}${window.location.pathname}?shareId=${id}`;
-        setShareUrl(url);
-    } catch (e) {
-        alert("儲存行程失敗，請稍後再試。");
-    } finally {
-        setIsSaving(false);
-    }
-  };
-
-  const copyToClipboard = () => {
-      if (shareUrl) {
-          navigator.clipboard.writeText(shareUrl);
-          setCopySuccess(true);
-          setTimeout(() => setCopySuccess(false), 2000);
-      }
-  };
+  // Compare against the user's per-person budget when the trip still knows it, else the model's own estimate
+  const budgetPerPerson = itinerary.planningContext?.prefs.budget.amount;
+  const holidayNames = new Map((itinerary.planningContext?.holidays || []).map(h => [h.date, h.name]));
+  const dayTripsByDay = new Map<number, ScheduledDayTrip>((itinerary.dayTrips || []).map(t => [t.day, t]));
+  // Fixed legs are either a city change or the two legs of a day trip
+  const transferLabel = (dayNumber: number) => dayTripsByDay.has(dayNumber) ? '一日遊交通' : '城市移動';
+  const isOverBudget = budgetPerPerson
+      ? totalPerPerson > budgetPerPerson
+      : (itinerary.totalCostEstimate ? totalGroup > itinerary.totalCostEstimate : false);
 
   const handleKmlExport = () => {
       downloadKML(itinerary);
@@ -83,6 +125,8 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
 
   // Helper to safely format currency
   const fmtMoney = (val?: number) => val ? val.toLocaleString() : '0';
+  // `amount` of an activity whose price was never found reads as unknown rather than free
+  const fmtCost = (activity: Activity, amount?: number) => activity.costUnknown ? '未知' : fmtMoney(amount);
 
   return (
     <div className="max-w-6xl mx-auto space-y-8 animate-fade-in print:max-w-none print:w-full print:text-black">
@@ -90,14 +134,16 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
       {/* Header & Actions */}
       <div className="bg-slate-800 p-6 rounded-2xl shadow-lg flex flex-col md:flex-row justify-between items-start md:items-center gap-6 print:shadow-none print:border-b print:bg-white print:text-black print:mb-4">
         <div className="w-full md:w-auto">
-          <button onClick={onBack} className="text-sm text-slate-400 hover:text-white mb-2 print:hidden flex items-center gap-1">
-            &larr; 返回編輯 / 新行程
-          </button>
+          {!isDraft && (
+            <button onClick={onBack} className="text-sm text-slate-400 hover:text-white mb-2 print:hidden flex items-center gap-1">
+              &larr; 返回編輯 / 新行程
+            </button>
+          )}
           <h1 className="text-3xl font-bold text-blue-400 print:text-blue-800">{itinerary.tripTitle}</h1>
           <div className="flex flex-wrap items-center gap-2 mt-2">
              <span className="text-slate-300 print:text-gray-600">{itinerary.summary}</span>
              <span className="bg-slate-700 text-slate-200 text-xs px-2 py-1 rounded-full flex items-center gap-1 print:border print:bg-gray-100 print:text-black whitespace-nowrap">
-                <Users className="w-3 h-3" /> {travelers} 人
+                <Users className="w-3 h-3" /> {showProfiles ? describeTravelerProfiles(profiles) : `${travelers} 人`}
              </span>
           </div>
         </div>
@@ -110,15 +156,14 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                 {itinerary.currency} {totalGroup.toLocaleString()}
             </div>
             <div className="text-xs text-slate-500 print:text-gray-500">
-                每人: {itinerary.currency} {totalPerPerson.toLocaleString()}
+                {showProfiles ? '成人每人' : '每人'}: {itinerary.currency} {totalPerPerson.toLocaleString()}
             </div>
             {isOverBudget && <div className="text-xs text-red-400 mt-1 flex justify-end gap-1"><AlertTriangle className="w-3 h-3"/> 超出預算</div>}
           </div>
 
-          <div className="grid grid-cols-2 sm:flex gap-2 print:hidden">
-              <button onClick={handleShare} disabled={isSaving || !!shareUrl} className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-4 py-3 md:py-2 rounded-lg hover:bg-indigo-500 transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed">
-                {isSaving ? <span className="animate-spin">⌛</span> : <Share2 className="w-4 h-4" />}
-                {shareUrl ? '已建立' : '分享'}
+          {!isDraft && <div className="grid grid-cols-2 sm:flex gap-2 print:hidden">
+              <button onClick={() => setShowShare(v => !v)} className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-4 py-3 md:py-2 rounded-lg hover:bg-indigo-500 transition text-sm font-medium">
+                <Share2 className="w-4 h-4" /> 分享
               </button>
               
               <button onClick={handleKmlExport} className="flex items-center justify-center gap-2 bg-emerald-600 text-white px-4 py-3 md:py-2 rounded-lg hover:bg-emerald-500 transition text-sm font-medium">
@@ -132,7 +177,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                 <span className="hidden md:inline">列印</span>
                 <span className="md:hidden">PDF</span>
               </button>
-          </div>
+          </div>}
         </div>
       </div>
 
@@ -149,20 +194,40 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
           </div>
       )}
 
-      {shareUrl && (
-          <div className="bg-indigo-900/30 border border-indigo-500/50 p-4 rounded-xl flex flex-col md:flex-row items-center gap-4 animate-fade-in print:hidden">
-              <div className="flex-1 w-full text-center md:text-left">
-                  <h3 className="text-indigo-300 font-bold mb-1">分享連結已建立</h3>
-                  <div className="flex gap-2">
-                      <input readOnly value={shareUrl} className="flex-1 bg-slate-900 border border-indigo-500/30 rounded px-3 py-2 text-sm text-indigo-100 focus:outline-none" />
-                      <button onClick={copyToClipboard} className={`px-4 py-2 rounded text-sm font-bold transition whitespace-nowrap ${copySuccess ? 'bg-green-600 text-white' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}>
-                          {copySuccess ? '已複製' : '複製'}
-                      </button>
-                  </div>
-              </div>
+      {showShare && !isDraft && (
+          <SharePanel itinerary={itinerary} ownerKey={shareOwnerKey || fallbackShareKey} onCreateEditSession={onCreateEditSession} />
+      )}
+
+      {itinerary.mustVisitIssues && itinerary.mustVisitIssues.length > 0 && (
+          <div className="bg-amber-900/30 border border-amber-500/50 p-4 rounded-xl flex items-start gap-4 print:bg-white print:border-gray-300">
+            <AlertTriangle className="w-6 h-6 text-amber-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-amber-300 font-bold mb-1 print:text-black">部分必去地點未能排入</h3>
+              <ul className="text-sm text-amber-100/80 space-y-0.5 print:text-gray-700">
+                {itinerary.mustVisitIssues.map(issue => (
+                  <li key={issue.name}>{issue.name}：{MUST_VISIT_REASONS[issue.reason]}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+      )}
+
+      {itinerary.dayTripIssues && itinerary.dayTripIssues.length > 0 && (
+          <div className="bg-amber-900/30 border border-amber-500/50 p-4 rounded-xl flex items-start gap-4 print:bg-white print:border-gray-300">
+            <TrainFront className="w-6 h-6 text-amber-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-amber-300 font-bold mb-1 print:text-black">部分一日遊未能安排</h3>
+              <ul className="text-sm text-amber-100/80 space-y-0.5 print:text-gray-700">
+                {itinerary.dayTripIssues.map(issue => (
+                  <li key={issue.destination}>{issue.destination}：{DAY_TRIP_REASONS[issue.reason]}</li>
+                ))}
+              </ul>
+            </div>
           </div>
       )}
 
+      {itinerary.budgetReport && <BudgetReportPanel report={itinerary.budgetReport} currency={itinerary.currency} />}
+
       {/* Toggle View */}
       <div className="flex gap-2 print:hidden sticky top-[70px] z-30 bg-slate-900 py-2">
         <button onClick={() => setViewMode('list')} className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-3 rounded-lg transition font-medium ${viewMode === 'list' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}>
@@ -198,18 +263,33 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
       <div className={`space-y-8 ${viewMode === 'map' ? 'hidden' : 'block'} print:block`}>
         {itinerary.days.map((day) => {
           const dayMapsUrl = getDayDirectionsUrl(day.activities);
+          const dayTrip = dayTripsByDay.get(day.dayNumber);
           return (
           <div key={day.dayNumber} className="bg-slate-800 rounded-2xl shadow-lg overflow-hidden print:shadow-none print:border print:border-gray-300 print:mb-8 print:break-inside-avoid print:bg-white">
             <div className="bg-blue-600 text-white p-4 flex flex-col md:flex-row justify-between items-start md:items-center gap-3 print:bg-blue-700 print:text-white">
               <div className="flex-1">
-                  <h2 className="text-xl font-bold flex items-center gap-2">第 {day.dayNumber} 天 - {day.date}</h2>
+                  <h2 className="text-xl font-bold flex items-center gap-2">
+                    第 {day.dayNumber} 天 - {day.date}
+                    {holidayNames.has(day.date) && <span className="text-xs font-medium bg-rose-500 text-white px-2 py-0.5 rounded-full">{holidayNames.get(day.date)}</span>}
+                    {dayTrip && <span className="text-xs font-medium bg-purple-500 text-white px-2 py-0.5 rounded-full">{dayTrip.destination} 一日遊</span>}
+                  </h2>
+                  {dayTrip?.requestedDate && (
+                      <span className="text-xs text-blue-100/80 block mt-1">原訂 {dayTrip.requestedDate}，因當日主要景點公休改至本日</span>
+                  )}
                   <span className="text-blue-100 font-medium text-sm mt-1 block">{day.summary}</span>
               </div>
-              {dayMapsUrl && (
-                  <a href={dayMapsUrl} target="_blank" rel="noopener noreferrer" className="w-full md:w-auto flex items-center justify-center gap-2 bg-white text-blue-600 px-4 py-2 rounded-lg font-bold text-sm shadow hover:bg-blue-50 transition print:hidden">
-                      <MapPin className="w-4 h-4" /> 開啟本日導航
-                  </a>
-              )}
+              <div className="w-full md:w-auto flex gap-2 print:hidden">
+                {onRegenerateDay && !isDraft && (
+                    <button onClick={() => runRegeneration(`day-${day.dayNumber}`, () => onRegenerateDay(day.dayNumber))} disabled={busyKey !== null} className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-blue-800 text-white px-4 py-2 rounded-lg font-bold text-sm shadow hover:bg-blue-900 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                        <RefreshCw className={`w-4 h-4 ${busyKey === `day-${day.dayNumber}` ? 'animate-spin' : ''}`} /> 重新生成本日
+                    </button>
+                )}
+                {dayMapsUrl && (
+                    <a href={dayMapsUrl} target="_blank" rel="noopener noreferrer" className="flex-1 md:flex-none flex items-center justify-center gap-2 bg-white text-blue-600 px-4 py-2 rounded-lg font-bold text-sm shadow hover:bg-blue-50 transition">
+                        <MapPin className="w-4 h-4" /> 開啟本日導航
+                    </a>
+                )}
+              </div>
             </div>
             
             <div className="p-4 md:p-6 relative">
@@ -219,10 +299,10 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                   <div key={idx} className="relative flex flex-col md:flex-row gap-4 md:gap-8 group print:gap-4">
                     <div className="flex-none md:w-32 flex flex-row md:flex-col items-center md:items-end gap-3 md:gap-0 bg-slate-800 z-10 print:bg-white print:items-start print:w-20">
                       <div className="font-bold text-slate-200 text-lg print:text-black">{activity.time}</div>
-                      <div className="text-xs text-slate-400 bg-slate-700 px-2 py-1 rounded-full print:bg-gray-100 print:text-gray-800 print:border print:border-gray-300 whitespace-nowrap">{activity.isMeal ? '餐飲' : '活動'}</div>
+                      <div className="text-xs text-slate-400 bg-slate-700 px-2 py-1 rounded-full print:bg-gray-100 print:text-gray-800 print:border print:border-gray-300 whitespace-nowrap">{activity.isTransfer ? transferLabel(day.dayNumber) : activity.isMeal ? '餐飲' : '活動'}</div>
                     </div>
 
-                    <div className={`hidden md:block absolute left-[-5px] top-2 w-3 h-3 rounded-full border-2 border-slate-800 shadow-sm z-20 print:border-white ${activity.isMeal ? 'bg-orange-400 print:bg-orange-500' : 'bg-blue-500 print:bg-blue-600'}`}></div>
+                    <div className={`hidden md:block absolute left-[-5px] top-2 w-3 h-3 rounded-full border-2 border-slate-800 shadow-sm z-20 print:border-white ${activity.isTransfer ? 'bg-purple-400 print:bg-purple-500' : activity.isMeal ? 'bg-orange-400 print:bg-orange-500' : 'bg-blue-500 print:bg-blue-600'}`}></div>
 
                     <div className="flex-1 bg-slate-700/50 p-4 rounded-xl hover:bg-slate-700 transition border border-slate-700 print:bg-white print:border-gray-200 print:shadow-sm print:p-2">
                       <div className="flex flex-col md:flex-row justify-between items-start gap-2">
@@ -235,7 +315,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                             {activity.duration && (
                                 <div className="flex items-center gap-1 text-xs text-slate-400 print:text-gray-600">
                                     <Clock className="w-3 h-3" />
-                                    <span>預計停留: {activity.duration}</span>
+                                    <span>{activity.isTransfer ? '移動時間' : '預計停留'}: {activity.duration}</span>
                                 </div>
                             )}
                         </div>
@@ -255,6 +335,18 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                                     <ExternalLink className="w-3 h-3" /> 詳情
                                 </a>
                             ) : null}
+
+                            {candidatesByName.has(activity.placeName.toLowerCase().trim()) && (
+                                <button onClick={() => setOpenExplanation(openExplanation === `${day.dayNumber}-${idx}` ? null : `${day.dayNumber}-${idx}`)} className="flex-1 md:flex-none flex items-center justify-center gap-1 bg-slate-600 hover:bg-slate-500 text-slate-200 px-3 py-1.5 rounded text-xs font-medium transition">
+                                    <HelpCircle className="w-3 h-3" /> 為何推薦
+                                </button>
+                            )}
+
+                            {onReplaceActivity && !isDraft && !activity.isTransfer && (
+                                <button onClick={() => runRegeneration(`act-${day.dayNumber}-${idx}`, () => onReplaceActivity(day.dayNumber, idx))} disabled={busyKey !== null} className="flex-1 md:flex-none flex items-center justify-center gap-1 bg-slate-600 hover:bg-slate-500 text-slate-200 px-3 py-1.5 rounded text-xs font-medium transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                    <Shuffle className={`w-3 h-3 ${busyKey === `act-${day.dayNumber}-${idx}` ? 'animate-spin' : ''}`} /> 換一個
+                                </button>
+                            )}
                         </div>
                       </div>
                       
@@ -278,6 +370,10 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                         </div>
                       )}
 
+                      {openExplanation === `${day.dayNumber}-${idx}` && (
+                        <ScoreExplanation place={candidatesByName.get(activity.placeName.toLowerCase().trim())!} />
+                      )}
+
                       <p className="text-slate-300 mt-2 text-sm print:text-gray-700 leading-relaxed">{activity.description}</p>
                       
                       <div className="mt-4 border-t border-slate-600 pt-3 grid grid-cols-1 md:grid-cols-2 gap-3 md:gap-4 text-sm print:border-gray-300">
@@ -287,8 +383,14 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                                 <span>{activity.isMeal ? '餐飲' : '門票/活動'}</span>
                             </div>
                             <div className="text-right">
-                                <div className="text-green-400 font-bold print:text-green-700">{itinerary.currency} {fmtMoney(activity.cost * travelers)}</div>
-                                <div className="text-xs text-slate-500 print:text-gray-500">單人: {fmtMoney(activity.cost)}</div>
+                                <div className="text-green-400 font-bold print:text-green-700">{itinerary.currency} {fmtCost(activity, groupActivityCost(activity, profiles))}</div>
+                                <div className="text-xs text-slate-500 print:text-gray-500">
+                                    {activity.costByAgeGroup
+                                        ? profiles.map(p => `${describeProfile({ ageGroup: p.ageGroup })} ${fmtMoney(activityCostFor(activity, p.ageGroup))}`)
+                                            .filter((label, i, all) => all.indexOf(label) === i)
+                                            .join(' / ')
+                                        : `單人: ${fmtCost(activity, activity.cost)}`}
+                                </div>
                             </div>
                          </div>
 
@@ -325,7 +427,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                           <th className="px-4 py-3 rounded-tl-lg">日期</th>
                           <th className="px-4 py-3">項目</th>
                           <th className="px-4 py-3">類別</th>
-                          <th className="px-4 py-3 text-right">單人費用</th>
+                          <th className="px-4 py-3 text-right">{showProfiles ? '單人費用 (成人)' : '單人費用'}</th>
                           <th className="px-4 py-3 rounded-tr-lg text-right">總計 ({travelers}人)</th>
                       </tr>
                   </thead>
@@ -345,9 +447,9 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                                             {act.placeName}
                                             {act.duration && <span className="block text-xs text-slate-400 print:text-gray-500">停留: {act.duration}</span>}
                                         </td>
-                                        <td className="px-4 py-2">{act.isMeal ? '餐飲' : '活動'}</td>
-                                        <td className="px-4 py-2 text-right">{fmtMoney(act.cost)}</td>
-                                        <td className="px-4 py-2 text-right font-bold">{fmtMoney((act.cost || 0) * travelers)}</td>
+                                        <td className="px-4 py-2">{act.isTransfer ? transferLabel(day.dayNumber) : act.isMeal ? '餐飲' : '活動'}</td>
+                                        <td className="px-4 py-2 text-right">{fmtCost(act, act.cost)}</td>
+                                        <td className="px-4 py-2 text-right font-bold">{fmtCost(act, groupActivityCost(act, profiles))}</td>
                                     </tr>
                                     {(act.transportCost! > 0 || act.transportTimeMinutes! > 10) && (
                                         <tr className="border-b border-slate-700 bg-slate-800/30 print:border-gray-200 print:bg-gray-50">
@@ -366,7 +468,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                                       {fmtMoney(day.activities.reduce((sum, a) => sum + (a.cost||0) + (a.transportCost || 0), 0))}
                                   </td>
                                   <td className="px-4 py-2 text-right text-green-400 print:text-black">
-                                      {fmtMoney(day.activities.reduce((sum, a) => sum + (a.cost||0) + (a.transportCost || 0), 0) * travelers)}
+                                      {fmtMoney(dayGroupCost(day.activities))}
                                   </td>
                               </tr>
                           </React.Fragment>
@@ -381,6 +483,32 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itinerary, travelers, onB
                   </tfoot>
               </table>
           </div>
+
+          {showProfiles && (
+              <div className="mt-6">
+                  <h3 className="text-lg font-bold text-white mb-3 print:text-black flex items-center gap-2"><Users className="w-4 h-4" /> 各同行者費用</h3>
+                  <table className="w-full text-sm text-left text-slate-300 print:text-black">
+                      <thead className="text-xs text-slate-400 bg-slate-700 print:bg-gray-200 print:text-black">
+                          <tr>
+                              <th className="px-4 py-2 rounded-tl-lg">同行者</th>
+                              <th className="px-4 py-2 text-right">人數</th>
+                              <th className="px-4 py-2 text-right">每人 (含交通)</th>
+                              <th className="px-4 py-2 rounded-tr-lg text-right">小計</th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {profileCosts.map(({ profile, perPerson, subtotal }, i) => (
+                              <tr key={i} className="border-b border-slate-700 print:border-gray-200">
+                                  <td className="px-4 py-2">{describeProfile(profile)}</td>
+                                  <td className="px-4 py-2 text-right">{profile.count}</td>
+                                  <td className="px-4 py-2 text-right">{fmtMoney(perPerson)}</td>
+                                  <td className="px-4 py-2 text-right font-bold text-green-400 print:text-black">{fmtMoney(subtotal)}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+          )}
       </div>
     </div>
   );
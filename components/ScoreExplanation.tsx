@@ -0,0 +1,54 @@
+import React from 'react';
+import { CandidatePlace, ScoringWeights } from '../types';
+import { SCORING_PROFILES, SCORE_COMPONENT_LABELS } from '../constants';
+import { BarChart3 } from 'lucide-react';
+
+interface ScoreExplanationProps {
+  place: CandidatePlace; // Must carry scoreBreakdown (set by rankCandidates)
+}
+
+const COMPONENTS = Object.keys(SCORE_COMPONENT_LABELS) as (keyof ScoringWeights)[];
+
+// "Why this place": the points each ranking component contributed to the candidate's score
+const ScoreExplanation: React.FC<ScoreExplanationProps> = ({ place }) => {
+  const breakdown = place.scoreBreakdown;
+  if (!breakdown) return null;
+
+  const profileLabel = SCORING_PROFILES.find(p => p.id === breakdown.profile)?.label || '自訂權重';
+  const maxPoints = Math.max(...COMPONENTS.map(c => breakdown[c]), 1);
+
+  return (
+    <div className="mt-3 bg-slate-800/60 p-3 rounded border-l-2 border-emerald-400 text-sm print:hidden">
+      <div className="flex items-center justify-between gap-2 mb-2 text-emerald-200">
+        <span className="flex items-center gap-2 font-medium"><BarChart3 className="w-4 h-4" /> 為何推薦此地點</span>
+        <span className="text-xs text-slate-400">評分方式：{profileLabel} · 總分 {place.score}</span>
+      </div>
+      <div className="space-y-1.5">
+        {COMPONENTS.map(component => (
+          <div key={component} className="flex items-center gap-2 text-xs">
+            <span className="w-16 text-slate-400">{SCORE_COMPONENT_LABELS[component]}</span>
+            <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${(breakdown[component] / maxPoints) * 100}%` }} />
+            </div>
+            <span className="w-10 text-right text-slate-300">+{breakdown[component]}</span>
+          </div>
+        ))}
+        {breakdown.penalty < 0 && (
+          <div className="flex items-center gap-2 text-xs text-red-300">
+            <span className="w-16">扣分</span>
+            <span className="flex-1">{breakdown.penalty === -200 ? '距離所有住宿超過 100 公里' : '缺少位置資料'}</span>
+            <span className="w-10 text-right">{breakdown.penalty}</span>
+          </div>
+        )}
+      </div>
+      <div className="mt-2 text-xs text-slate-500 flex flex-wrap gap-3">
+        {place.rating > 0 && <span>★ {place.rating}</span>}
+        {place.reviewCount > 0 && <span>{place.reviewCount.toLocaleString()} 則評論</span>}
+        {place.distanceFromHotel !== undefined && place.distanceFromHotel < 999 && <span>距住宿 {place.distanceFromHotel} km</span>}
+        {!!place.priceLevel && <span>價位 {'$'.repeat(place.priceLevel)}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreExplanation;
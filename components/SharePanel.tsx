@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Share2, Copy, Check, Trash2, Lock, Eye, Pencil, Loader2, Clock } from 'lucide-react';
+import { ItineraryResult } from '../types';
+import {
+  ShareLink, SharePermission, StorageResult, saveItineraryToCloud, listShareLinks, describeStorageError,
+} from '../services/storageService';
+import { revokeShareLinkAndSession } from '../services/collaboration';
+
+interface SharePanelProps {
+  itinerary: ItineraryResult;
+  ownerKey: string; // Groups this trip's links
+  // Starts (or reuses) the shared editing session behind editable links; absent when the trip cannot be edited
+  onCreateEditSession?: () => Promise<StorageResult<string>>;
+}
+
+const PERMISSIONS: { value: SharePermission; label: string }[] = [
+  { value: 'view', label: '唯讀' },
+  { value: 'edit', label: '可編輯' },
+];
+
+const shareUrlFor = (id: string) => `${window.location.origin}${window.location.pathname}?shareId=${id}`;
+
+// Creates share links for the trip on screen and lists / revokes the ones still open
+const SharePanel: React.FC<SharePanelProps> = ({ itinerary, ownerKey, onCreateEditSession }) => {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [permission, setPermission] = useState<SharePermission>('view');
+  const [expiresOn, setExpiresOn] = useState(''); // YYYY-MM-DD, empty = never
+  const [passcode, setPasscode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const result = await listShareLinks(ownerKey);
+    if (result.ok) setLinks(result.value);
+    else setError("讀取分享連結失敗：" + describeStorageError(result.error));
+  };
+
+  useEffect(() => { refresh(); }, [ownerKey]);
+
+  const copy = (id: string) => {
+    navigator.clipboard.writeText(shareUrlFor(id));
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const session = permission === 'edit' && onCreateEditSession ? await onCreateEditSession() : null;
+      if (session && !session.ok) {
+        setError("建立共同編輯失敗：" + describeStorageError(session.error));
+        return;
+      }
+      const result = await saveItineraryToCloud(itinerary, {
+        ownerKey,
+        permission,
+        collabId: session?.value,
+        // The link works through the whole expiry day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        passcode: passcode.trim() || undefined,
+      });
+      if (!result.ok) {
+        setError("建立分享連結失敗：" + describeStorageError(result.error));
+        return;
+      }
+      setPasscode('');
+      copy(result.value);
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    const warning = link.permission === 'edit'
+      ? "撤銷後，持有此連結的人將無法再開啟行程，共同編輯也會結束，已加入的人無法再修改。確定要撤銷嗎？"
+      : "撤銷後，持有此連結的人將無法再開啟行程。確定要撤銷嗎？";
+    if (!confirm(warning)) return;
+    const result = await revokeShareLinkAndSession(link);
+    if (!result.ok) setError("撤銷失敗：" + describeStorageError(result.error));
+    await refresh();
+  };
+
+  return (
+    <div className="bg-indigo-900/30 border border-indigo-500/50 p-4 rounded-xl animate-fade-in print:hidden">
+      <h3 className="text-indigo-300 font-bold mb-3 flex items-center gap-2"><Share2 className="w-4 h-4" /> 分享行程</h3>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <div>
+          <label className="block text-xs text-indigo-200/70 mb-1">權限</label>
+          <div className="flex bg-slate-900 rounded-lg p-1">
+            {PERMISSIONS.map(p => (
+              <button key={p.value} type="button" onClick={() => setPermission(p.value)} disabled={p.value === 'edit' && !onCreateEditSession}
+                className={`px-3 py-1 rounded-md transition disabled:opacity-40 ${permission === p.value ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:text-white'}`}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs text-indigo-200/70 mb-1">到期日 (選填)</label>
+          <input type="date" value={expiresOn} onChange={e => setExpiresOn(e.target.value)}
+            className="p-1.5 bg-slate-900 border border-indigo-500/30 rounded text-indigo-100 outline-none" />
+        </div>
+        <div>
+          <label className="block text-xs text-indigo-200/70 mb-1">密碼 (選填)</label>
+          <input type="text" value={passcode} onChange={e => setPasscode(e.target.value)} placeholder="不設定則免密碼"
+            className="p-1.5 bg-slate-900 border border-indigo-500/30 rounded text-indigo-100 outline-none" />
+        </div>
+        <button type="button" onClick={handleCreate} disabled={busy}
+          className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg font-medium transition disabled:opacity-50">
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />} 建立並複製連結
+        </button>
+      </div>
+
+      {error && <div className="text-red-300 text-xs mt-3">{error}</div>}
+
+      {links && links.length > 0 && (
+        <ul className="mt-4 space-y-2 text-sm">
+          {links.map(link => (
+            <li key={link.id} className="flex flex-wrap items-center gap-2 bg-slate-900/60 rounded-lg px-3 py-2">
+              <span className="flex items-center gap-1 text-indigo-100">
+                {link.permission === 'edit' ? <Pencil className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                {link.permission === 'edit' ? '可編輯' : '唯讀'}
+              </span>
+              {link.hasPasscode && <span className="flex items-center gap-1 text-xs text-amber-300"><Lock className="w-3 h-3" /> 密碼</span>}
+              <span className="flex items-center gap-1 text-xs text-slate-400">
+                <Clock className="w-3 h-3" /> {link.expiresAt ? `至 ${new Date(link.expiresAt).toLocaleDateString('zh-TW')}` : '永久有效'}
+              </span>
+              <span className="text-xs text-slate-500 truncate flex-1 min-w-0">{shareUrlFor(link.id)}</span>
+              <button type="button" onClick={() => copy(link.id)} title="複製" className="text-slate-300 hover:text-white">
+                {copiedId === link.id ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button type="button" onClick={() => handleRevoke(link)} title="撤銷" className="text-slate-300 hover:text-red-400">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { UserPreferences, Hotel } from '../types';
-import { CURRENCIES, TRAVEL_STYLES, FOCUS_AREAS, TRANSPORT_PREFS } from '../constants';
-import { Plus, Trash2, MapPin, Calendar, Plane, Wallet, Settings, X, Users, MessageSquare } from 'lucide-react';
+import { UserPreferences, Hotel, MealPreferences, ScoringPreferences, ScoringWeights, TravelPace, DayTrip, TravelerProfile, AgeGroup, MobilityNeed } from '../types';
+import { CURRENCIES, TRAVEL_STYLES, FOCUS_AREAS, TRANSPORT_PREFS, DEFAULT_MEALS, SCORING_PROFILES, SCORE_COMPONENT_LABELS, DESTINATION_TIME_ZONES, AGE_GROUPS, MOBILITY_NEEDS } from '../constants';
+import { Plus, Trash2, MapPin, Calendar, Plane, Wallet, Settings, X, Users, MessageSquare, RefreshCw, ListChecks, Star, Utensils, SlidersHorizontal, TrainFront } from 'lucide-react';
 import DateRangePicker from './DateRangePicker';
+import { countTripDays, daysBetween, todayIn, getTripDate } from '../utils/tripDates';
+import { countTravelers } from '../utils/travelerProfiles';
+
+export interface SubmitOptions {
+  refreshPlaces: boolean; // Bypass the cached Stage 1 search results
+  reviewCandidates: boolean; // Pause after routing so the user can edit the candidate list
+}
 
 interface TripFormProps {
-  onSubmit: (prefs: UserPreferences) => void;
+  onSubmit: (prefs: UserPreferences, options: SubmitOptions) => void;
   isLoading: boolean;
 }
 
@@ -27,8 +34,11 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
   };
 
   const [dates, setDates] = useState(loadState('dates', { start: '', end: '', startTime: '09:00', endTime: '18:00' }));
+  const [timeZone, setTimeZone] = useState<string>(loadState('timeZone', ''));
   const [airport, setAirport] = useState(loadState('airport', ''));
-  const [travelers, setTravelers] = useState(loadState('travelers', 2));
+  // Forms saved before profiles existed only have a head count
+  const [travelerProfiles, setTravelerProfiles] = useState<TravelerProfile[]>(loadState('travelerProfiles', [{ ageGroup: 'adult', count: loadState('travelers', 2) }]));
+  const travelers = Math.max(countTravelers(travelerProfiles), 1);
   const [budget, setBudget] = useState(loadState('budget', { amount: 15000, currency: 'HKD' }));
   const [style, setStyle] = useState<UserPreferences['style']>(loadState('style', {
     pace: 'moderate',
@@ -36,6 +46,14 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
     transportPreference: 'balanced',
   }));
   const [customRequests, setCustomRequests] = useState(loadState('customRequests', ''));
+  const [reviewCandidates, setReviewCandidates] = useState(loadState('reviewCandidates', false));
+  const [mustVisit, setMustVisit] = useState<string[]>(loadState('mustVisit', []));
+  const [mustVisitInput, setMustVisitInput] = useState('');
+  const [meals, setMeals] = useState<MealPreferences>(loadState('meals', DEFAULT_MEALS));
+  const [scoring, setScoring] = useState<ScoringPreferences>(loadState('scoring', { profile: SCORING_PROFILES[0].id }));
+  const [paceByDay, setPaceByDay] = useState<Record<number, TravelPace>>(loadState('paceByDay', {}));
+  const [dayTrips, setDayTrips] = useState<DayTrip[]>(loadState('dayTrips', []));
+  const [dayTripInput, setDayTripInput] = useState('');
   
   const [hotels, setHotels] = useState<Hotel[]>(loadState('hotels', [
     { id: '1', name: '', location: '', checkIn: '', checkOut: '' }
@@ -45,15 +63,26 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
   useEffect(() => {
       const dataToSave = {
           dates,
+          timeZone,
           airport,
           travelers,
+          travelerProfiles,
           budget,
           style,
           customRequests,
-          hotels
+          hotels,
+          reviewCandidates,
+          mustVisit,
+          meals,
+          scoring,
+          paceByDay,
+          dayTrips
       };
       localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToSave));
-  }, [dates, airport, travelers, budget, style, customRequests, hotels]);
+  }, [dates, timeZone, airport, travelerProfiles, budget, style, customRequests, hotels, reviewCandidates, mustVisit, meals, scoring, paceByDay, dayTrips]);
+
+  // Not persisted: a forced refresh should be a one-off decision
+  const [refreshPlaces, setRefreshPlaces] = useState(false);
 
   // State to manage which hotel's date picker is open
   const [activeHotelDateId, setActiveHotelDateId] = useState<string | null>(null);
@@ -121,7 +150,7 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
               let nextCheckOut = nextHotel.checkOut;
               
               // If next hotel's checkout is now invalid (before its new checkin), reset it to trip end
-              if (nextCheckOut && new Date(nextCheckOut) <= new Date(end)) {
+              if (nextCheckOut && daysBetween(end, nextCheckOut) <= 0) {
                   nextCheckOut = dates.end || '';
               } else if (!nextCheckOut && dates.end) {
                   // If next hotel has no checkout, default to trip end
@@ -144,13 +173,71 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
       }
   };
 
+  const addMustVisit = () => {
+    const name = mustVisitInput.trim();
+    if (name && !mustVisit.includes(name)) setMustVisit([...mustVisit, name]);
+    setMustVisitInput('');
+  };
+
+  const addDayTrip = () => {
+    const destination = dayTripInput.trim();
+    if (destination && !dayTrips.some(t => t.destination === destination)) setDayTrips([...dayTrips, { destination }]);
+    setDayTripInput('');
+  };
+
+  // '' = flexible, the optimizer picks the day
+  const setDayTripDate = (index: number, date: string) =>
+    setDayTrips(dayTrips.map((t, i) => i !== index ? t : (date ? { ...t, date } : { destination: t.destination })));
+
+  const updateProfile = (index: number, patch: Partial<TravelerProfile>) =>
+    setTravelerProfiles(travelerProfiles.map((p, i) => i === index ? { ...p, ...patch } : p));
+
+  // '' = no mobility needs
+  const setProfileMobility = (index: number, mobility: MobilityNeed | '') =>
+    setTravelerProfiles(travelerProfiles.map((p, i) => i !== index ? p : (mobility ? { ...p, mobility } : { ageGroup: p.ageGroup, count: p.count })));
+
+  const removeProfile = (index: number) => {
+    if (travelerProfiles.length > 1) setTravelerProfiles(travelerProfiles.filter((_, i) => i !== index));
+  };
+
+  const toggleMeal = (slot: keyof MealPreferences, enabled: boolean) => {
+    const next = { ...meals };
+    if (enabled) next[slot] = DEFAULT_MEALS[slot];
+    else delete next[slot];
+    setMeals(next);
+  };
+
+  // Weights shown on the sliders: the preset's, until the user edits one (which switches to 'custom')
+  const activeWeights: ScoringWeights = scoring.profile === 'custom' && scoring.weights
+    ? scoring.weights
+    : (SCORING_PROFILES.find(p => p.id === scoring.profile) || SCORING_PROFILES[0]).weights;
+
+  const setWeight = (key: keyof ScoringWeights, value: number) =>
+    setScoring({ profile: 'custom', weights: { ...activeWeights, [key]: value } });
+
+  const tripDayCount = dates.start && dates.end ? Math.max(countTripDays(dates.start, dates.end), 0) : 0;
+  const destinationToday = todayIn(timeZone || undefined);
+
+  // '' = follow the trip-wide pace
+  const setDayPace = (day: number, pace: TravelPace | '') => {
+    const next = { ...paceByDay };
+    if (pace) next[day] = pace;
+    else delete next[day];
+    setPaceByDay(next);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     if (!dates.start || !dates.end) {
       alert("請選擇旅行日期區間");
       return;
     }
     e.preventDefault();
-    onSubmit({ dates, travelers, airport, hotels, budget, style, customRequests });
+    // Overrides left over from a longer date range are dropped
+    const dayPaces = Object.fromEntries(Object.entries(paceByDay).filter(([day]) => Number(day) <= tripDayCount));
+    // Preferred dates outside the new range become flexible
+    const trips = dayTrips.map(t => t.date && (t.date < dates.start || t.date > dates.end) ? { destination: t.destination } : t);
+    const country = DESTINATION_TIME_ZONES.find(z => z.value === timeZone)?.country;
+    onSubmit({ dates, ...(timeZone ? { timeZone } : {}), ...(country ? { country } : {}), travelers, travelerProfiles: travelerProfiles.filter(p => p.count > 0), airport, hotels, budget, style, customRequests, mustVisit, meals, scoring, paceByDay: dayPaces, dayTrips: trips }, { refreshPlaces, reviewCandidates });
   };
 
   return (
@@ -172,7 +259,7 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">選擇旅行日期 (點擊開始，再點擊結束)</label>
                 <div className="flex justify-center md:justify-start">
-                    <DateRangePicker startDate={dates.start} endDate={dates.end} onChange={handleTripDateChange} />
+                    <DateRangePicker startDate={dates.start} endDate={dates.end} onChange={handleTripDateChange} today={destinationToday} />
                 </div>
               </div>
               
@@ -188,6 +275,16 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
                     value={dates.endTime} onChange={e => setDates({...dates, endTime: e.target.value})} />
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">目的地時區</label>
+                <select className="w-full p-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+                  value={timeZone} onChange={e => setTimeZone(e.target.value)}>
+                  <option value="">與本機相同</option>
+                  {DESTINATION_TIME_ZONES.map(z => <option key={z.value} value={z.value}>{z.label}</option>)}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">日期與航班時間皆以目的地當地時間計算，並依當地國定假日檢查景點休館</p>
+              </div>
             </div>
 
             <div className="space-y-4">
@@ -199,10 +296,32 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
 
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-1">
-                    <span className="flex items-center gap-2"><Users className="w-4 h-4" /> 旅遊人數</span>
+                    <span className="flex items-center gap-2"><Users className="w-4 h-4" /> 同行者 (共 {travelers} 人)</span>
                 </label>
-                <input required type="number" min="1" max="50" className="w-full p-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 outline-none" 
-                  value={travelers} onChange={e => setTravelers(parseInt(e.target.value) || 1)} />
+                <div className="space-y-2">
+                  {travelerProfiles.map((profile, i) => (
+                    <div key={i} className="flex gap-2">
+                      <select className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm outline-none"
+                        value={profile.ageGroup} onChange={e => updateProfile(i, { ageGroup: e.target.value as AgeGroup })}>
+                        {AGE_GROUPS.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+                      </select>
+                      <input required type="number" min="0" max="50" className="w-20 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm outline-none"
+                        value={profile.count} onChange={e => updateProfile(i, { count: Math.max(parseInt(e.target.value) || 0, 0) })} />
+                      <select className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm outline-none"
+                        value={profile.mobility || ''} onChange={e => setProfileMobility(i, e.target.value as MobilityNeed | '')}>
+                        <option value="">無特殊需求</option>
+                        {MOBILITY_NEEDS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                      </select>
+                      <button type="button" onClick={() => removeProfile(i)} disabled={travelerProfiles.length <= 1} className="text-slate-500 hover:text-red-400 disabled:opacity-30">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button type="button" onClick={() => setTravelerProfiles([...travelerProfiles, { ageGroup: 'child', count: 1 }])} className="mt-2 text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> 新增同行者
+                </button>
+                <p className="text-xs text-slate-500 mt-1">行程會排除不適合的景點、縮短步行距離並增加休息時間，兒童 / 長者票價另計</p>
               </div>
 
               <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-700">
@@ -212,9 +331,12 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
                 </p>
                 {dates.start && dates.end && (
                   <p className="text-xs text-slate-500 mt-1">
-                     共 {(new Date(dates.end).getTime() - new Date(dates.start).getTime()) / (1000 * 3600 * 24) + 1} 天
+                     共 {tripDayCount} 天
                   </p>
                 )}
+                {dates.start && daysBetween(destinationToday, dates.start) < 0 && (
+                  <p className="text-xs text-amber-400 mt-1">出發日早於目的地今天 ({destinationToday})</p>
+                )}
               </div>
             </div>
           </div>
@@ -296,7 +418,7 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
                   {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
                 </select>
               </div>
-              <p className="text-xs text-slate-500 mt-1">AI 將自動換算匯率，並以此貨幣顯示所有費用</p>
+              <p className="text-xs text-slate-500 mt-1">AI 將自動換算匯率，並以此貨幣顯示所有費用；門票、餐費與交通會盡量控制在預算內</p>
             </div>
 
             <div>
@@ -305,6 +427,17 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
                 value={style.pace} onChange={e => setStyle({...style, pace: e.target.value as any})}>
                 {TRAVEL_STYLES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
               </select>
+              {tripDayCount > 1 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {Array.from({ length: tripDayCount }, (_, i) => i + 1).map(day => (
+                    <select key={day} className={`p-1 text-xs rounded border ${paceByDay[day] ? 'bg-blue-900/40 border-blue-500 text-blue-100' : 'bg-slate-700 border-slate-600 text-slate-400'}`}
+                      value={paceByDay[day] || ''} onChange={e => setDayPace(day, e.target.value as TravelPace | '')}>
+                      <option value="">Day {day}: 同上</option>
+                      {TRAVEL_STYLES.map(s => <option key={s.value} value={s.value}>Day {day}: {s.label.split(' ')[0]}</option>)}
+                    </select>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div>
@@ -323,6 +456,29 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
               </select>
             </div>
 
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                 <SlidersHorizontal className="w-4 h-4 text-emerald-400" />
+                 地點評分方式
+              </label>
+              <select className="w-full p-2 bg-slate-700 border border-slate-600 rounded-lg text-white"
+                value={scoring.profile} onChange={e => setScoring({ profile: e.target.value })}>
+                {SCORING_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label} - {p.description}</option>)}
+                <option value="custom">自訂權重</option>
+              </select>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 mt-3">
+                {(Object.keys(SCORE_COMPONENT_LABELS) as (keyof ScoringWeights)[]).map(key => (
+                  <label key={key} className="flex items-center gap-3 text-xs text-slate-400">
+                    <span className="w-16">{SCORE_COMPONENT_LABELS[key]}</span>
+                    <input type="range" min={0} max={100} step={5} className="flex-1 accent-emerald-500"
+                      value={Math.round(activeWeights[key] * 100)} onChange={e => setWeight(key, Number(e.target.value) / 100)} />
+                    <span className="w-8 text-right text-slate-300">{Math.round(activeWeights[key] * 100)}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">調整任一項即改為自訂權重；各項會按比例換算，總和不必為 100。</p>
+            </div>
+
             {/* NEW: Custom Request Section */}
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
@@ -338,9 +494,119 @@ const TripForm: React.FC<TripFormProps> = ({ onSubmit, isLoading }) => {
               <p className="text-xs text-slate-500 mt-1">AI 會優先遵守此處的特別指令進行規劃。</p>
             </div>
 
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                 <Star className="w-4 h-4 text-amber-500" />
+                 必去地點
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500"
+                  placeholder="例如：東京晴空塔 (按 Enter 加入)"
+                  value={mustVisitInput}
+                  onChange={e => setMustVisitInput(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addMustVisit(); } }}
+                />
+                <button type="button" onClick={addMustVisit} className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-2 rounded-lg text-sm transition">
+                  <Plus className="w-4 h-4" /> 加入
+                </button>
+              </div>
+              {mustVisit.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {mustVisit.map(name => (
+                    <span key={name} className="flex items-center gap-1 bg-amber-600/20 border border-amber-600/50 text-amber-200 text-xs px-2 py-1 rounded-full">
+                      {name}
+                      <button type="button" onClick={() => setMustVisit(mustVisit.filter(n => n !== name))} className="hover:text-white"><X className="w-3 h-3" /></button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500 mt-1">這些地點一定會排入行程；若無法安排 (公休、距離過遠、時間不足) 會在結果中說明原因。</p>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                 <TrainFront className="w-4 h-4 text-purple-400" />
+                 一日遊
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500"
+                  placeholder="例如：日光、鎌倉 (按 Enter 加入)"
+                  value={dayTripInput}
+                  onChange={e => setDayTripInput(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addDayTrip(); } }}
+                />
+                <button type="button" onClick={addDayTrip} className="flex items-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-2 rounded-lg text-sm transition">
+                  <Plus className="w-4 h-4" /> 加入
+                </button>
+              </div>
+              {dayTrips.length > 0 && (
+                <div className="space-y-2 mt-2">
+                  {dayTrips.map((trip, index) => (
+                    <div key={trip.destination} className="flex items-center gap-2 bg-purple-600/10 border border-purple-600/40 rounded-lg px-3 py-1.5 text-sm">
+                      <span className="flex-1 text-purple-100">{trip.destination}</span>
+                      <select className="p-1 text-xs rounded border bg-slate-700 border-slate-600 text-slate-200"
+                        value={trip.date || ''} onChange={e => setDayTripDate(index, e.target.value)}>
+                        <option value="">日期彈性</option>
+                        {Array.from({ length: tripDayCount }, (_, i) => getTripDate(dates.start, i + 1)).map((date, i) => (
+                          <option key={date} value={date}>Day {i + 1} ({date})</option>
+                        ))}
+                      </select>
+                      <button type="button" onClick={() => setDayTrips(dayTrips.filter((_, i) => i !== index))} className="text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500 mt-1">每個目的地保留一整天並安排來回交通；若指定日期當地主要景點公休，會改排其他日子並在結果中說明。</p>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                 <Utensils className="w-4 h-4 text-orange-400" />
+                 用餐時段 (自動安排附近餐廳)
+              </label>
+              <div className="space-y-2">
+                {(['lunch', 'dinner'] as const).map(slot => {
+                  const window = meals[slot];
+                  return (
+                    <div key={slot} className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+                      <label className="flex items-center gap-2 w-20 cursor-pointer select-none">
+                        <input type="checkbox" className="w-4 h-4 accent-blue-500" checked={!!window} onChange={e => toggleMeal(slot, e.target.checked)} />
+                        {slot === 'lunch' ? '午餐' : '晚餐'}
+                      </label>
+                      {window && (
+                        <>
+                          <input type="time" className="p-1.5 bg-slate-700 border border-slate-600 rounded text-white" value={window.start}
+                            onChange={e => setMeals({ ...meals, [slot]: { ...window, start: e.target.value } })} />
+                          <span className="text-slate-500">至</span>
+                          <input type="time" className="p-1.5 bg-slate-700 border border-slate-600 rounded text-white" value={window.end}
+                            onChange={e => setMeals({ ...meals, [slot]: { ...window, end: e.target.value } })} />
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">在此時段內入座，優先選擇前後景點附近且營業中的餐廳。</p>
+            </div>
+
           </div>
         </section>
 
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+            <input type="checkbox" className="w-4 h-4 accent-blue-500" checked={reviewCandidates} onChange={e => setReviewCandidates(e.target.checked)} />
+            <ListChecks className="w-4 h-4" /> 最終規劃前先檢視候選地點 (可固定、排除或移動)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer select-none">
+            <input type="checkbox" className="w-4 h-4 accent-blue-500" checked={refreshPlaces} onChange={e => setRefreshPlaces(e.target.checked)} />
+            <RefreshCw className="w-4 h-4" /> 重新搜尋景點 (忽略已快取的搜尋結果)
+          </label>
+        </div>
+
         <button 
           type="submit" 
           disabled={isLoading}
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { FolderOpen, Copy, Trash2, Pencil, Check, X, Calendar, MapPin, Users, Loader2 } from 'lucide-react';
+import { TripSummary, TripFilter, listTrips, renameTrip, duplicateTrip, deleteTrip, filterTrips, isPastTrip } from '../services/tripLibrary';
+import { describeStorageError, StorageResult } from '../services/storageService';
+
+interface TripLibraryProps {
+  onOpen: (id: string) => void;
+  onDeleted?: (id: string) => void;
+  activeTripId?: string | null; // The trip currently open, if any
+}
+
+const FILTERS: { value: TripFilter; label: string }[] = [
+  { value: 'upcoming', label: '即將出發' },
+  { value: 'past', label: '已結束' },
+  { value: 'all', label: '全部' },
+];
+
+// "My Trips": every auto-saved trip, with reopen / rename / duplicate / delete
+const TripLibrary: React.FC<TripLibraryProps> = ({ onOpen, onDeleted, activeTripId }) => {
+  const [trips, setTrips] = useState<TripSummary[] | null>(null);
+  const [filter, setFilter] = useState<TripFilter>('upcoming');
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const refresh = async () => {
+    const result = await listTrips();
+    if (result.ok) setTrips(result.value);
+    else setError("讀取行程列表失敗：" + describeStorageError(result.error));
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  // Runs one library action, then reloads the list
+  const runAction = async (id: string, action: () => Promise<StorageResult<unknown>>, failure: string) => {
+    setBusyId(id);
+    setError(null);
+    const result = await action();
+    if (!result.ok) setError(`${failure}：${describeStorageError(result.error)}`);
+    await refresh();
+    setBusyId(null);
+  };
+
+  const submitRename = () => {
+    if (!editing) return;
+    const { id, name } = editing;
+    setEditing(null);
+    if (name.trim()) runAction(id, () => renameTrip(id, name), '重新命名失敗');
+  };
+
+  const handleDelete = (trip: TripSummary) => {
+    if (!confirm(`確定要刪除「${trip.name}」嗎？此動作無法復原。`)) return;
+    runAction(trip.id, async () => {
+      const result = await deleteTrip(trip.id);
+      if (result.ok) onDeleted?.(trip.id);
+      return result;
+    }, '刪除失敗');
+  };
+
+  const visible = trips ? filterTrips(trips, filter) : [];
+
+  return (
+    <div className="max-w-4xl mx-auto bg-slate-800 p-6 md:p-8 rounded-2xl shadow-xl border border-slate-700 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+          <FolderOpen className="w-8 h-8 text-blue-500" /> 我的行程
+        </h2>
+        <div className="flex bg-slate-700 rounded-lg p-1">
+          {FILTERS.map(f => (
+            <button key={f.value} type="button" onClick={() => setFilter(f.value)}
+              className={`px-3 py-1.5 rounded-md text-sm transition ${filter === f.value ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white'}`}>
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="bg-red-900/40 border border-red-500/50 text-red-200 text-sm p-3 rounded-lg mb-4">{error}</div>}
+
+      {trips === null && !error && (
+        <div className="flex justify-center py-12"><Loader2 className="w-8 h-8 text-blue-500 animate-spin" /></div>
+      )}
+
+      {trips !== null && visible.length === 0 && (
+        <p className="text-slate-400 text-center py-12">
+          {trips.length === 0 ? '尚無已儲存的行程。生成的行程會自動儲存在這裡。' : '沒有符合篩選條件的行程。'}
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(trip => (
+          <li key={trip.id} className={`bg-slate-700/50 border rounded-xl p-4 flex flex-col md:flex-row md:items-center gap-4 ${trip.id === activeTripId ? 'border-blue-500/60' : 'border-slate-700'}`}>
+            <div className="flex-1 min-w-0">
+              {editing?.id === trip.id ? (
+                <div className="flex gap-2">
+                  <input autoFocus type="text" value={editing.name} onChange={e => setEditing({ id: trip.id, name: e.target.value })}
+                    onKeyDown={e => { if (e.key === 'Enter') submitRename(); if (e.key === 'Escape') setEditing(null); }}
+                    className="flex-1 p-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm outline-none focus:ring-2 focus:ring-blue-500" />
+                  <button type="button" onClick={submitRename} className="text-emerald-400 hover:text-emerald-300"><Check className="w-5 h-5" /></button>
+                  <button type="button" onClick={() => setEditing(null)} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-bold text-white truncate">{trip.name}</h3>
+                  {isPastTrip(trip) && <span className="text-xs bg-slate-600 text-slate-300 px-2 py-0.5 rounded-full whitespace-nowrap">已結束</span>}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400 mt-1">
+                <span className="flex items-center gap-1"><Calendar className="w-3 h-3" /> {trip.start} 至 {trip.end} ({trip.dayCount} 天)</span>
+                <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {trip.destination}</span>
+                <span className="flex items-center gap-1"><Users className="w-3 h-3" /> {trip.travelers} 人</span>
+              </div>
+            </div>
+
+            <div className="flex gap-2 flex-shrink-0">
+              <button type="button" onClick={() => onOpen(trip.id)} disabled={busyId === trip.id}
+                className="bg-blue-600 hover:bg-blue-500 text-white text-sm px-4 py-2 rounded-lg transition disabled:opacity-50">
+                開啟
+              </button>
+              <button type="button" title="重新命名" onClick={() => setEditing({ id: trip.id, name: trip.name })} disabled={busyId === trip.id}
+                className="bg-slate-600 hover:bg-slate-500 text-white p-2 rounded-lg transition disabled:opacity-50">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button type="button" title="複製" onClick={() => runAction(trip.id, () => duplicateTrip(trip.id), '複製失敗')} disabled={busyId === trip.id}
+                className="bg-slate-600 hover:bg-slate-500 text-white p-2 rounded-lg transition disabled:opacity-50">
+                <Copy className="w-4 h-4" />
+              </button>
+              <button type="button" title="刪除" onClick={() => handleDelete(trip)} disabled={busyId === trip.id}
+                className="bg-slate-600 hover:bg-red-600 text-white p-2 rounded-lg transition disabled:opacity-50">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TripLibrary;
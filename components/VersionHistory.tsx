@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { History, Undo2, Redo2, ChevronDown, ChevronUp, GitCompare, RotateCcw, Loader2 } from 'lucide-react';
+import { TripHistory, TripVersionMeta, canUndo, canRedo, loadVersion } from '../services/tripHistory';
+import { describeStorageError } from '../services/storageService';
+import { diffItineraries, isEmptyDiff, ItineraryDiff } from '../utils/itineraryDiff';
+
+interface VersionHistoryProps {
+  history: TripHistory;
+  currency: string;
+  busy: boolean; // An undo / redo / restore is running
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (version: TripVersionMeta) => void;
+}
+
+const FIELD_LABELS: Record<ItineraryDiff['changed'][number]['changes'][number]['field'], string> = {
+  time: '時間',
+  cost: '費用',
+  transportCost: '交通費',
+  duration: '停留',
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Undo / redo for the open trip, its list of versions and a diff between any two of them
+const VersionHistory: React.FC<VersionHistoryProps> = ({ history, currency, busy, onUndo, onRedo, onRestore }) => {
+  const [expanded, setExpanded] = useState(false);
+  // Versions being compared, older first; defaults to the one before the current version
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+  const [diff, setDiff] = useState<ItineraryDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  const current = history.versions[history.cursor];
+  const selected = compare || {
+    from: history.versions[Math.max(history.cursor - 1, 0)]?.id || '',
+    to: current?.id || '',
+  };
+
+  const runDiff = async () => {
+    setLoadingDiff(true);
+    setDiffError(null);
+    const [from, to] = await Promise.all([loadVersion(history.tripId, selected.from), loadVersion(history.tripId, selected.to)]);
+    setLoadingDiff(false);
+    if (!from.ok || !to.ok) {
+      setDiff(null);
+      setDiffError("讀取版本失敗：" + describeStorageError((from.error || to.error)!));
+      return;
+    }
+    setDiff(diffItineraries(from.value, to.value));
+  };
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => { onChange(e.target.value); setDiff(null); }} className="p-1.5 bg-slate-700 border border-slate-600 rounded text-white text-xs outline-none">
+      {history.versions.map((v, i) => <option key={v.id} value={v.id}>v{i + 1} {v.label}</option>)}
+    </select>
+  );
+
+  const money = (n: number) => `${currency} ${n.toLocaleString()}`;
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 print:hidden">
+      <div className="flex flex-wrap items-center gap-3">
+        <History className="w-5 h-5 text-blue-400" />
+        <span className="text-sm text-slate-300">
+          版本 {history.cursor + 1} / {history.versions.length}
+          {current && <span className="text-slate-500 ml-2">{current.label} · {formatTimestamp(current.createdAt)}</span>}
+        </span>
+        <div className="flex gap-2 ml-auto">
+          {busy && <Loader2 className="w-4 h-4 text-blue-400 animate-spin self-center" />}
+          <button type="button" onClick={onUndo} disabled={busy || !canUndo(history)} title="復原" className="flex items-center gap-1 text-sm bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-lg transition disabled:opacity-40">
+            <Undo2 className="w-4 h-4" /> 復原
+          </button>
+          <button type="button" onClick={onRedo} disabled={busy || !canRedo(history)} title="重做" className="flex items-center gap-1 text-sm bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-lg transition disabled:opacity-40">
+            <Redo2 className="w-4 h-4" /> 重做
+          </button>
+          <button type="button" onClick={() => setExpanded(v => !v)} className="text-slate-400 hover:text-white flex items-center gap-1 text-sm">
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />} 歷史
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 grid md:grid-cols-2 gap-4">
+          <ol className="space-y-1 text-sm max-h-72 overflow-y-auto">
+            {history.versions.map((v, i) => (
+              <li key={v.id} className={`flex items-center gap-2 px-2 py-1.5 rounded ${i === history.cursor ? 'bg-blue-900/40 text-white' : 'text-slate-300'} ${i > history.cursor ? 'opacity-50' : ''}`}>
+                <span className="text-xs text-slate-500 w-8">v{i + 1}</span>
+                <span className="flex-1 truncate">{v.label}</span>
+                <span className="text-xs text-slate-500">{formatTimestamp(v.createdAt)}</span>
+                {i !== history.cursor && (
+                  <button type="button" onClick={() => onRestore(v)} disabled={busy} title="還原此版本" className="text-slate-400 hover:text-white disabled:opacity-40">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <div className="text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              {renderVersionSelect(selected.from, from => setCompare({ ...selected, from }))}
+              <span className="text-slate-500">→</span>
+              {renderVersionSelect(selected.to, to => setCompare({ ...selected, to }))}
+              <button type="button" onClick={runDiff} disabled={loadingDiff || selected.from === selected.to} className="flex items-center gap-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg transition disabled:opacity-40">
+                <GitCompare className="w-3.5 h-3.5" /> 比較
+              </button>
+            </div>
+
+            {diffError && <div className="text-red-300 text-xs mt-2">{diffError}</div>}
+            {diff && isEmptyDiff(diff) && <div className="text-slate-400 text-xs mt-3">兩個版本沒有差異。</div>}
+            {diff && !isEmptyDiff(diff) && (
+              <ul className="mt-3 space-y-1 text-xs max-h-60 overflow-y-auto">
+                {diff.added.map((a, i) => <li key={`a${i}`} className="text-emerald-300">＋ Day {a.day} {a.time} {a.placeName}</li>)}
+                {diff.removed.map((r, i) => <li key={`r${i}`} className="text-red-300">－ Day {r.day} {r.time} {r.placeName}</li>)}
+                {diff.moved.map((m, i) => (
+                  <li key={`m${i}`} className="text-amber-300">↔ {m.placeName}：Day {m.from.day} {m.from.time} → Day {m.to.day} {m.to.time}</li>
+                ))}
+                {diff.changed.map((c, i) => (
+                  <li key={`c${i}`} className="text-slate-300">
+                    ✎ Day {c.day} {c.placeName}：{c.changes.map(ch => `${FIELD_LABELS[ch.field]} ${ch.before || '-'} → ${ch.after || '-'}`).join('，')}
+                  </li>
+                ))}
+                {diff.dayCosts.map(d => (
+                  <li key={`d${d.day}`} className="text-slate-400">Day {d.day} 每人費用 {money(d.before)} → {money(d.after)}</li>
+                ))}
+                {diff.totalBefore !== diff.totalAfter && (
+                  <li className="font-bold text-white pt-1">每人總計 {money(diff.totalBefore)} → {money(diff.totalAfter)} ({diff.totalAfter > diff.totalBefore ? '+' : ''}{(diff.totalAfter - diff.totalBefore).toLocaleString()})</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
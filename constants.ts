@@ -1,3 +1,5 @@
+import type { ScoringWeights, TravelPace, PaceSettings, AgeGroup, MobilityNeed } from './types';
+
 export const CURRENCIES = [
   { code: 'TWD', label: '新台幣 (TWD)' },
   { code: 'HKD', label: '港幣 (HKD)' },
@@ -8,12 +10,62 @@ export const CURRENCIES = [
   { code: 'CNY', label: '人民幣 (CNY)' },
 ];
 
+// Destination time zones offered by the form (IANA names), with the country whose public holidays apply
+export const DESTINATION_TIME_ZONES = [
+  { value: 'Asia/Tokyo', country: 'JP', label: '日本 (Asia/Tokyo)' },
+  { value: 'Asia/Seoul', country: 'KR', label: '韓國 (Asia/Seoul)' },
+  { value: 'Asia/Taipei', country: 'TW', label: '台灣 (Asia/Taipei)' },
+  { value: 'Asia/Hong_Kong', country: 'HK', label: '香港 (Asia/Hong_Kong)' },
+  { value: 'Asia/Shanghai', country: 'CN', label: '中國 (Asia/Shanghai)' },
+  { value: 'Asia/Bangkok', country: 'TH', label: '泰國 (Asia/Bangkok)' },
+  { value: 'Europe/London', country: 'GB', label: '英國 (Europe/London)' },
+  { value: 'Europe/Paris', country: 'FR', label: '西歐 (Europe/Paris)' },
+  { value: 'America/New_York', country: 'US', label: '美東 (America/New_York)' },
+  { value: 'America/Los_Angeles', country: 'US', label: '美西 (America/Los_Angeles)' },
+];
+
 export const TRAVEL_STYLES = [
   { value: 'relaxed', label: '休閒慢活 (每天2-3個景點)' },
   { value: 'moderate', label: '標準行程 (每天4-5個景點)' },
   { value: 'intense', label: '特種兵式 (盡可能多去景點)' },
 ];
 
+// What each TRAVEL_STYLES entry means for optimizeRoute
+export const PACE_SETTINGS: Record<TravelPace, PaceSettings> = {
+  relaxed: { maxStops: 3, endTime: '18:00', restMinutes: 30, maxWalkKm: 3 },
+  moderate: { maxStops: 5, endTime: '20:00', restMinutes: 15, maxWalkKm: 6 },
+  intense: { maxStops: 10, endTime: '21:30', restMinutes: 0, maxWalkKm: 12 },
+};
+
+export const AGE_GROUPS: { value: AgeGroup; label: string }[] = [
+  { value: 'adult', label: '成人' },
+  { value: 'child', label: '兒童' },
+  { value: 'senior', label: '長者' },
+];
+
+export const MOBILITY_NEEDS: { value: MobilityNeed; label: string }[] = [
+  { value: 'wheelchair', label: '輪椅' },
+  { value: 'stroller', label: '嬰兒車' },
+  { value: 'limited_walking', label: '行走不便' },
+];
+
+// Daily walking cap and extra rest between stops per kind of traveller; the strictest one in the group applies
+export const TRAVELER_LIMITS: Record<AgeGroup | MobilityNeed, { maxWalkKm: number; extraRestMinutes: number }> = {
+  adult: { maxWalkKm: Infinity, extraRestMinutes: 0 },
+  child: { maxWalkKm: 4, extraRestMinutes: 10 },
+  senior: { maxWalkKm: 4, extraRestMinutes: 15 },
+  wheelchair: { maxWalkKm: 1.5, extraRestMinutes: 15 },
+  stroller: { maxWalkKm: 3, extraRestMinutes: 10 },
+  limited_walking: { maxWalkKm: 1, extraRestMinutes: 20 },
+};
+
+// Share of the adult price each age group pays for admissions and meals
+export const AGE_GROUP_PRICE_FACTORS: Record<AgeGroup, { admission: number; meal: number }> = {
+  adult: { admission: 1, meal: 1 },
+  child: { admission: 0.5, meal: 0.6 },
+  senior: { admission: 0.7, meal: 1 },
+};
+
 export const FOCUS_AREAS = [
   { value: 'sightseeing', label: '觀光名勝' },
   { value: 'shopping', label: '購物血拼' },
@@ -27,3 +79,43 @@ export const TRANSPORT_PREFS = [
   { value: 'faster', label: '效率優先 (例如新幹線/特急/計程車)' },
   { value: 'balanced', label: '性價比優先' },
 ];
+
+// Meal windows reserved by the route optimizer unless the user changes them
+export const DEFAULT_MEALS = {
+  lunch: { start: '11:30', end: '13:30' },
+  dinner: { start: '18:00', end: '20:00' },
+};
+
+// Rough offline conversion rates (units per 1 USD) for cost estimates made before Stage 3
+export const APPROX_USD_RATES: Record<string, number> = {
+  TWD: 32,
+  HKD: 7.8,
+  JPY: 150,
+  USD: 1,
+  EUR: 0.92,
+  KRW: 1350,
+  CNY: 7.2,
+};
+
+// Typical per-person meal price in USD by priceLevel (1-4)
+export const MEAL_COST_USD: Record<number, number> = { 1: 10, 2: 20, 3: 40, 4: 80 };
+
+// Typical per-person admission / spend in USD for non-food places by priceLevel (0 = free), when no fee is quoted
+export const ENTRY_COST_USD: Record<number, number> = { 0: 0, 1: 5, 2: 15, 3: 30, 4: 60 };
+
+// Named weightings for rankCandidates; 'custom' uses the weights from the form
+export const SCORING_PROFILES: { id: string; label: string; description: string; weights: ScoringWeights }[] = [
+  { id: 'balanced', label: '綜合推薦', description: '評分、偏好與距離兼顧', weights: { rating: 0.3, categoryMatch: 0.4, distance: 0.2, reviewCount: 0.1, price: 0 } },
+  { id: 'popular', label: '人氣熱點', description: '評論數多、評分高的熱門地點', weights: { rating: 0.3, categoryMatch: 0.2, distance: 0.15, reviewCount: 0.35, price: 0 } },
+  { id: 'focus', label: '偏好至上', description: '最符合旅遊重點的類型優先', weights: { rating: 0.2, categoryMatch: 0.6, distance: 0.15, reviewCount: 0.05, price: 0 } },
+  { id: 'nearby', label: '就近方便', description: '離住宿越近越好，減少移動', weights: { rating: 0.2, categoryMatch: 0.25, distance: 0.45, reviewCount: 0.1, price: 0 } },
+  { id: 'budget', label: '精打細算', description: '價位較低的地點優先', weights: { rating: 0.25, categoryMatch: 0.25, distance: 0.2, reviewCount: 0.05, price: 0.25 } },
+];
+
+export const SCORE_COMPONENT_LABELS: Record<keyof ScoringWeights, string> = {
+  rating: '評分',
+  categoryMatch: '類型符合',
+  distance: '距離住宿',
+  reviewCount: '評論數',
+  price: '價位',
+};
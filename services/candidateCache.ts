@@ -0,0 +1,97 @@
+import { CandidatePlace, Hotel } from "../types";
+
+// Stage 1 results per hotel, so that tweaking pace/budget/focus does not re-run the 25-candidate search.
+
+export interface CandidateCacheEntry {
+  hotelCoords?: { lat: number; lng: number };
+  candidates: CandidatePlace[];
+  createdAt: number; // epoch ms
+}
+
+export interface CandidateCache {
+  get: (key: string) => Promise<CandidateCacheEntry | null>;
+  put: (key: string, entry: CandidateCacheEntry) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const CANDIDATE_CACHE_TTL_MS = 3 * 24 * 60 * 60 * 1000; // 3 days
+
+export const buildCandidateCacheKey = (hotel: Hotel, customKeywords: string[]): string => {
+  const keywords = customKeywords.map(k => k.toLowerCase().trim()).sort().join('|');
+  return [hotel.name.toLowerCase().trim(), hotel.location.toLowerCase().trim(), keywords].join('::');
+};
+
+export const isCacheEntryFresh = (entry: CandidateCacheEntry, now: number = Date.now()) =>
+  now - entry.createdAt < CANDIDATE_CACHE_TTL_MS;
+
+// ==========================================
+// IndexedDB implementation (browser default)
+// ==========================================
+const DB_NAME = 'travel_genius_cache';
+const STORE_NAME = 'candidates';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => {
+    if (!req.result.objectStoreNames.contains(STORE_NAME)) req.result.createObjectStore(STORE_NAME);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const runTx = <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const req = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => { db.close(); resolve(req.result as T); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  }));
+
+export const createIndexedDbCandidateCache = (): CandidateCache => ({
+  get: async (key) => {
+    try {
+      return (await runTx<CandidateCacheEntry | undefined>('readonly', store => store.get(key))) || null;
+    } catch (e) {
+      console.warn("Candidate cache read failed:", e);
+      return null;
+    }
+  },
+  put: async (key, entry) => {
+    try {
+      await runTx('readwrite', store => store.put(entry, key));
+    } catch (e) {
+      console.warn("Candidate cache write failed:", e);
+    }
+  },
+  clear: async () => {
+    try {
+      await runTx('readwrite', store => store.clear());
+    } catch (e) {
+      console.warn("Candidate cache clear failed:", e);
+    }
+  },
+});
+
+// ==========================================
+// In-memory implementation (tests / environments without IndexedDB)
+// ==========================================
+export const createMemoryCandidateCache = (): CandidateCache => {
+  const entries = new Map<string, string>();
+  return {
+    get: async (key) => {
+      const raw = entries.get(key);
+      return raw ? JSON.parse(raw) : null;
+    },
+    put: async (key, entry) => { entries.set(key, JSON.stringify(entry)); },
+    clear: async () => { entries.clear(); },
+  };
+};
+
+let defaultCache: CandidateCache | null = null;
+
+export const getDefaultCandidateCache = (): CandidateCache => {
+  if (!defaultCache) {
+    defaultCache = typeof indexedDB !== 'undefined' ? createIndexedDbCandidateCache() : createMemoryCandidateCache();
+  }
+  return defaultCache;
+};
@@ -0,0 +1,212 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  CollabSession, EditConflict, Presence, SyncTransport, PRESENCE_HEARTBEAT_MS, PRESENCE_TIMEOUT_MS,
+  createInProcessSyncServer, createSharedTrip, joinSharedTrip, revokeShareLinkAndSession, activePresence, winsOver,
+} from './collaboration';
+import { createMemoryStorage, getItineraryFromCloud, listShareLinks, saveItineraryToCloud } from './storageService';
+import { ItineraryResult } from '../types';
+
+const trip: ItineraryResult = {
+  tripTitle: '東京三日遊',
+  totalCostEstimate: 0,
+  currency: 'JPY',
+  summary: '',
+  days: [1, 2, 3].map(dayNumber => ({
+    date: `2026-11-${9 + dayNumber}`,
+    dayNumber,
+    summary: `Day ${dayNumber}`,
+    activities: [],
+  })),
+};
+
+// Copy of `itinerary` with day `dayNumber` renamed to `summary`
+const withSummary = (itinerary: ItineraryResult, dayNumber: number, summary: string): ItineraryResult => ({
+  ...itinerary,
+  days: itinerary.days.map(d => d.dayNumber === dayNumber ? { ...d, summary } : d),
+});
+
+const summaries = (session: CollabSession) => session.getItinerary().days.map(d => d.summary);
+
+// Lets the server's queued messages reach every client
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+interface Client {
+  session: CollabSession;
+  conflicts: EditConflict[];
+  presence: Presence[];
+  closed: boolean;
+}
+
+describe('collaboration on the in-process sync server', () => {
+  let server: SyncTransport;
+  let clients: Client[] = [];
+
+  const join = async (docId: string, name: string): Promise<Client> => {
+    const client = { conflicts: [], presence: [], closed: false } as Client;
+    const joined = await joinSharedTrip(docId, name, {
+      onChange: () => {},
+      onConflict: conflict => client.conflicts.push(conflict),
+      onPresence: presence => { client.presence = presence; },
+      onClosed: () => { client.closed = true; },
+    }, server);
+    client.session = joined.value!;
+    clients.push(client);
+    return client;
+  };
+
+  const startTrip = async () => {
+    server = createInProcessSyncServer();
+    const created = await createSharedTrip(trip, '小明', server);
+    const a = await join(created.value!, '小明');
+    const b = await join(created.value!, '小華');
+    return { a, b };
+  };
+
+  afterEach(() => {
+    clients.forEach(c => c.session.leave());
+    clients = [];
+    vi.useRealTimers();
+  });
+
+  it('merges concurrent edits to different days', async () => {
+    const { a, b } = await startTrip();
+    await Promise.all([
+      a.session.editDay(withSummary(a.session.getItinerary(), 1, '淺草'), 1),
+      b.session.editDay(withSummary(b.session.getItinerary(), 2, '新宿'), 2),
+    ]);
+    await flush();
+
+    expect(summaries(a.session)).toEqual(['淺草', '新宿', 'Day 3']);
+    expect(summaries(b.session)).toEqual(['淺草', '新宿', 'Day 3']);
+    expect([...a.conflicts, ...b.conflicts]).toEqual([]);
+  });
+
+  it('settles concurrent edits to the same day by client id on every client', async () => {
+    const { a, b } = await startTrip();
+    await Promise.all([
+      a.session.editDay(withSummary(a.session.getItinerary(), 1, '淺草'), 1),
+      b.session.editDay(withSummary(b.session.getItinerary(), 1, '上野'), 1),
+    ]);
+    await flush();
+
+    // Both edits carry the same clock, so the larger client id wins
+    const [winner, loser] = a.session.clientId > b.session.clientId ? [a, b] : [b, a];
+    const kept = winner === a ? '淺草' : '上野';
+    expect(summaries(a.session)[0]).toBe(kept);
+    expect(summaries(b.session)[0]).toBe(kept);
+    expect(loser.conflicts).toEqual([{ dayNumber: 1, winnerName: winner === a ? '小明' : '小華' }]);
+    expect(winner.conflicts).toEqual([]);
+  });
+
+  it('lets an edit made after seeing another one win, whatever the client ids', async () => {
+    const { a, b } = await startTrip();
+    await a.session.editDay(withSummary(a.session.getItinerary(), 1, '淺草'), 1);
+    await flush();
+    // b has seen a's edit, so its clock is ahead
+    await b.session.editDay(withSummary(b.session.getItinerary(), 1, '上野'), 1);
+    await flush();
+
+    expect(summaries(a.session)[0]).toBe('上野');
+    expect(summaries(b.session)[0]).toBe('上野');
+    // Replacing an edit one has seen is not a conflict
+    expect([...a.conflicts, ...b.conflicts]).toEqual([]);
+  });
+
+  it('goes back to the day the server holds when an edit cannot be sent', async () => {
+    const { b } = await startTrip();
+    // A client whose day writes fail, as when offline or no longer allowed to edit
+    const offline: SyncTransport = {
+      ...server,
+      connect: async (docId, clientId, onMessage, onError) => {
+        const connected = await server.connect(docId, clientId, onMessage, onError);
+        if (!connected.ok) return connected;
+        return {
+          ok: true,
+          value: { ...connected.value, sendDay: async () => ({ ok: false, error: { code: 'unavailable', message: 'offline' } }) },
+        };
+      },
+    };
+    const shown: string[] = [];
+    const joined = await joinSharedTrip(b.session.docId, '小美', { onChange: t => shown.push(t.days[0].summary) }, offline);
+    const c = joined.value!;
+    clients.push({ session: c, conflicts: [], presence: [], closed: false });
+
+    const edited = await c.editDay(withSummary(c.getItinerary(), 1, '淺草'), 1);
+    expect(edited.error?.code).toBe('unavailable');
+    expect(shown).toEqual(['淺草', 'Day 1']);
+    expect(summaries(c)[0]).toBe('Day 1');
+
+    // Edits made elsewhere keep arriving
+    await b.session.editDay(withSummary(b.session.getItinerary(), 1, '上野'), 1);
+    await flush();
+    expect(summaries(c)[0]).toBe('上野');
+  });
+
+  it('closes the session when its editable link is revoked, refusing later edits', async () => {
+    const { a, b } = await startTrip();
+    const storage = createMemoryStorage();
+    const linkId = (await saveItineraryToCloud(trip, { ownerKey: 'trip-1', permission: 'edit', collabId: a.session.docId }, storage)).value!;
+    const [link] = (await listShareLinks('trip-1', storage)).value!;
+    expect(link.collabId).toBe(a.session.docId);
+
+    expect((await revokeShareLinkAndSession(link, storage, server)).ok).toBe(true);
+    await flush();
+    expect(a.closed && b.closed).toBe(true);
+
+    const edited = await b.session.editDay(withSummary(b.session.getItinerary(), 1, '上野'), 1);
+    expect(edited.error?.code).toBe('permission_denied');
+    expect(summaries(b.session)[0]).toBe('Day 1');
+    await flush();
+    expect(summaries(a.session)[0]).toBe('Day 1');
+
+    // Nobody gets back in, through the link or with the session id
+    expect((await getItineraryFromCloud(linkId, undefined, storage)).error?.code).toBe('revoked');
+    expect((await joinSharedTrip(a.session.docId, '小美', { onChange: () => {} }, server)).error?.code).toBe('revoked');
+  });
+
+  it('orders revisions by Lamport clock first and client id second', () => {
+    expect(winsOver({ clock: 2, clientId: 'a' }, { clock: 1, clientId: 'z' })).toBe(true);
+    expect(winsOver({ clock: 1, clientId: 'z' }, { clock: 2, clientId: 'a' })).toBe(false);
+    expect(winsOver({ clock: 1, clientId: 'b' }, { clock: 1, clientId: 'a' })).toBe(true);
+    expect(winsOver({ clock: 1, clientId: 'a' }, { clock: 1, clientId: 'a' })).toBe(false);
+  });
+
+  it('shows who is editing which day and forgets clients that leave', async () => {
+    const { a, b } = await startTrip();
+    await flush();
+    expect(a.presence.map(p => p.name)).toEqual(['小明', '小華']);
+
+    b.session.setEditingDay(2);
+    await flush();
+    expect(a.presence.find(p => p.name === '小華')?.editingDay).toBe(2);
+
+    b.session.leave();
+    await flush();
+    expect(a.presence.map(p => p.name)).toEqual(['小明']);
+  });
+
+  it('drops clients whose heartbeat stopped', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const { a } = await startTrip();
+    // A client whose tab died: announced once, never heard from again, never closed
+    const ghost = await server.connect(a.session.docId, 'ghost', () => {});
+    await ghost.value!.sendPresence({ clientId: 'ghost', name: '小美', lastSeen: Date.now() });
+    await flush();
+    expect(a.presence.map(p => p.name)).toContain('小美');
+
+    vi.advanceTimersByTime(PRESENCE_TIMEOUT_MS + PRESENCE_HEARTBEAT_MS);
+    await flush();
+    // The heartbeats keep the live clients present
+    expect(a.presence.map(p => p.name).sort()).toEqual(['小明', '小華'].sort());
+  });
+
+  it('treats presence older than the timeout as gone', () => {
+    const now = Date.parse('2026-11-10T10:00:00Z');
+    const presence: Presence[] = [
+      { clientId: '1', name: '小華', lastSeen: now - PRESENCE_TIMEOUT_MS + 1 },
+      { clientId: '2', name: '小明', lastSeen: now - 1000 },
+      { clientId: '3', name: '小美', lastSeen: now - PRESENCE_TIMEOUT_MS },
+    ];
+    expect(activePresence(presence, now).map(p => p.clientId).sort()).toEqual(['1', '2']);
+  });
+});
@@ -0,0 +1,507 @@
+import { initializeApp } from "firebase/app";
+import {
+  getFirestore, connectFirestoreEmulator, doc, collection, getDoc, getDocs, setDoc, updateDoc, deleteDoc, onSnapshot, runTransaction, writeBatch, Firestore,
+} from "firebase/firestore";
+import { ItineraryResult, DayPlan, CityTransfer, ScheduledDayTrip } from "../types";
+import {
+  StorageBackend, StorageResult, StorageError, FirestoreStorageConfig, ShareLink, createDocumentId, toPlainJson, fromFirestoreError,
+  getFirestoreConfigFromEnv, getDefaultStorage, revokeShareLink,
+} from "./storageService";
+
+// Real-time collaborative editing of one shared trip. The trip is split into days, and each day is a
+// last-writer-wins register stamped with a Lamport clock: an edit made after seeing another one always
+// wins, and two concurrent edits of the same day are settled by client id, so every client (and the
+// server) ends up with the same trip whatever order the edits arrive in. Edits to different days never
+// conflict. Presence ("who is here, who is editing which day") travels alongside. Revoking the editable
+// link of a session closes it for good: nothing more can be written to it, and nobody can join.
+
+export interface DayRevision {
+  clock: number; // Lamport clock of the edit
+  clientId: string; // Breaks ties between concurrent edits
+}
+
+// One day of a shared trip, together with the transfer and day trip planned on it
+export interface SharedDay extends DayRevision {
+  dayNumber: number;
+  day: DayPlan;
+  transfer?: CityTransfer;
+  dayTrip?: ScheduledDayTrip;
+  base?: DayRevision; // The version of the day this edit replaced on its editor's screen
+  editorName: string;
+  editedAt: string; // ISO timestamp
+}
+
+// Everything but the days, as of when the trip was shared
+export interface SharedTripMeta {
+  itinerary: Omit<ItineraryResult, 'days' | 'transfers' | 'dayTrips'>;
+  createdAt: string;
+  closedAt?: string; // ISO timestamp, set once when the session is closed
+}
+
+export interface Presence {
+  clientId: string;
+  name: string;
+  editingDay?: number; // Set while this client is re-planning a day
+  lastSeen: number; // ms since epoch, refreshed by a heartbeat
+}
+
+export type SyncMessage =
+  | { type: 'day'; day: SharedDay }
+  | { type: 'presence'; presence: Presence }
+  | { type: 'leave'; clientId: string }
+  | { type: 'closed' };
+
+export interface SharedTripSnapshot {
+  meta: SharedTripMeta;
+  days: SharedDay[];
+  presence: Presence[];
+}
+
+export interface SyncConnection {
+  snapshot: SharedTripSnapshot; // State when the connection opened
+  // Resolves with the day the server kept: the edit sent, or a newer one it lost to
+  sendDay: (day: SharedDay) => Promise<StorageResult<SharedDay>>;
+  sendPresence: (presence: Presence) => Promise<StorageResult<void>>;
+  close: () => void; // Also withdraws this client's presence
+}
+
+export interface SyncTransport {
+  name: 'memory' | 'firestore';
+  create: (docId: string, meta: SharedTripMeta, days: SharedDay[]) => Promise<StorageResult<void>>;
+  // Refuses every later write and join, and tells connected clients
+  closeSession: (docId: string) => Promise<StorageResult<void>>;
+  connect: (
+    docId: string,
+    clientId: string,
+    onMessage: (message: SyncMessage) => void,
+    onError?: (error: StorageError) => void
+  ) => Promise<StorageResult<SyncConnection>>;
+}
+
+export const PRESENCE_HEARTBEAT_MS = 20_000;
+export const PRESENCE_TIMEOUT_MS = 60_000; // A client not heard from for this long has left (closed tab, lost network)
+
+// The merge rule, shared by clients and servers
+export const winsOver = (a: DayRevision, b: DayRevision): boolean =>
+  a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+
+const sameRevision = (a: DayRevision | undefined, b: DayRevision) => !!a && a.clock === b.clock && a.clientId === b.clientId;
+
+const notFound = <T,>(docId: string): StorageResult<T> => ({ ok: false, error: { code: 'not_found', message: `sharedTrips/${docId} does not exist` } });
+const closed = <T,>(docId: string, code: 'revoked' | 'permission_denied'): StorageResult<T> =>
+  ({ ok: false, error: { code, message: `sharedTrips/${docId} was closed` } });
+
+const splitDays = (itinerary: ItineraryResult, revision: Omit<SharedDay, 'dayNumber' | 'day'>): SharedDay[] =>
+  itinerary.days.map(day => ({
+    ...revision,
+    dayNumber: day.dayNumber,
+    day,
+    transfer: itinerary.transfers?.find(t => t.day === day.dayNumber),
+    dayTrip: itinerary.dayTrips?.find(t => t.day === day.dayNumber),
+  }));
+
+// Rebuilds the itinerary from the shared days, in day order
+export const assembleItinerary = (meta: SharedTripMeta, days: SharedDay[]): ItineraryResult => {
+  const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
+  const transfers = sorted.flatMap(d => d.transfer ? [d.transfer] : []);
+  const dayTrips = sorted.flatMap(d => d.dayTrip ? [d.dayTrip] : []);
+  return {
+    ...meta.itinerary,
+    days: sorted.map(d => d.day),
+    ...(transfers.length > 0 ? { transfers } : {}),
+    ...(dayTrips.length > 0 ? { dayTrips } : {}),
+  };
+};
+
+export const activePresence = (presence: Presence[], now: number = Date.now()): Presence[] =>
+  presence.filter(p => now - p.lastSeen < PRESENCE_TIMEOUT_MS).sort((a, b) => a.name.localeCompare(b.name));
+
+// ==========================================
+// In-process sync server (tests, and single-page use without Firebase)
+// ==========================================
+interface ServerDocument {
+  meta: SharedTripMeta;
+  days: Map<number, SharedDay>;
+  presence: Map<string, Presence>;
+  listeners: Map<string, (message: SyncMessage) => void>;
+}
+
+// Messages are delivered asynchronously, like over a network, and never echoed back to their sender
+export const createInProcessSyncServer = (): SyncTransport => {
+  const documents = new Map<string, ServerDocument>();
+
+  const broadcast = (document: ServerDocument, senderId: string, message: SyncMessage) => {
+    const copy: SyncMessage = JSON.parse(JSON.stringify(message));
+    document.listeners.forEach((listener, clientId) => {
+      if (clientId !== senderId) queueMicrotask(() => listener(copy));
+    });
+  };
+
+  return {
+    name: 'memory',
+    create: async (docId, meta, days) => {
+      documents.set(docId, {
+        meta: toPlainJson(meta),
+        days: new Map(days.map(d => [d.dayNumber, toPlainJson(d)])),
+        presence: new Map(),
+        listeners: new Map(),
+      });
+      return { ok: true, value: undefined };
+    },
+    closeSession: async docId => {
+      const document = documents.get(docId);
+      if (!document) return notFound<void>(docId);
+      document.meta.closedAt = new Date().toISOString();
+      broadcast(document, '', { type: 'closed' });
+      return { ok: true, value: undefined };
+    },
+    connect: async (docId, clientId, onMessage) => {
+      const document = documents.get(docId);
+      if (!document) return notFound<SyncConnection>(docId);
+      if (document.meta.closedAt) return closed<SyncConnection>(docId, 'revoked');
+      document.listeners.set(clientId, onMessage);
+
+      return {
+        ok: true,
+        value: {
+          snapshot: toPlainJson({ meta: document.meta, days: Array.from(document.days.values()), presence: Array.from(document.presence.values()) }),
+          sendDay: async day => {
+            if (document.meta.closedAt) return closed<SharedDay>(docId, 'permission_denied');
+            const current = document.days.get(day.dayNumber);
+            if (current && !winsOver(day, current)) return { ok: true, value: toPlainJson(current) };
+            document.days.set(day.dayNumber, toPlainJson(day));
+            broadcast(document, clientId, { type: 'day', day });
+            return { ok: true, value: toPlainJson(day) };
+          },
+          sendPresence: async presence => {
+            if (document.meta.closedAt) return closed<void>(docId, 'permission_denied');
+            document.presence.set(presence.clientId, toPlainJson(presence));
+            broadcast(document, clientId, { type: 'presence', presence });
+            return { ok: true, value: undefined };
+          },
+          close: () => {
+            document.listeners.delete(clientId);
+            document.presence.delete(clientId);
+            broadcast(document, clientId, { type: 'leave', clientId });
+          },
+        },
+      };
+    },
+  };
+};
+
+// ==========================================
+// Firestore sync (the deployed app, or the Firestore emulator)
+// ==========================================
+// sharedTrips/{docId} holds the meta, with one document per day and per present client beneath it
+const SHARED_TRIPS = 'sharedTrips';
+
+export const createFirestoreSync = (config: FirestoreStorageConfig): SyncTransport => {
+  let db: Firestore | null = null;
+  // Initialised on first use, as a separate app from the storage backend's
+  const getDb = (): Firestore => {
+    if (!db) {
+      const app = initializeApp(config.firebase, `sync-${config.firebase.projectId}-${config.emulatorHost || 'live'}`);
+      db = getFirestore(app);
+      if (config.emulatorHost) {
+        const [host, port] = config.emulatorHost.split(':');
+        connectFirestoreEmulator(db, host, Number(port) || 8080);
+      }
+    }
+    return db;
+  };
+  const dayDoc = (docId: string, dayNumber: number) => doc(getDb(), SHARED_TRIPS, docId, 'days', String(dayNumber));
+  const presenceDoc = (docId: string, clientId: string) => doc(getDb(), SHARED_TRIPS, docId, 'presence', clientId);
+
+  return {
+    name: 'firestore',
+    create: async (docId, meta, days) => {
+      try {
+        const batch = writeBatch(getDb());
+        batch.set(doc(getDb(), SHARED_TRIPS, docId), toPlainJson(meta));
+        days.forEach(d => batch.set(dayDoc(docId, d.dayNumber), toPlainJson(d)));
+        await batch.commit();
+        return { ok: true, value: undefined };
+      } catch (e) {
+        return fromFirestoreError<void>(e);
+      }
+    },
+    // The rules refuse writes to the days and presence of a closed session
+    closeSession: async docId => {
+      try {
+        await updateDoc(doc(getDb(), SHARED_TRIPS, docId), { closedAt: new Date().toISOString() });
+        return { ok: true, value: undefined };
+      } catch (e) {
+        return fromFirestoreError<void>(e);
+      }
+    },
+    connect: async (docId, clientId, onMessage, onError) => {
+      try {
+        const metaSnap = await getDoc(doc(getDb(), SHARED_TRIPS, docId));
+        if (!metaSnap.exists()) return notFound<SyncConnection>(docId);
+        if ((metaSnap.data() as SharedTripMeta).closedAt) return closed<SyncConnection>(docId, 'revoked');
+        const [daySnap, presenceSnap] = await Promise.all([
+          getDocs(collection(getDb(), SHARED_TRIPS, docId, 'days')),
+          getDocs(collection(getDb(), SHARED_TRIPS, docId, 'presence')),
+        ]);
+
+        // The listeners also report our own writes; applying a day or presence twice is harmless
+        const reportError = (e: unknown) => { const failed = fromFirestoreError<void>(e); if (!failed.ok) onError?.(failed.error); };
+        const unsubscribeDays = onSnapshot(collection(getDb(), SHARED_TRIPS, docId, 'days'), snap => {
+          snap.docChanges().forEach(change => {
+            if (change.type !== 'removed') onMessage({ type: 'day', day: change.doc.data() as SharedDay });
+          });
+        }, reportError);
+        const unsubscribePresence = onSnapshot(collection(getDb(), SHARED_TRIPS, docId, 'presence'), snap => {
+          snap.docChanges().forEach(change => {
+            if (change.doc.id === clientId) return;
+            onMessage(change.type === 'removed'
+              ? { type: 'leave', clientId: change.doc.id }
+              : { type: 'presence', presence: change.doc.data() as Presence });
+          });
+        }, reportError);
+        const unsubscribeMeta = onSnapshot(doc(getDb(), SHARED_TRIPS, docId), snap => {
+          if ((snap.data() as SharedTripMeta | undefined)?.closedAt) onMessage({ type: 'closed' });
+        }, reportError);
+
+        return {
+          ok: true,
+          value: {
+            snapshot: {
+              meta: metaSnap.data() as SharedTripMeta,
+              days: daySnap.docs.map(d => d.data() as SharedDay),
+              presence: presenceSnap.docs.map(d => d.data() as Presence),
+            },
+            // The merge rule runs in a transaction, so the stored day is always the winner
+            sendDay: async day => {
+              try {
+                const kept = await runTransaction(getDb(), async tx => {
+                  const current = await tx.get(dayDoc(docId, day.dayNumber));
+                  if (current.exists() && !winsOver(day, current.data() as SharedDay)) return current.data() as SharedDay;
+                  tx.set(dayDoc(docId, day.dayNumber), toPlainJson(day));
+                  return day;
+                });
+                return { ok: true, value: kept };
+              } catch (e) {
+                return fromFirestoreError<SharedDay>(e);
+              }
+            },
+            sendPresence: async presence => {
+              try {
+                await setDoc(presenceDoc(docId, presence.clientId), toPlainJson(presence));
+                return { ok: true, value: undefined };
+              } catch (e) {
+                return fromFirestoreError<void>(e);
+              }
+            },
+            close: () => {
+              unsubscribeDays();
+              unsubscribePresence();
+              unsubscribeMeta();
+              // Best effort: otherwise the entry times out
+              deleteDoc(presenceDoc(docId, clientId)).catch(() => {});
+            },
+          },
+        };
+      } catch (e) {
+        return fromFirestoreError<SyncConnection>(e);
+      }
+    },
+  };
+};
+
+// Firestore (or its emulator) when configured. Without it, sessions only see each other within this page.
+export const createSyncTransportFromEnv = (): SyncTransport => {
+  const firestore = getFirestoreConfigFromEnv();
+  return firestore ? createFirestoreSync(firestore) : createInProcessSyncServer();
+};
+
+let defaultTransport: SyncTransport | null = null;
+
+export const getDefaultSyncTransport = (): SyncTransport => {
+  if (!defaultTransport) defaultTransport = createSyncTransportFromEnv();
+  return defaultTransport;
+};
+
+export const setDefaultSyncTransport = (transport: SyncTransport) => {
+  defaultTransport = transport;
+};
+
+// ==========================================
+// Client sessions
+// ==========================================
+export interface EditConflict {
+  dayNumber: number;
+  winnerName: string; // Whose concurrent edit was kept
+}
+
+export interface CollabHandlers {
+  onChange: (itinerary: ItineraryResult) => void; // After every local or remote change
+  onPresence?: (presence: Presence[]) => void; // Active clients, this one included
+  onConflict?: (conflict: EditConflict) => void; // One of our edits lost to a concurrent edit of the same day
+  onError?: (error: StorageError) => void; // The live connection failed
+  onClosed?: () => void; // The session was closed; edits are refused from now on
+}
+
+export interface CollabSession {
+  docId: string;
+  clientId: string;
+  getItinerary: () => ItineraryResult;
+  // Publishes day `dayNumber` of `edited`; the rest of `edited` is ignored, so edits based on a stale copy
+  // of the trip never undo other people's changes to other days
+  editDay: (edited: ItineraryResult, dayNumber: number) => Promise<StorageResult<ItineraryResult>>;
+  setEditingDay: (dayNumber: number | null) => void;
+  leave: () => void;
+}
+
+const COLLABORATOR_NAME_KEY = 'travel_genius_collaborator_name';
+
+// Name shown to other collaborators; picked once per browser
+export const getCollaboratorName = (): string => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(COLLABORATOR_NAME_KEY) : null;
+  if (saved) return saved;
+  const name = `旅伴 ${Math.floor(1000 + Math.random() * 9000)}`;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(COLLABORATOR_NAME_KEY, name);
+  return name;
+};
+
+// Creates the shared document for a trip. The creator's planning context goes with it, so every
+// collaborator can re-plan days.
+export const createSharedTrip = async (
+  itinerary: ItineraryResult,
+  creatorName: string,
+  transport: SyncTransport = getDefaultSyncTransport()
+): Promise<StorageResult<string>> => {
+  const docId = createDocumentId();
+  const { days, transfers, dayTrips, ...rest } = itinerary;
+  const now = new Date().toISOString();
+  const created = await transport.create(docId, { itinerary: rest, createdAt: now }, splitDays(itinerary, { clock: 0, clientId: '', editorName: creatorName, editedAt: now }));
+  return created.ok ? { ok: true, value: docId } : { ok: false, error: created.error };
+};
+
+// Revokes a share link. An editable link's session is closed too, so collaborators who already joined
+// through it can no longer change the trip.
+export const revokeShareLinkAndSession = async (
+  link: Pick<ShareLink, 'id' | 'collabId'>,
+  storage: StorageBackend = getDefaultStorage(),
+  transport: SyncTransport = getDefaultSyncTransport()
+): Promise<StorageResult<void>> => {
+  const revoked = await revokeShareLink(link.id, storage);
+  if (!revoked.ok || !link.collabId) return revoked;
+  return transport.closeSession(link.collabId);
+};
+
+export const joinSharedTrip = async (
+  docId: string,
+  name: string,
+  handlers: CollabHandlers,
+  transport: SyncTransport = getDefaultSyncTransport()
+): Promise<StorageResult<CollabSession>> => {
+  const clientId = createDocumentId();
+  const days = new Map<number, SharedDay>(); // As shown, with our edits still being sent
+  const confirmed = new Map<number, SharedDay>(); // As last heard from the server
+  const presence = new Map<string, Presence>();
+  let clock = 0; // Highest clock seen on any day
+  let meta: SharedTripMeta;
+
+  const accept = (day: SharedDay): boolean => {
+    clock = Math.max(clock, day.clock);
+    const current = days.get(day.dayNumber);
+    if (current && !winsOver(day, current)) return false;
+    days.set(day.dayNumber, day);
+    return true;
+  };
+  // A day the server holds: from the snapshot, a message, or the answer to a send
+  const hear = (day: SharedDay): boolean => {
+    const known = confirmed.get(day.dayNumber);
+    if (!known || winsOver(day, known)) confirmed.set(day.dayNumber, day);
+    return accept(day);
+  };
+  const itinerary = () => assembleItinerary(meta, Array.from(days.values()));
+  const emitPresence = () => handlers.onPresence?.(activePresence(Array.from(presence.values())));
+
+  const onMessage = (message: SyncMessage) => {
+    if (message.type === 'day') {
+      const current = days.get(message.day.dayNumber);
+      if (!hear(message.day)) return;
+      handlers.onChange(itinerary());
+      // Our edit was replaced by one made without seeing it
+      if (current?.clientId === clientId && !sameRevision(message.day.base, current)) {
+        handlers.onConflict?.({ dayNumber: message.day.dayNumber, winnerName: message.day.editorName });
+      }
+    } else if (message.type === 'closed') {
+      handlers.onClosed?.();
+    } else if (message.type === 'presence') {
+      presence.set(message.presence.clientId, message.presence);
+      emitPresence();
+    } else {
+      presence.delete(message.clientId);
+      emitPresence();
+    }
+  };
+
+  const connected = await transport.connect(docId, clientId, onMessage, handlers.onError);
+  if (!connected.ok) return { ok: false, error: connected.error };
+  const connection = connected.value;
+  meta = connection.snapshot.meta;
+  connection.snapshot.days.forEach(hear);
+  connection.snapshot.presence.forEach(p => presence.set(p.clientId, p));
+
+  let self: Presence = { clientId, name, lastSeen: Date.now() };
+  const announce = () => {
+    self = { ...self, lastSeen: Date.now() };
+    presence.set(clientId, self);
+    emitPresence();
+    connection.sendPresence(self);
+  };
+  announce();
+  const heartbeat = setInterval(announce, PRESENCE_HEARTBEAT_MS);
+
+  return {
+    ok: true,
+    value: {
+      docId,
+      clientId,
+      getItinerary: itinerary,
+      editDay: async (edited, dayNumber) => {
+        const base = days.get(dayNumber);
+        const [local] = splitDays({ ...edited, days: edited.days.filter(d => d.dayNumber === dayNumber) }, {
+          clock: clock + 1, clientId, editorName: name, editedAt: new Date().toISOString(),
+          ...(base ? { base: { clock: base.clock, clientId: base.clientId } } : {}),
+        });
+        if (!local) return { ok: false, error: { code: 'invalid_data', message: `Day ${dayNumber} is not part of the trip` } };
+
+        // Shown right away; replaced if a concurrent edit wins
+        accept(local);
+        handlers.onChange(itinerary());
+        const sent = await connection.sendDay(local);
+        if (!sent.ok) {
+          // The edit never reached the server: back to the day it holds, unless a newer edit is shown by now
+          if (days.get(dayNumber) === local) {
+            const kept = confirmed.get(dayNumber);
+            if (kept) days.set(dayNumber, kept);
+            else days.delete(dayNumber);
+            clock = Math.max(0, ...Array.from(confirmed.values(), d => d.clock), ...Array.from(days.values(), d => d.clock));
+            handlers.onChange(itinerary());
+          }
+          return { ok: false, error: sent.error };
+        }
+        // Unless the winning edit already arrived as a message, and was reported there
+        const replaced = hear(sent.value);
+        if (!sameRevision(sent.value, local) && replaced) {
+          handlers.onChange(itinerary());
+          handlers.onConflict?.({ dayNumber, winnerName: sent.value.editorName });
+        }
+        return { ok: true, value: itinerary() };
+      },
+      setEditingDay: dayNumber => {
+        self = dayNumber === null ? { clientId, name, lastSeen: self.lastSeen } : { ...self, editingDay: dayNumber };
+        announce();
+      },
+      leave: () => {
+        clearInterval(heartbeat);
+        connection.close();
+      },
+    },
+  };
+};
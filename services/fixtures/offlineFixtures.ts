@@ -0,0 +1,178 @@
+import type { FixtureSet, LLMRequest } from "../llmProvider";
+import type { ClosureCalendar, PlaceAccessibility } from "../../types";
+
+// Deterministic responses for running the whole Stage 0-3 pipeline offline (VITE_LLM_PROVIDER=fixture).
+// Coordinates are centred on Tokyo (or Kyoto for hotels located there, to exercise multi-city trips, and
+// Nikko for day trips); every hotel gets its city's spread of places offset by a name-based hash.
+
+const BASE = { lat: 35.6812, lng: 139.7671 };
+const KYOTO_BASE = { lat: 35.0116, lng: 135.7681 };
+const NIKKO_BASE = { lat: 36.7500, lng: 139.6000 };
+
+interface SamplePlace {
+  name: string;
+  category: string;
+  rating: number;
+  reviewCount: number;
+  priceLevel: number;
+  dLat: number; // Offset from the city base
+  dLng: number;
+  openingText: string;
+  closedDays?: number[];
+  closures?: ClosureCalendar;
+  accessibility?: PlaceAccessibility;
+  durationHours: number;
+}
+
+const SAMPLE_PLACES: SamplePlace[] = [
+  { name: "淺草寺", category: "culture", rating: 4.6, reviewCount: 52000, priceLevel: 1, dLat: 0.033, dLng: 0.029, openingText: "06:00 - 17:00", durationHours: 1.5 },
+  { name: "東京晴空塔", category: "sightseeing", rating: 4.5, reviewCount: 48000, priceLevel: 3, dLat: 0.029, dLng: 0.044, openingText: "10:00 - 21:00", accessibility: { wheelchair: true, stroller: true }, durationHours: 2 },
+  { name: "築地場外市場", category: "food", rating: 4.3, reviewCount: 21000, priceLevel: 2, dLat: -0.016, dLng: 0.003, openingText: "05:00 - 14:00", closedDays: [0], accessibility: { wheelchair: false, stroller: false }, durationHours: 1.5 },
+  { name: "銀座", category: "shopping", rating: 4.4, reviewCount: 30000, priceLevel: 4, dLat: -0.009, dLng: -0.003, openingText: "11:00 - 20:00", durationHours: 2 },
+  { name: "明治神宮", category: "culture", rating: 4.6, reviewCount: 40000, priceLevel: 1, dLat: -0.005, dLng: -0.068, openingText: "05:00 - 18:00", durationHours: 1.5 },
+  { name: "東京國立博物館", category: "culture", rating: 4.5, reviewCount: 15000, priceLevel: 2, dLat: 0.037, dLng: 0.009, openingText: "09:30 - 17:00", closedDays: [1], closures: { openOnHolidays: true, closedAfterHolidays: true, closedRanges: [{ from: "2026-12-26", to: "2027-01-01" }] }, durationHours: 2 },
+  { name: "上野阿美橫町", category: "shopping", rating: 4.2, reviewCount: 18000, priceLevel: 1, dLat: 0.027, dLng: 0.007, openingText: "10:00 - 20:00", durationHours: 1 },
+  { name: "一蘭拉麵 澀谷店", category: "food", rating: 4.4, reviewCount: 12000, priceLevel: 2, dLat: -0.022, dLng: -0.066, openingText: "00:00 - 24:00", durationHours: 1 },
+  { name: "澀谷 SKY", category: "sightseeing", rating: 4.6, reviewCount: 9000, priceLevel: 3, dLat: -0.023, dLng: -0.065, openingText: "10:00 - 22:30", durationHours: 1.5 },
+  { name: "新宿御苑", category: "sightseeing", rating: 4.6, reviewCount: 33000, priceLevel: 1, dLat: -0.006, dLng: -0.057, openingText: "09:00 - 17:30", closedDays: [1], closures: { openOnHolidays: true, closedAfterHolidays: true, closedRanges: [{ from: "2026-12-28", to: "2027-01-03" }] }, durationHours: 2 },
+  { name: "秋葉原電器街", category: "shopping", rating: 4.3, reviewCount: 22000, priceLevel: 2, dLat: 0.017, dLng: 0.006, openingText: "10:00 - 21:00", durationHours: 2 },
+  { name: "豐洲千客萬來", category: "food", rating: 4.1, reviewCount: 6000, priceLevel: 2, dLat: -0.036, dLng: 0.022, openingText: "10:00 - 22:00", durationHours: 1.5 },
+];
+
+const KYOTO_PLACES: SamplePlace[] = [
+  { name: "清水寺", category: "culture", rating: 4.6, reviewCount: 61000, priceLevel: 1, dLat: -0.017, dLng: 0.017, openingText: "06:00 - 18:00", durationHours: 1.5 },
+  { name: "伏見稻荷大社", category: "culture", rating: 4.7, reviewCount: 70000, priceLevel: 1, dLat: -0.044, dLng: 0.004, openingText: "00:00 - 24:00", accessibility: { strenuous: true }, durationHours: 2 },
+  { name: "金閣寺", category: "sightseeing", rating: 4.5, reviewCount: 45000, priceLevel: 1, dLat: 0.028, dLng: -0.039, openingText: "09:00 - 17:00", durationHours: 1 },
+  { name: "嵐山竹林", category: "sightseeing", rating: 4.4, reviewCount: 38000, priceLevel: 1, dLat: 0.006, dLng: -0.096, openingText: "00:00 - 24:00", durationHours: 1.5 },
+  { name: "錦市場", category: "food", rating: 4.3, reviewCount: 27000, priceLevel: 2, dLat: 0.0, dLng: -0.003, openingText: "10:00 - 18:00", closedDays: [3], durationHours: 1 },
+  { name: "祇園", category: "shopping", rating: 4.4, reviewCount: 20000, priceLevel: 2, dLat: -0.007, dLng: 0.006, openingText: "10:00 - 20:00", durationHours: 1.5 },
+  { name: "京都國立博物館", category: "culture", rating: 4.3, reviewCount: 6000, priceLevel: 2, dLat: -0.022, dLng: 0.005, openingText: "09:30 - 17:00", closedDays: [1], closures: { openOnHolidays: true, closedAfterHolidays: true }, durationHours: 2 },
+  { name: "先斗町 京料理", category: "food", rating: 4.2, reviewCount: 4000, priceLevel: 3, dLat: 0.001, dLng: 0.003, openingText: "11:30 - 22:00", durationHours: 1.5 },
+];
+
+const NIKKO_PLACES: SamplePlace[] = [
+  { name: "日光東照宮", category: "culture", rating: 4.6, reviewCount: 30000, priceLevel: 2, dLat: 0.008, dLng: -0.001, openingText: "09:00 - 17:00", closures: { closedDates: ["2026-11-18"] }, accessibility: { wheelchair: false, strenuous: true }, durationHours: 2 },
+  { name: "華嚴瀑布", category: "sightseeing", rating: 4.6, reviewCount: 22000, priceLevel: 1, dLat: -0.012, dLng: -0.120, openingText: "08:00 - 17:00", durationHours: 1 },
+  { name: "日光山輪王寺", category: "culture", rating: 4.4, reviewCount: 9000, priceLevel: 1, dLat: 0.006, dLng: 0.002, openingText: "08:00 - 17:00", durationHours: 1 },
+  { name: "神橋", category: "sightseeing", rating: 4.3, reviewCount: 7000, priceLevel: 1, dLat: 0.003, dLng: 0.004, openingText: "08:00 - 16:00", durationHours: 0.5 },
+  { name: "日光湯波 ふじや", category: "food", rating: 4.2, reviewCount: 1500, priceLevel: 2, dLat: 0.001, dLng: 0.010, openingText: "11:00 - 15:00", closedDays: [3], durationHours: 1 },
+];
+
+const CITIES = [
+  { pattern: /京都|kyoto/i, base: KYOTO_BASE, places: KYOTO_PLACES },
+  { pattern: /日光|nikko/i, base: NIKKO_BASE, places: NIKKO_PLACES },
+];
+
+const hashString = (str: string): number => {
+  let h = 0;
+  for (let i = 0; i < str.length; i++) h = (h * 31 + str.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const candidatesFor = (req: LLMRequest): string => {
+  const match = req.prompt.match(/(?:住宿點|一日遊目的地)「(.*?)」\((.*?)\)/);
+  const hotelName = match ? match[1] : "hotel";
+  const city = match ? CITIES.find(c => c.pattern.test(`${match[1]} ${match[2]}`)) : undefined;
+  const base = city ? city.base : BASE;
+  const offset = (hashString(hotelName) % 10) / 1000;
+  const hotelCoords = { lat: base.lat + offset, lng: base.lng + offset };
+
+  const places = city ? city.places : SAMPLE_PLACES;
+  const candidates = places.map(p => ({
+    name: p.name,
+    category: p.category,
+    rating: p.rating,
+    reviewCount: p.reviewCount,
+    priceLevel: p.priceLevel,
+    latitude: parseFloat((base.lat + p.dLat).toFixed(4)),
+    longitude: parseFloat((base.lng + p.dLng).toFixed(4)),
+    description: `${p.name} (離線範例資料)`,
+    closedDays: p.closedDays || [],
+    openingText: p.openingText,
+    ...(p.closures ? { closures: p.closures } : {}),
+    ...(p.accessibility ? { accessibility: p.accessibility } : {}),
+    durationHours: p.durationHours,
+  }));
+
+  return JSON.stringify({ hotelCoords, candidates });
+};
+
+// Turns the Stage 3 skeleton ("Day N (YYYY-MM-DD): [...]") back into an itinerary
+const finalPlanFor = (req: LLMRequest): string => {
+  const currency = (req.prompt.match(/"currency": "([A-Z]{3})"/) || [])[1] || "JPY";
+  const days: any[] = [];
+  const dayLine = /Day (\d+) \((\d{4}-\d{2}-\d{2})[^)]*\): (.*)/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = dayLine.exec(req.prompt)) !== null) {
+    const dayNumber = Number(m[1]);
+    if (days.some(d => d.dayNumber === dayNumber)) continue;
+
+    let items: any[] = [];
+    try { items = JSON.parse(m[3]); } catch (e) { items = []; }
+
+    days.push({
+      date: m[2],
+      dayNumber,
+      summary: items.length > 0 ? `${items[0].name} 周邊` : "自由探索",
+      activities: items.map((item, idx) => ({
+        time: item.arrive || `${String(10 + idx * 2).padStart(2, '0')}:00`,
+        placeName: item.name,
+        description: `${item.name} (離線範例行程)`,
+        duration: "1.5 小時",
+        website: item.website || "",
+        reasoning: "離線範例：依演算法骨架排序。",
+        matchTags: ["範例"],
+        cost: item.cost ?? 1000,
+        transportMethod: "電車",
+        transportCost: 200,
+        transportTimeMinutes: 20,
+        latitude: item.lat,
+        longitude: item.lng,
+        isMeal: !!item.meal,
+      })),
+    });
+  }
+
+  return JSON.stringify({
+    tripTitle: "離線範例行程",
+    totalCostEstimate: 0,
+    currency,
+    summary: "以離線 fixture 產生的示範行程。",
+    days,
+  });
+};
+
+const regeneratedDayFor = (req: LLMRequest): string => {
+  const plan = JSON.parse(finalPlanFor(req));
+  return JSON.stringify(plan.days[0] || {});
+};
+
+const replacementActivityFor = (req: LLMRequest): string => {
+  const place = JSON.parse((req.prompt.match(/新地點: (\{.*\})/) || [])[1] || "{}");
+  const time = (req.prompt.match(/"time" 必須是 "(\d{2}:\d{2})"/) || [])[1] || "10:00";
+  return JSON.stringify({
+    time,
+    placeName: place.name,
+    description: `${place.name} (離線範例替換)`,
+    duration: "1 小時",
+    reasoning: "離線範例：鄰近前後景點。",
+    matchTags: ["範例"],
+    cost: 800,
+    transportMethod: "步行",
+    transportCost: 0,
+    transportTimeMinutes: 10,
+    latitude: place.lat,
+    longitude: place.lng,
+    isMeal: false,
+  });
+};
+
+export const offlineFixtures: FixtureSet = {
+  airport: JSON.stringify({ lat: 35.772, lng: 140.3929 }),
+  keywords: JSON.stringify({ places: [] }),
+  candidates: candidatesFor,
+  final: finalPlanFor,
+  regenerateDay: regeneratedDayFor,
+  replaceActivity: replacementActivityFor,
+};
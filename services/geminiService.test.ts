@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { generateItinerary, regenerateDay } from './geminiService';
+import { createFixtureProvider, createRecordingProvider, createReplayProvider } from './llmProvider';
+import { createMemoryCandidateCache } from './candidateCache';
+import { CityTransfer, ProgressEvent, UserPreferences } from '../types';
+
+const prefs: UserPreferences = {
+  dates: { start: '2026-11-10', end: '2026-11-13', startTime: '10:00', endTime: '18:00' },
+  timeZone: 'Asia/Tokyo',
+  country: 'JP',
+  travelers: 2,
+  airport: '成田機場',
+  hotels: [{ id: 'h1', name: '東京車站飯店', checkIn: '2026-11-10', checkOut: '2026-11-13', location: '東京車站' }],
+  budget: { amount: 60000, currency: 'JPY' },
+  style: { pace: 'moderate', focus: 'balanced', transportPreference: 'balanced' },
+  mustVisit: ['淺草寺'],
+};
+
+const generate = (provider = createFixtureProvider(), onProgress?: (event: ProgressEvent) => void) =>
+  generateItinerary(prefs, { provider, candidateCache: createMemoryCandidateCache(), onProgress });
+
+describe('generateItinerary with the offline fixtures', () => {
+  it('runs every stage and returns one day per trip date', async () => {
+    const done: string[] = [];
+    const result = await generate(createFixtureProvider(), e => { if (e.status === 'done') done.push(e.stage); });
+
+    expect(result.days.map(d => d.date)).toEqual(['2026-11-10', '2026-11-11', '2026-11-12', '2026-11-13']);
+    expect(done).toEqual(expect.arrayContaining(['candidates', 'routing', 'final']));
+    expect(result.currency).toBe('JPY');
+    expect(result.planningContext?.rankedCandidates.length).toBeGreaterThan(0);
+  });
+
+  it('schedules the must-visit place', async () => {
+    const result = await generate();
+    const places = result.days.flatMap(d => d.activities.map(a => a.placeName));
+    expect(places).toContain('淺草寺');
+    expect(result.mustVisitIssues).toBeUndefined();
+  });
+
+  it('gives the same trip when a recording is replayed', async () => {
+    const recording = createRecordingProvider(createFixtureProvider());
+    const recorded = await generate(recording);
+    const replayed = await generate(createReplayProvider(recording.calls));
+    expect(replayed.days).toEqual(recorded.days);
+  });
+});
+
+describe('regenerateDay with the offline fixtures', () => {
+  it('re-plans a day with real places rather than the free-exploration stand-in', async () => {
+    const trip = await generate();
+    const result = await regenerateDay(trip, 3, { provider: createFixtureProvider() });
+    const day = result.days.find(d => d.dayNumber === 3)!;
+
+    expect(day.date).toBe('2026-11-12');
+    expect(day.activities.length).toBeGreaterThan(0);
+    expect(day.activities.map(a => a.placeName)).not.toContain('市區自由探索 (AI 推薦)');
+    // Other days are left alone
+    expect(result.days.filter(d => d.dayNumber !== 3)).toEqual(trip.days.filter(d => d.dayNumber !== 3));
+  });
+
+  it('drops what the old plan of the day left behind and re-totals the trip', async () => {
+    const trip = await generate();
+    const staleTransfer: CityTransfer = {
+      day: 3, name: '移動：東京 → 京都', fromHotel: '東京車站飯店', toHotel: '京都飯店', fromLocation: '東京', toLocation: '京都',
+      from: { lat: 35.68, lng: 139.77 }, to: { lat: 35.0, lng: 135.76 }, mode: 'rail', label: '新幹線',
+      km: 370, hours: 3, cost: 14000, depart: '10:00', arrive: '13:00', luggage: '',
+    };
+    const stale = {
+      ...trip,
+      totalCostEstimate: 99999,
+      transfers: [staleTransfer],
+      mustVisitIssues: [{ name: '淺草寺', reason: 'no_time' as const }],
+      budgetReport: { budget: 60000, plannedSpend: 99999, overrun: 39999, appliedSwaps: [], suggestedSwaps: [] },
+    };
+    const result = await regenerateDay(stale, 3, { provider: createFixtureProvider() });
+
+    const groupCost = (days: typeof trip.days) =>
+      days.reduce((sum, d) => sum + d.activities.reduce((acc, a) => acc + 2 * ((a.cost || 0) + (a.transportCost || 0)), 0), 0);
+    const perPerson = Math.round(groupCost(result.days) / 2);
+    expect(result.transfers).toBeUndefined();
+    expect(result.totalCostEstimate).toBe(99999 - groupCost(trip.days.filter(d => d.dayNumber === 3)) + groupCost(result.days.filter(d => d.dayNumber === 3)));
+    expect(result.budgetReport).toMatchObject({ budget: 60000, plannedSpend: perPerson, overrun: Math.max(0, perPerson - 60000) });
+    // Planned in the trip, so no longer reported
+    expect(result.mustVisitIssues).toBeUndefined();
+  });
+});
@@ -1,7 +1,81 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { UserPreferences, ItineraryResult, CandidatePlace, Hotel, DayPlan } from "../types";
-import { rankCandidates, optimizeRoute } from "./rankingEngine";
+import { UserPreferences, ItineraryResult, CandidatePlace, Hotel, DayPlan, Activity, ProgressEvent, CandidateReview, CityTransfer, ScheduledDayTrip, DayTripLeg, DayTripIssue, MustVisitIssue, BudgetReport } from "../types";
+import { rankCandidates, optimizeRouteWithReport, optimizeSingleDay, matchesPlaceName, getActiveHotelForDay, findReplacementCandidate, getTransportLeg, reportReviewedPlan, DayTripRequest } from "./rankingEngine";
+import { getTransportSettings } from "./transportModel";
+import { LLMProvider, getDefaultProvider, bindAbortSignal } from "./llmProvider";
+import { validateItinerary, validateDayPlan, validateActivity, ItineraryValidationError, ValidationIssue, ValidationResult } from "./itineraryValidator";
+import { extractCompleteArrayItems } from "../utils/partialJson";
+import { DEFAULT_MEALS, TRAVEL_STYLES } from "../constants";
+import { getTripDate, countTripDays, timeToHours } from "../utils/tripDates";
+import { CandidateCache, getDefaultCandidateCache, buildCandidateCacheKey, isCacheEntryFresh } from "./candidateCache";
+import { HolidaySource, getTripHolidays } from "./holidayCalendar";
+import { estimatePlaceCost } from "../utils/costEstimates";
+import { resolveTravelerProfiles, hasSpecialNeeds, applyAgeGroupPricing, describeTravelerProfiles, groupActivityCost, countTravelers } from "../utils/travelerProfiles";
+
+export interface GenerateOptions {
+  provider?: LLMProvider; // Defaults to the configured backend (see getDefaultProvider)
+  onProgress?: (event: ProgressEvent) => void;
+  // Called with every fully-streamed day of Stage 3 (only when the provider supports streaming)
+  onPartialDays?: (days: DayPlan[]) => void;
+  candidateCache?: CandidateCache; // Stage 1 cache; defaults to IndexedDB
+  refreshCandidates?: boolean; // Ignore cached Stage 1 results ("refresh places")
+  signal?: AbortSignal; // Cancel button
+  timeoutMs?: number; // Overall limit for the whole pipeline (paused while the user reviews candidates)
+  // Optional review step after Stage 2. Resolves with the edited schedule (suggestedDay per place).
+  onReview?: (review: CandidateReview) => Promise<CandidatePlace[]>;
+  holidaySource?: HolidaySource; // Public holidays of prefs.country; defaults to the bundled offline rules
+}
+
+export const DEFAULT_GENERATION_TIMEOUT_MS = 180 * 1000;
+
+// Overall timeout: explicit option > VITE_GENERATION_TIMEOUT_MS > default
+const resolveTimeoutMs = (options: GenerateOptions) => {
+  const meta = import.meta as any;
+  const fromEnv = Number(meta.env && meta.env.VITE_GENERATION_TIMEOUT_MS);
+  return options.timeoutMs || fromEnv || DEFAULT_GENERATION_TIMEOUT_MS;
+};
+
+// Thrown when the user cancels or the overall timeout fires.
+// `fallback` is set when Stages 0-2 had already finished, so the routed skeleton is not lost.
+export class GenerationAbortedError extends Error {
+  reason: 'cancelled' | 'timeout';
+  fallback?: ItineraryResult;
+
+  constructor(reason: 'cancelled' | 'timeout', fallback?: ItineraryResult) {
+    super(reason === 'cancelled' ? "已取消行程生成。" : "行程生成逾時，請稍後再試。");
+    this.name = 'GenerationAbortedError';
+    this.reason = reason;
+    this.fallback = fallback;
+  }
+}
+
+// Thrown when Stage 3 fails after the route was already optimized
+export class FinalPlanningError extends Error {
+  fallback: ItineraryResult;
+  cause: unknown;
+
+  constructor(cause: unknown, fallback: ItineraryResult) {
+    super(`AI 最終規劃失敗：${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'FinalPlanningError';
+    this.fallback = fallback;
+    this.cause = cause;
+  }
+}
+
+// Mutable state shared between generateItinerary and the pipeline, so failures can still recover work
+interface PipelineState {
+  fallback?: ItineraryResult;
+  pauseTimeout?: () => void;
+  resumeTimeout?: () => void;
+}
+
+// Rejects as soon as the signal aborts, so a pending review cannot hang a cancelled pipeline
+const awaitWithSignal = <T,>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+  const onAbort = () => reject(new Error("Pipeline aborted"));
+  if (signal.aborted) return onAbort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
 
 const cleanJsonString = (str: string) => {
   let cleaned = str.replace(/```json\n?/g, '').replace(/```/g, '');
@@ -13,6 +87,195 @@ const cleanJsonString = (str: string) => {
   return cleaned;
 };
 
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const parseAndValidate = <T,>(text: string, validate: (data: unknown) => ValidationResult<T>): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJsonString(text));
+  } catch (e) {
+    return { value: {} as T, issues: [{ path: '$', message: '不是有效的 JSON' }] };
+  }
+  return validate(parsed);
+};
+
+const buildRepairPrompt = (previous: string, issues: ValidationIssue[]) => `
+    你上一次輸出的行程 JSON 有以下欄位錯誤，請逐一修正：
+    ${issues.map(i => `- ${i.path}: ${i.message}`).join('\n    ')}
+
+    【規則】
+    1. 只修正上列欄位，其他內容保持不變。
+    2. "time" 必須為 24 小時制 "HH:MM"。
+    3. "cost"、"transportCost"、"transportTimeMinutes"、"totalCostEstimate" 必須為數字 (不可為字串)。
+    4. 只輸出完整的 JSON，不要任何說明文字。
+
+    【上一次的輸出】
+    ${previous}
+`;
+
+// Ask the model to fix exactly the fields that failed, instead of regenerating blindly
+const repairUntilValid = async <T,>(
+  llm: LLMProvider,
+  text: string,
+  validate: (data: unknown) => ValidationResult<T>
+): Promise<T> => {
+  let result = parseAndValidate(text, validate);
+
+  for (let attempt = 1; result.issues.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`Stage 3 output invalid (${result.issues.length} issues), repair attempt ${attempt}...`);
+      text = await llm.generate({
+          stage: 'repair',
+          tier: 'pro',
+          prompt: buildRepairPrompt(text, result.issues),
+      });
+      result = parseAndValidate(text || "", validate);
+  }
+
+  if (result.issues.length > 0) throw new ItineraryValidationError(result.issues);
+  return result.value;
+};
+
+// Compact candidate representation used in every Stage 3 skeleton
+const toSkeletonItem = (c: CandidatePlace) => ({
+    name: c.name,
+    lat: c.latitude,
+    lng: c.longitude,
+    hours: c.openingText,
+    website: c.website,
+    ...(c.plannedArrival ? { arrive: c.plannedArrival, depart: c.plannedDeparture } : {}),
+    ...(c.mealSlot ? { meal: c.mealSlot } : {}),
+    ...(c.estimatedCost !== undefined ? { cost: c.estimatedCost } : {}),
+    ...(c.transportFromPrevious ? { transport: c.transportFromPrevious.label, transportMinutes: Math.round(c.transportFromPrevious.hours * 60) } : {}),
+    ...(c.pinned ? { mustVisit: true } : {}),
+    ...(c.cityTransfer ? { transfer: true, luggage: c.cityTransfer.luggage } : {}),
+    ...(c.dayTrip ? { dayTrip: true } : {})
+});
+
+const describePace = (pace: UserPreferences['style']['pace']) =>
+    TRAVEL_STYLES.find(s => s.value === pace)?.label || pace;
+
+// Stage 3 rule for groups with children, seniors or mobility needs; empty for adults only
+const describeGroupRule = (prefs: UserPreferences) => {
+    const travelers = resolveTravelerProfiles(prefs);
+    if (!hasSpecialNeeds(travelers)) return '';
+    return `5. **同行者**: ${describeTravelerProfiles(travelers)}。骨架已排除不適合的地點並縮短步行距離，活動描述請註明無障礙設施、休息點等資訊；活動 "cost" 填成人價格，兒童 / 長者票價由系統換算。`;
+};
+
+const toTransferActivity = (transfer: CityTransfer, currency: string): Activity => ({
+    time: transfer.depart,
+    placeName: transfer.name,
+    description: `${transfer.fromHotel} → ${transfer.toHotel}，${transfer.arrive} 抵達。行李：${transfer.luggage}。`,
+    reasoning: "更換住宿城市",
+    matchTags: ["城市移動"],
+    duration: `${transfer.hours.toFixed(1)} 小時`,
+    cost: 0,
+    currency,
+    transportMethod: transfer.label,
+    transportCost: transfer.cost,
+    transportTimeMinutes: Math.round(transfer.hours * 60),
+    latitude: transfer.to.lat,
+    longitude: transfer.to.lng,
+    isTransfer: true,
+});
+
+// Outbound (hotel -> destination) or return leg of a day trip
+const toDayTripActivity = (trip: ScheduledDayTrip, leg: DayTripLeg, outbound: boolean, currency: string): Activity => ({
+    time: leg.depart,
+    placeName: leg.name,
+    description: outbound
+        ? `搭乘${trip.label}前往${trip.destination}，${leg.arrive} 抵達。`
+        : `搭乘${trip.label}離開${trip.destination}，${leg.arrive} 回到住宿。`,
+    reasoning: `${trip.destination}一日遊`,
+    matchTags: ["一日遊"],
+    duration: `${trip.hours.toFixed(1)} 小時`,
+    cost: 0,
+    currency,
+    transportMethod: trip.label,
+    transportCost: trip.cost,
+    transportTimeMinutes: Math.round(trip.hours * 60),
+    latitude: outbound ? trip.to.lat : trip.from.lat,
+    longitude: outbound ? trip.to.lng : trip.from.lng,
+    isTransfer: true,
+});
+
+interface FixedActivity {
+    activity: Activity; // Located where the leg ends
+    depart: string;
+    arrive: string;
+}
+
+// The optimizer's fixed legs replace whatever the model wrote for them (or anything it put inside them)
+const withFixedActivities = (activities: Activity[], legs: FixedActivity[]): Activity[] => {
+    const kept = activities.filter(a => !a.isTransfer && !legs.some(leg =>
+        matchesPlaceName(a.placeName, leg.activity.placeName) || (a.time >= leg.depart && a.time < leg.arrive)));
+    legs.forEach(leg => {
+        const index = kept.findIndex(a => a.time > leg.depart);
+        kept.splice(index === -1 ? kept.length : index, 0, leg.activity);
+    });
+    return kept;
+};
+
+// Transport fields come from the transport model (previous stop -> this stop), not from the model's guesses.
+// On a city-change day the day starts at the old hotel and the transfer block carries the inter-city leg;
+// on a day-trip day the outbound and return legs frame the day.
+const applyTransportModel = (
+    day: DayPlan,
+    prefs: UserPreferences,
+    airportCoords?: { lat: number, lng: number },
+    transfers: CityTransfer[] = [],
+    dayTrips: ScheduledDayTrip[] = []
+): DayPlan => {
+    const settings = getTransportSettings(prefs);
+    const currency = prefs.budget.currency;
+    const hotel = getActiveHotelForDay(prefs.hotels, prefs.dates.start, day.dayNumber);
+    const transfer = transfers.find(t => t.day === day.dayNumber);
+    const dayTrip = dayTrips.find(t => t.day === day.dayNumber);
+    let loc: { lat: number, lng: number } | null = day.dayNumber === 1 && airportCoords
+        ? airportCoords
+        : transfer ? transfer.from : (hotel?.latitude && hotel?.longitude ? { lat: hotel.latitude, lng: hotel.longitude } : null);
+
+    const legs: FixedActivity[] = [];
+    if (transfer) legs.push({ activity: toTransferActivity(transfer, currency), depart: transfer.depart, arrive: transfer.arrive });
+    if (dayTrip) {
+        legs.push({ activity: toDayTripActivity(dayTrip, dayTrip.outbound, true, currency), ...dayTrip.outbound });
+        legs.push({ activity: toDayTripActivity(dayTrip, dayTrip.back, false, currency), ...dayTrip.back });
+    }
+    const activities = legs.length > 0 ? withFixedActivities(day.activities, legs) : day.activities;
+
+    return {
+        ...day,
+        activities: activities.map(a => {
+            // Fixed legs carry their own fare; the next leg starts where they end
+            if (a.isTransfer) {
+                if (a.latitude && a.longitude) loc = { lat: a.latitude, lng: a.longitude };
+                return a;
+            }
+            if (!a.latitude || !a.longitude) return a;
+            const from = loc;
+            loc = { lat: a.latitude, lng: a.longitude };
+            if (!from) return a;
+            const leg = getTransportLeg(from, loc, settings);
+            return { ...a, transportMethod: leg.label, transportCost: leg.cost, transportTimeMinutes: Math.round(leg.hours * 60) };
+        }),
+    };
+};
+
+const ACTIVITY_SCHEMA = `{
+              "time": "HH:MM",
+              "placeName": "名稱",
+              "description": "描述",
+              "duration": "2 小時", 
+              "website": "URL",
+              "reasoning": "選擇理由",
+              "cost": 數字,
+              "transportMethod": "交通方式",
+              "transportCost": 數字,
+              "transportTimeMinutes": 數字,
+              "latitude": 數字,
+              "longitude": 數字,
+              "isMeal": boolean
+            }`;
+
 const deduplicateCandidates = (candidates: CandidatePlace[]): CandidatePlace[] => {
     const seen = new Set();
     return candidates.filter(c => {
@@ -24,44 +287,13 @@ const deduplicateCandidates = (candidates: CandidatePlace[]): CandidatePlace[] =
     });
 };
 
-// Robust API Key Retrieval
-const getApiKey = () => {
-    const meta = import.meta as any;
-    let key = "";
-
-    // 1. Try Standard Vite Env
-    if (meta.env && meta.env.VITE_API_KEY) {
-        key = meta.env.VITE_API_KEY;
-    } 
-    // 2. Try process.env (Standard Node/Webpack fallback)
-    else if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-        key = process.env.API_KEY;
-    }
-    // 3. Try generic VITE_ key via process (sometimes necessary in specific pipelines)
-    else if (typeof process !== 'undefined' && process.env && process.env.VITE_API_KEY) {
-        key = process.env.VITE_API_KEY;
-    }
-
-    // Debugging for Netlify (Will show in Browser Console)
-    if (!key) {
-        console.error("API Key Search Failed. Checked: import.meta.env.VITE_API_KEY, process.env.API_KEY");
-        console.log("Current import.meta.env:", JSON.stringify(meta.env || {}, null, 2));
-    }
-
-    return key;
-};
-
 // New: Ensure every day exists in the result
 const sanitizeItineraryDates = (data: ItineraryResult, startStr: string, totalDays: number): ItineraryResult => {
-    const startDate = new Date(startStr);
     const correctedDays: DayPlan[] = [];
 
     for (let i = 1; i <= totalDays; i++) {
-        // Calculate expected date string YYYY-MM-DD
-        const d = new Date(startDate);
-        d.setDate(startDate.getDate() + (i - 1));
-        // Handle timezone offset simply by string manipulation or UTC to avoid shifts
-        const dateStr = d.toISOString().split('T')[0];
+        // Expected trip-local date YYYY-MM-DD
+        const dateStr = getTripDate(startStr, i);
 
         // Find if AI generated this day
         const existingDay = data.days.find(day => day.dayNumber === i);
@@ -103,123 +335,346 @@ const sanitizeItineraryDates = (data: ItineraryResult, startStr: string, totalDa
     return data;
 };
 
-export const generateItinerary = async (prefs: UserPreferences): Promise<ItineraryResult> => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key 未讀取到。請確認 Netlify 環境變數設為 'VITE_API_KEY'。");
+export const generateItinerary = async (prefs: UserPreferences, options: GenerateOptions = {}): Promise<ItineraryResult> => {
+  const controller = new AbortController();
+  let abortReason: 'cancelled' | 'timeout' = 'cancelled';
+
+  const onCancel = () => { abortReason = 'cancelled'; controller.abort(); };
+  if (options.signal?.aborted) throw new GenerationAbortedError('cancelled');
+  options.signal?.addEventListener('abort', onCancel);
+  let remainingMs = resolveTimeoutMs(options);
+  let timerStartedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const startTimer = () => {
+      timerStartedAt = Date.now();
+      timer = setTimeout(() => {
+          abortReason = 'timeout';
+          controller.abort();
+      }, remainingMs);
+  };
+  startTimer();
+
+  const state: PipelineState = {
+      pauseTimeout: () => {
+          clearTimeout(timer);
+          remainingMs -= Date.now() - timerStartedAt;
+      },
+      resumeTimeout: startTimer,
+  };
+  try {
+      return await runPipeline(prefs, options, controller.signal, state);
+  } catch (error) {
+      if (controller.signal.aborted) throw new GenerationAbortedError(abortReason, state.fallback);
+      if (state.fallback && !(error instanceof GenerationAbortedError)) throw new FinalPlanningError(error, state.fallback);
+      throw error;
+  } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onCancel);
+  }
+};
+
+// Itinerary built without Stage 3: every day is listed straight from the optimizeRoute skeleton
+const buildFallbackItinerary = (
+  prefs: UserPreferences,
+  totalDays: number,
+  optimizedCandidates: CandidatePlace[],
+  airportCoords?: { lat: number, lng: number },
+  transfers: CityTransfer[] = [],
+  dayTrips: ScheduledDayTrip[] = []
+): ItineraryResult => {
+  const days: DayPlan[] = [];
+  for (let i = 1; i <= totalDays; i++) {
+      let clock = i === 1 ? Math.max(timeToHours(prefs.dates.startTime || "09:00") + 2.5, 9) : 9;
+      const activities: Activity[] = optimizedCandidates
+          .filter(c => c.suggestedDay === i)
+          .map(c => {
+              // Prefer the opening-hours-aware slot from the optimizer
+              if (c.plannedArrival) clock = timeToHours(c.plannedArrival);
+              const time = `${String(Math.floor(clock)).padStart(2, '0')}:${String(Math.round((clock % 1) * 60) % 60).padStart(2, '0')}`;
+              const hours = c.durationHours || 1.5;
+              clock += hours + 0.5;
+              // Places moved in the candidate review lost the optimizer's figure
+              const cost = c.estimatedCost ?? estimatePlaceCost(c, prefs.budget.currency);
+              return {
+                  time,
+                  placeName: c.name,
+                  description: c.description || "",
+                  reasoning: c.matchReason || "",
+                  matchTags: ["演算法排程"],
+                  duration: `${hours} 小時`,
+                  website: c.website,
+                  cost: cost ?? 0,
+                  ...(cost === undefined ? { costUnknown: true } : {}),
+                  currency: prefs.budget.currency,
+                  latitude: c.latitude,
+                  longitude: c.longitude,
+                  isMeal: !!c.mealSlot || c.category === 'food',
+              };
+          });
+      days.push(applyAgeGroupPricing(
+          applyTransportModel({ dayNumber: i, date: "", summary: activities.map(a => a.placeName).slice(0, 3).join('、'), activities }, prefs, airportCoords, transfers, dayTrips),
+          resolveTravelerProfiles(prefs)
+      ));
+  }
 
-  const ai = new GoogleGenAI({ apiKey });
+  return sanitizeItineraryDates({
+      tripTitle: "簡易行程 (演算法骨架)",
+      totalCostEstimate: 0,
+      currency: prefs.budget.currency,
+      summary: "AI 最終規劃未完成，以下為依路線優化結果排出的行程，費用尚未估算。",
+      days,
+      travelers: prefs.travelers,
+      ...(prefs.travelerProfiles?.length ? { travelerProfiles: prefs.travelerProfiles } : {}),
+      ...(transfers.length > 0 ? { transfers } : {}),
+      ...(dayTrips.length > 0 ? { dayTrips } : {}),
+  }, prefs.dates.start, totalDays);
+};
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new Error("Pipeline aborted");
+};
 
-  const start = new Date(prefs.dates.start);
-  const end = new Date(prefs.dates.end);
-  const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 3600 * 24)) + 1;
+const runPipeline = async (
+  prefs: UserPreferences,
+  options: GenerateOptions,
+  signal: AbortSignal,
+  state: PipelineState
+): Promise<ItineraryResult> => {
+  const llm = bindAbortSignal(options.provider || getDefaultProvider(), signal);
+  const report = (event: ProgressEvent) => options.onProgress?.(event);
+
+  const totalDays = countTripDays(prefs.dates.start, prefs.dates.end);
 
   // STAGE 0: Airport & Keywords
   console.log("Stage 0: Pre-fetching Airport & Analyzing Custom Requests...");
+  report({ stage: 'airport', status: 'running', detail: prefs.airport });
   let airportCoords = { lat: 0, lng: 0 };
   try {
-     const airportResp = await ai.models.generateContent({
-         model: "gemini-3-flash-preview",
-         contents: `Return JSON only: {"lat": number, "lng": number} for airport "${prefs.airport}".`,
-         config: { tools: [{ googleSearch: {} }] }
+     const airportText = await llm.generate({
+         stage: 'airport',
+         tier: 'flash',
+         prompt: `Return JSON only: {"lat": number, "lng": number} for airport "${prefs.airport}".`,
+         useSearch: true
      });
-     const airportJson = JSON.parse(cleanJsonString(airportResp.text || "{}"));
+     const airportJson = JSON.parse(cleanJsonString(airportText || "{}"));
      if(airportJson.lat) airportCoords = airportJson;
   } catch(e) { console.warn("Airport geocode failed"); }
+  report(airportCoords.lat !== 0
+      ? { stage: 'airport', status: 'done', detail: prefs.airport }
+      : { stage: 'airport', status: 'skipped', detail: '無法定位機場，改以飯店為起點' });
 
   let customKeywords: string[] = [];
   if (prefs.customRequests && prefs.customRequests.length > 5) {
       try {
-          const kwResp = await ai.models.generateContent({ 
-             model: "gemini-3-flash-preview", 
-             contents: `User Request: "${prefs.customRequests}". Extract specific place names. Return JSON: {"places": ["Name1", "Name2"]}` 
+          const kwText = await llm.generate({
+             stage: 'keywords',
+             tier: 'flash',
+             prompt: `User Request: "${prefs.customRequests}". Extract specific place names. Return JSON: {"places": ["Name1", "Name2"]}`
           });
-          const kwJson = JSON.parse(cleanJsonString(kwResp.text || "{}"));
+          const kwJson = JSON.parse(cleanJsonString(kwText || "{}"));
           customKeywords = kwJson.places || [];
       } catch(e) {}
   }
 
+  // Places typed into the form plus those named in the free-text request are all hard constraints
+  const mustVisit = Array.from(new Set([...(prefs.mustVisit || []), ...customKeywords].map(n => n.trim()).filter(Boolean)));
+
+  throwIfAborted(signal);
+
   // STAGE 1: Candidate Search (Increased count)
+  // Day-trip destinations are searched like hotels; their coordinates anchor the trip's day
   console.log("Stage 1: Fetching candidates...");
-  const hotelTasks = prefs.hotels.map(async (hotel) => {
+  const dayTripAnchors: Hotel[] = (prefs.dayTrips || []).map((trip, i) => ({
+      id: `daytrip-${i}`, name: trip.destination, location: trip.destination, checkIn: '', checkOut: '',
+  }));
+  const anchors = [...prefs.hotels, ...dayTripAnchors];
+  let hotelsSearched = 0;
+  report({ stage: 'candidates', status: 'running', completed: 0, total: anchors.length });
+  const cache = options.candidateCache || getDefaultCandidateCache();
+  let cacheHits = 0;
+  const hotelTasks = anchors.map(async (hotel) => {
+      const isDayTrip = dayTripAnchors.includes(hotel);
+      const cacheKey = buildCandidateCacheKey(hotel, mustVisit);
+      if (!options.refreshCandidates) {
+          const cached = await cache.get(cacheKey);
+          if (cached && isCacheEntryFresh(cached)) {
+              if (cached.hotelCoords) { hotel.latitude = cached.hotelCoords.lat; hotel.longitude = cached.hotelCoords.lng; }
+              cacheHits++;
+              hotelsSearched++;
+              report({ stage: 'candidates', status: 'running', completed: hotelsSearched, total: anchors.length, detail: `${hotel.name} (快取)` });
+              return cached.candidates;
+          }
+      }
+
       // Increased from 15 to 20 to ensure pool is large enough
       const prompt = `
-        任務：針對住宿點「${hotel.name}」(${hotel.location}) 搜尋 25 個適合的旅遊地點(景點/餐廳)。
-        ${customKeywords.length > 0 ? `優先包含這些地點: ${customKeywords.join(', ')}` : ''}
+        任務：針對${isDayTrip ? '一日遊目的地' : '住宿點'}「${hotel.name}」(${hotel.location}) 搜尋 25 個適合的旅遊地點(景點/餐廳)。
+        ${mustVisit.length > 0 ? `必須包含這些地點 (若在附近): ${mustVisit.join(', ')}` : ''}
         
         【關鍵要求】
-        1. **地理位置**: 優先距離該住宿點 20公里內。
+        1. **地理位置**: 優先距離該${isDayTrip ? '目的地' : '住宿點'} 20公里內。
         2. **多樣性**: 包含觀光、美食、購物。
         3. **資訊完整**: 必須包含經緯度、建議停留時數(durationHours)。
         
         JSON Format: { "hotelCoords": {"lat": number, "lng": number}, "candidates": [...] }
-        (Candidate fields: name, category, rating, latitude, longitude, closedDays, openingText, website, durationHours)
+        (Candidate fields: name, category, rating, reviewCount, priceLevel, admissionFee, latitude, longitude, closedDays, openingText, website, durationHours, closures, accessibility)
+        reviewCount: Google 地圖評論數 (整數)。
+        priceLevel (選填，僅在確知時填寫): 0-4，0 = 免費，1-4 = $ 至 $$$$；餐廳為每人餐費等級，其他地點為門票 / 消費等級。
+        admissionFee (選填，僅在確知時填寫，餐廳不填): 成人門票 { "amount": number, "currency": "當地貨幣代碼，例如 JPY" }，免費為 0。
+        closures (選填，僅在確知時填寫): { "closedDates": ["YYYY-MM-DD"], "closedRanges": [{"from": "YYYY-MM-DD", "to": "YYYY-MM-DD"}], "closedOnHolidays": boolean, "closedAfterHolidays": boolean, "openOnHolidays": boolean, "openOnlyOn": ["YYYY-MM-DD"] }
+        例：「週一休館，遇國定假日開館並於隔日休館」→ closedDays: [1], closures: { "openOnHolidays": true, "closedAfterHolidays": true }；年末年始、臨時休館請寫入 closedRanges / closedDates。
+        accessibility (選填，僅在確知時填寫): { "wheelchair": boolean (無障礙通行), "stroller": boolean (可推嬰兒車), "strenuous": boolean (需長距離步行、登山或大量階梯), "adultsOnly": boolean (限成人) }
       `;
       try {
-          const resp = await ai.models.generateContent({
-              model: "gemini-3-flash-preview", 
-              contents: prompt,
-              config: { tools: [{ googleSearch: {} }] }
+          const text = await llm.generate({
+              stage: 'candidates',
+              tier: 'flash',
+              prompt,
+              useSearch: true
           });
-          const json = JSON.parse(cleanJsonString(resp.text || "{}"));
+          const json = JSON.parse(cleanJsonString(text || "{}"));
           if (json.hotelCoords?.lat) { hotel.latitude = json.hotelCoords.lat; hotel.longitude = json.hotelCoords.lng; }
-          return (json.candidates || []) as CandidatePlace[];
-      } catch (e) { return []; }
+          const candidates = (json.candidates || []) as CandidatePlace[];
+          if (candidates.length > 0) {
+              await cache.put(cacheKey, {
+                  hotelCoords: json.hotelCoords?.lat ? { lat: json.hotelCoords.lat, lng: json.hotelCoords.lng } : undefined,
+                  candidates,
+                  createdAt: Date.now(),
+              });
+          }
+          return candidates;
+      } catch (e) {
+          return [];
+      } finally {
+          hotelsSearched++;
+          report({ stage: 'candidates', status: 'running', completed: hotelsSearched, total: anchors.length, detail: hotel.name });
+      }
   });
 
   const results = await Promise.all(hotelTasks);
-  const allCandidates = deduplicateCandidates(results.flat());
+  throwIfAborted(signal);
+  // Copies, so ranking/routing never mutates what is held in the cache
+  const allCandidates = deduplicateCandidates(results.flat()).map(c => ({ ...c }));
 
   if (allCandidates.length === 0) throw new Error("無法找到任何景點，請檢查輸入或稍後再試。");
+  report({ stage: 'candidates', status: 'done', completed: anchors.length, total: anchors.length, detail: `${allCandidates.length} 個地點${cacheHits > 0 ? `，${cacheHits} 間酒店使用快取` : ''}` });
 
   // STAGE 2: Ranking & Route Optimization
-  const rankedCandidates = rankCandidates(allCandidates, prefs, prefs.hotels);
+  report({ stage: 'routing', status: 'running', total: allCandidates.length });
+  const rankedCandidates = rankCandidates(allCandidates, prefs, anchors);
   const topCandidates = rankedCandidates.slice(0, 60); // Use top 60 to prevent running out
+  // Must-visit places and those found around a day-trip destination stay in the pool regardless of their rank
+  const dayTripNames = new Set(results.slice(prefs.hotels.length).flat().map(c => c?.name?.toLowerCase().trim()));
+  rankedCandidates.slice(60)
+      .filter(c => mustVisit.some(name => matchesPlaceName(c.name, name)) || dayTripNames.has(c.name.toLowerCase().trim()))
+      .forEach(c => topCandidates.push(c));
+
+  // Destinations that could not be located get no day
+  const dayTripRequests: DayTripRequest[] = [];
+  const unlocatedDayTrips: DayTripIssue[] = [];
+  (prefs.dayTrips || []).forEach((trip, i) => {
+      const anchor = dayTripAnchors[i];
+      if (anchor.latitude && anchor.longitude) {
+          dayTripRequests.push({ destination: trip.destination, lat: anchor.latitude, lng: anchor.longitude, date: trip.date });
+      } else {
+          unlocatedDayTrips.push({ destination: trip.destination, reason: 'not_found' });
+      }
+  });
   
   console.log(`Optimization: Processing ${topCandidates.length} spots.`);
 
+  const holidays = await getTripHolidays(prefs.country, prefs.dates.start, prefs.dates.end, options.holidaySource);
+  throwIfAborted(signal);
+
   // Pass STRICT flight times
-  const optimizedCandidates = optimizeRoute(
+  const route = optimizeRouteWithReport(
       topCandidates, 
       prefs.hotels, 
       prefs.dates.start,
       totalDays,
       airportCoords.lat !== 0 ? airportCoords : undefined,
-      { start: prefs.dates.startTime, end: prefs.dates.endTime }
+      { start: prefs.dates.startTime, end: prefs.dates.endTime },
+      {
+          mustVisit,
+          meals: prefs.meals ?? DEFAULT_MEALS,
+          currency: prefs.budget.currency,
+          transport: getTransportSettings(prefs),
+          budgetPerPerson: prefs.budget.amount,
+          pace: prefs.style.pace,
+          paceByDay: prefs.paceByDay,
+          holidays,
+          dayTrips: dayTripRequests,
+          travelerProfiles: resolveTravelerProfiles(prefs),
+      }
   );
+  const { scheduled: optimizedCandidates, improvement, transfers, dayTrips, dayTripIssues: routeDayTripIssues } = route;
+  // Re-derived when the user edits the plan in the candidate review
+  let { mustVisitIssues, budgetReport } = route;
+  const dayTripIssues = [...unlocatedDayTrips, ...routeDayTripIssues];
   
+  const { before, after } = improvement;
+  report({
+      stage: 'routing',
+      status: 'done',
+      completed: optimizedCandidates.length,
+      total: allCandidates.length,
+      detail: `總距離 ${before.totalKm} → ${after.totalKm} km，等待 ${before.idleHours} → ${after.idleHours} 小時`,
+  });
+
+  const planningContext = {
+      prefs,
+      rankedCandidates: topCandidates,
+      airportCoords: airportCoords.lat !== 0 ? airportCoords : undefined,
+      routeImprovement: improvement,
+      holidays,
+  };
+  state.fallback = { ...buildFallbackItinerary(prefs, totalDays, optimizedCandidates, planningContext.airportCoords, transfers, dayTrips), planningContext, mustVisitIssues, budgetReport, ...(dayTripIssues.length > 0 ? { dayTripIssues } : {}) };
+
+  // Optional human review: pin / exclude / move places before the expensive final call
+  let scheduledCandidates = optimizedCandidates;
+  if (options.onReview) {
+      const scheduledNames = new Set(optimizedCandidates.map(c => c.name));
+      state.pauseTimeout?.();
+      scheduledCandidates = await awaitWithSignal(options.onReview({
+          totalDays,
+          scheduled: optimizedCandidates,
+          unscheduled: topCandidates.filter(c => !scheduledNames.has(c.name)),
+      }), signal);
+      state.resumeTimeout?.();
+      // Pins set in the review are what later re-planning (regenerateDay) keeps
+      topCandidates.forEach(c => {
+          if (scheduledCandidates.some(s => s.pinned && s.name === c.name)) c.pinned = true; else delete c.pinned;
+      });
+      ({ mustVisitIssues, budgetReport } = reportReviewedPlan(scheduledCandidates, { mustVisitIssues, budgetReport }, mustVisit, prefs.budget.currency));
+      state.fallback = { ...buildFallbackItinerary(prefs, totalDays, scheduledCandidates, planningContext.airportCoords, transfers, dayTrips), planningContext, mustVisitIssues, budgetReport, ...(dayTripIssues.length > 0 ? { dayTripIssues } : {}) };
+  }
+
   // STAGE 3: Final Planning
   console.log("Stage 3: Final Planning...");
+  report({ stage: 'final', status: 'running', completed: 0, total: totalDays });
 
   // Build skeleton
   const dayBuckets: Record<number, any[]> = {};
   for(let i=1; i<=totalDays; i++) dayBuckets[i] = [];
   
-  optimizedCandidates.forEach(c => {
+  scheduledCandidates.forEach(c => {
       if(c.suggestedDay && dayBuckets[c.suggestedDay]) {
-          dayBuckets[c.suggestedDay].push({
-              name: c.name,
-              lat: c.latitude,
-              lng: c.longitude,
-              hours: c.openingText,
-              website: c.website
-          });
+          dayBuckets[c.suggestedDay].push(toSkeletonItem(c));
       }
   });
 
   // Explicitly list ALL required dates for the prompt
   let dateListStr = "";
   let planSkeleton = "";
-  const startDateObj = new Date(prefs.dates.start);
-  
   for(let i=1; i<=totalDays; i++) {
-      const d = new Date(startDateObj);
-      d.setDate(startDateObj.getDate() + (i-1));
-      const dateStr = d.toISOString().split('T')[0];
+      const dateStr = getTripDate(prefs.dates.start, i);
+      const holiday = holidays.find(h => h.date === dateStr);
+      const dayTrip = dayTrips.find(t => t.day === i);
       
       dateListStr += `Day ${i} (${dateStr})\n`;
       
       const items = dayBuckets[i];
-      planSkeleton += `Day ${i} (${dateStr}): `;
+      planSkeleton += `Day ${i} (${dateStr}${holiday ? `，國定假日: ${holiday.name}` : ''}${prefs.paceByDay?.[i] ? `，節奏: ${describePace(prefs.paceByDay[i])}` : ''}${dayTrip ? `，一日遊: ${dayTrip.destination}` : ''}): `;
       if (items.length > 0) {
           planSkeleton += JSON.stringify(items) + "\n";
       } else {
@@ -239,12 +694,14 @@ export const generateItinerary = async (prefs: UserPreferences): Promise<Itinera
     1. **完整日期**: 行程必須完整包含從 Day 1 到 Day ${totalDays} 的每一天。
        請檢查以下日期列表，一天都不能少：
        ${dateListStr}
-    2. **班機時間**:
+    2. **班機時間** (目的地當地時間${prefs.timeZone ? `，${prefs.timeZone}` : ''}):
        - Day 1: ${prefs.dates.startTime} 抵達。此前不可排活動。
        - Day ${totalDays}: ${prefs.dates.endTime} 起飛。起飛前 3 小時需抵達機場。
     3. **地理位置**: 必須參考住宿表安排行程。
        住宿表: 
        ${hotelSchedule}
+    4. **行程節奏**: ${describePace(prefs.style.pace)}，骨架中個別標註節奏的日子以標註為準。不可在骨架之外額外加入景點。
+    ${describeGroupRule(prefs)}
 
     【每日行程骨架】
     ${planSkeleton}
@@ -254,6 +711,13 @@ export const generateItinerary = async (prefs: UserPreferences): Promise<Itinera
     2. 若骨架某日標註為「無特定推薦」，請務必**自動生成**當日的行程，不可留白。
     3. 每個活動請填寫 "duration" (例如 "2 小時")。
     4. 確保 Day 1 到 Day ${totalDays} 都有資料。
+    5. 骨架中標記 "mustVisit": true 的地點為使用者指定，必須保留在該日。
+    6. 骨架中的 "arrive" / "depart" 已依營業時間排定，活動 "time" 請使用 "arrive"，不可排在營業時間外。
+    7. 骨架中帶有 "meal" 的地點為午餐 (lunch) / 晚餐 (dinner)，請保留並設定 "isMeal": true。
+    8. 交通方式、時間與費用由系統依交通偏好計算 (骨架中的 "transport" / "transportMinutes")，安排時間時請預留該交通時間。
+    9. 每人當地消費預算為 ${prefs.budget.currency} ${prefs.budget.amount}。骨架的 "cost" 為每人門票 / 餐費估算，活動 "cost" 以此為基準；沒有 "cost" 的地點費用未知，請查詢實際門票 / 餐費，不可當作免費。不要加入骨架以外的高價活動。
+    10. 骨架中帶有 "transfer": true 的項目為跨城市移動 (更換住宿)，請保留在原時段，移動前的景點在舊住宿附近、移動後的在新住宿附近，並依 "luggage" 在前後活動描述中提醒行李安排。
+    11. 骨架中帶有 "dayTrip": true 的項目為一日遊的去程 / 回程，請保留在原時段；兩者之間的景點都在一日遊目的地附近，不可改排住宿附近的地點。
 
     【輸出 Schema】
     {
@@ -267,21 +731,7 @@ export const generateItinerary = async (prefs: UserPreferences): Promise<Itinera
           "dayNumber": 1,
           "summary": "主題",
           "activities": [
-            {
-              "time": "HH:MM",
-              "placeName": "名稱",
-              "description": "描述",
-              "duration": "2 小時", 
-              "website": "URL",
-              "reasoning": "選擇理由",
-              "cost": 數字,
-              "transportMethod": "交通方式",
-              "transportCost": 數字,
-              "transportTimeMinutes": 數字,
-              "latitude": 數字,
-              "longitude": 數字,
-              "isMeal": boolean
-            }
+            ${ACTIVITY_SCHEMA}
           ]
         }
       ]
@@ -289,24 +739,45 @@ export const generateItinerary = async (prefs: UserPreferences): Promise<Itinera
   `;
 
   try {
-    const resp3 = await ai.models.generateContent({
-      model: "gemini-3-pro-preview", 
-      contents: step3Prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
+    const finalRequest = { stage: 'final', tier: 'pro', prompt: step3Prompt, useSearch: true } as const;
+    let text: string;
 
-    const text = resp3.text;
-    if (!text) throw new Error("No response from Gemini Stage 3");
-    
-    let data = JSON.parse(cleanJsonString(text)) as ItineraryResult;
+    if (llm.generateStream && options.onPartialDays) {
+        // Surface each day as soon as its JSON object closes
+        let emittedDays = 0;
+        text = await llm.generateStream(finalRequest, (soFar) => {
+            const days = (extractCompleteArrayItems(soFar, 'days') as DayPlan[])
+                .filter(d => d && Array.isArray(d.activities));
+            if (days.length > emittedDays) {
+                emittedDays = days.length;
+                options.onPartialDays!(days);
+                report({ stage: 'final', status: 'running', completed: Math.min(days.length, totalDays), total: totalDays });
+            }
+        });
+    } else {
+        text = await llm.generate(finalRequest);
+    }
+
+    if (!text) throw new Error(`No response from ${llm.name} Stage 3`);
+
+    let data = await repairUntilValid(llm, text, validateItinerary);
     
     // Critical Fix: Sanitize dates to ensure no day is missing
     data = sanitizeItineraryDates(data, prefs.dates.start, totalDays);
 
     data.travelers = prefs.travelers;
+    if (prefs.travelerProfiles?.length) data.travelerProfiles = prefs.travelerProfiles;
     if (data.currency !== prefs.budget.currency) data.currency = prefs.budget.currency;
+    data.days.forEach(day => day.activities.forEach(act => { act.currency = data.currency; }));
+    data.days = data.days.map(day => applyAgeGroupPricing(applyTransportModel(day, prefs, planningContext.airportCoords, transfers, dayTrips), resolveTravelerProfiles(prefs)));
+    data.planningContext = planningContext;
+    if (transfers.length > 0) data.transfers = transfers;
+    if (dayTrips.length > 0) data.dayTrips = dayTrips;
+    if (dayTripIssues.length > 0) data.dayTripIssues = dayTripIssues;
+    if (mustVisitIssues.length > 0) data.mustVisitIssues = mustVisitIssues;
+    if (budgetReport) data.budgetReport = budgetReport;
+
+    report({ stage: 'final', status: 'done', completed: totalDays, total: totalDays });
 
     return data;
 
@@ -315,3 +786,255 @@ export const generateItinerary = async (prefs: UserPreferences): Promise<Itinera
     throw error;
   }
 };
+
+// ==========================================
+// PARTIAL REGENERATION
+// ==========================================
+const normalizeName = (name: string) => name.toLowerCase().trim();
+
+// Ranked candidates that are not already used in the trip. Places on `replannedDay` stay available,
+// since that day's plan is being replaced as a whole.
+const getRemainingCandidates = (itinerary: ItineraryResult, replannedDay?: number): CandidatePlace[] => {
+  const used = new Set<string>();
+  itinerary.days
+      .filter(d => d.dayNumber !== replannedDay)
+      .forEach(d => d.activities.forEach(a => used.add(normalizeName(a.placeName))));
+  return (itinerary.planningContext?.rankedCandidates || [])
+      .filter(c => !used.has(normalizeName(c.name)))
+      .map(c => ({ ...c }));
+};
+
+const requirePlanningContext = (itinerary: ItineraryResult) => {
+  if (!itinerary.planningContext) throw new Error("此行程缺少規劃資料 (例如來自分享連結)，無法局部重新生成。");
+  return itinerary.planningContext;
+};
+
+// Flight / hotel constraints that apply to a single day
+const describeDayConstraints = (prefs: UserPreferences, dayNum: number, totalDays: number, hotel: Hotel, transfer?: CityTransfer, dayTrip?: ScheduledDayTrip) => {
+  const lines = [transfer
+    ? `更換住宿城市: 從 ${transfer.fromHotel} 出發，${transfer.depart} 搭乘${transfer.label}前往 ${transfer.toHotel} (@ ${transfer.to.lat},${transfer.to.lng})，${transfer.arrive} 抵達並入住。行李: ${transfer.luggage}。`
+    : `住宿: ${hotel.name} (@ ${hotel.latitude},${hotel.longitude})，當日從此出發並回到此處。`];
+  if (dayTrip) lines.push(`一日遊: ${dayTrip.outbound.depart} 搭乘${dayTrip.label}前往${dayTrip.destination} (@ ${dayTrip.to.lat},${dayTrip.to.lng})，${dayTrip.back.depart} 返程。其間只安排目的地附近的地點。`);
+  if (dayNum === 1) lines.push(`班機 ${prefs.dates.startTime} 抵達。此前不可排活動。`);
+  if (dayNum === totalDays) lines.push(`班機 ${prefs.dates.endTime} 起飛。起飛前 3 小時需抵達機場。`);
+  lines.push(`行程節奏: ${describePace(prefs.paceByDay?.[dayNum] || prefs.style.pace)}，不可在骨架之外額外加入景點。`);
+  const travelers = resolveTravelerProfiles(prefs);
+  if (hasSpecialNeeds(travelers)) lines.push(`同行者: ${describeTravelerProfiles(travelers)}。活動描述請註明無障礙設施、休息點等適合同行者的資訊。`);
+  return lines.map((l, i) => `${i + 1}. ${l}`).join('\n       ');
+};
+
+// Per-person spend of a day, as the budget counts it
+const dayPerPersonCost = (day?: DayPlan) =>
+  (day?.activities || []).reduce((sum, a) => sum + (a.cost || 0) + (a.transportCost || 0), 0);
+
+// Cost estimate, budget report and must-visit issues of a trip whose day `dayNumber` went from `before` to
+// `after`. Other days keep their share of each; the re-planned day's is worked out again.
+const reviewReplannedDay = (
+  itinerary: ItineraryResult,
+  days: DayPlan[],
+  before: DayPlan | undefined,
+  after: DayPlan,
+  mustVisitsBefore: CandidatePlace[]
+): Pick<ItineraryResult, 'totalCostEstimate' | 'budgetReport' | 'mustVisitIssues'> => {
+  const { prefs } = itinerary.planningContext!;
+  const travelers = resolveTravelerProfiles(prefs);
+  const groupCost = (day?: DayPlan) => (day?.activities || [])
+      .reduce((sum, a) => sum + groupActivityCost(a, travelers) + (a.transportCost || 0) * countTravelers(travelers), 0);
+  const totalCostEstimate = Math.max(0, Math.round(itinerary.totalCostEstimate - groupCost(before) + groupCost(after)));
+
+  const isPlanned = (name: string) => days.some(d => d.activities.some(a => matchesPlaceName(a.placeName, name)));
+  const mustVisitIssues: MustVisitIssue[] = [
+      ...(itinerary.mustVisitIssues || []).filter(issue => !isPlanned(issue.name)),
+      // Carried into the re-plan, but left out of the day the model returned
+      ...mustVisitsBefore
+          .filter(c => !isPlanned(c.name) && !itinerary.mustVisitIssues?.some(issue => matchesPlaceName(issue.name, c.name)))
+          .map(c => ({ name: c.name, reason: 'no_time' as const })),
+  ];
+
+  const previous = itinerary.budgetReport;
+  let budgetReport: BudgetReport | undefined;
+  if (previous) {
+      const plannedSpend = Math.round(days.reduce((sum, d) => sum + dayPerPersonCost(d), 0));
+      const overrun = Math.max(0, plannedSpend - previous.budget);
+      budgetReport = {
+          budget: previous.budget,
+          plannedSpend,
+          overrun,
+          // The swaps made on the re-planned day belonged to the plan it replaced
+          appliedSwaps: previous.appliedSwaps.filter(s => s.day !== after.dayNumber),
+          suggestedSwaps: overrun > 0 ? previous.suggestedSwaps.filter(s => s.day !== after.dayNumber) : [],
+      };
+  }
+
+  return { totalCostEstimate, budgetReport, mustVisitIssues: mustVisitIssues.length > 0 ? mustVisitIssues : undefined };
+};
+
+export const regenerateDay = async (
+  itinerary: ItineraryResult,
+  dayNumber: number,
+  options: { provider?: LLMProvider } = {}
+): Promise<ItineraryResult> => {
+  const ctx = requirePlanningContext(itinerary);
+  const llm = options.provider || getDefaultProvider();
+  const { prefs } = ctx;
+  const totalDays = itinerary.days.length;
+  const dateStr = getTripDate(prefs.dates.start, dayNumber);
+  const hotel = getActiveHotelForDay(prefs.hotels, prefs.dates.start, dayNumber);
+  const currentTrip = itinerary.dayTrips?.find(t => t.day === dayNumber);
+
+  // Must-visit places already on this day are carried over into the new plan
+  const currentDay = itinerary.days.find(d => d.dayNumber === dayNumber);
+  const keptMustVisits = ctx.rankedCandidates
+      .filter(c => c.pinned && currentDay?.activities.some(a => normalizeName(a.placeName) === normalizeName(c.name)))
+      .map(c => ({ ...c }));
+
+  // The day may spend whatever the rest of the trip leaves of the per-person budget
+  const otherDaysSpend = itinerary.days
+      .filter(d => d.dayNumber !== dayNumber)
+      .reduce((sum, d) => sum + dayPerPersonCost(d), 0);
+  const dayBudget = Math.max(prefs.budget.amount - otherDaysSpend, 0);
+
+  const dayPlaces = optimizeSingleDay(
+      getRemainingCandidates(itinerary, dayNumber),
+      dayNumber,
+      prefs.hotels,
+      prefs.dates.start,
+      totalDays,
+      ctx.airportCoords,
+      { start: prefs.dates.startTime, end: prefs.dates.endTime },
+      keptMustVisits,
+      {
+          meals: prefs.meals ?? DEFAULT_MEALS,
+          currency: prefs.budget.currency,
+          transport: getTransportSettings(prefs),
+          budgetPerPerson: dayBudget,
+          // The other days already spend the whole budget, so this day takes the cheapest choices
+          budgetExhausted: dayBudget === 0,
+          pace: prefs.style.pace,
+          paceByDay: prefs.paceByDay,
+          holidays: ctx.holidays,
+          // A day trip keeps its day; only its legs' times are re-planned
+          dayTrips: currentTrip ? [{ destination: currentTrip.destination, lat: currentTrip.to.lat, lng: currentTrip.to.lng, date: dateStr }] : [],
+          travelerProfiles: resolveTravelerProfiles(prefs),
+      }
+  );
+  const skeleton = dayPlaces.map(toSkeletonItem);
+  // The transfer block and day-trip legs may move with the new plan; other days keep theirs
+  const dayTransfer = dayPlaces.find(c => c.cityTransfer)?.cityTransfer;
+  const transfers = [...(itinerary.transfers || []).filter(t => t.day !== dayNumber), ...(dayTransfer ? [dayTransfer] : [])];
+  const replanned = dayPlaces.find(c => c.dayTrip)?.dayTrip;
+  const dayTrip = replanned && currentTrip?.requestedDate ? { ...replanned, requestedDate: currentTrip.requestedDate } : replanned;
+  const dayTrips = [...(itinerary.dayTrips || []).filter(t => t.day !== dayNumber), ...(dayTrip ? [dayTrip] : [])]
+      .sort((a, b) => a.day - b.day);
+
+  const otherPlaces = itinerary.days
+      .filter(d => d.dayNumber !== dayNumber)
+      .flatMap(d => d.activities.map(a => a.placeName));
+
+  const prompt = `
+    角色：專業導遊。
+    任務：只重新規劃其中一天的行程，產生單日 JSON。
+
+    【硬性約束 - 絕不可違反】
+       ${describeDayConstraints(prefs, dayNumber, totalDays, hotel, dayTransfer, dayTrip)}
+       不可重複以下已安排在其他天的地點: ${otherPlaces.join(', ') || '無'}
+       骨架中的 "arrive" / "depart" 已依營業時間排定，活動 "time" 請使用 "arrive"。
+       骨架中帶有 "meal" 的地點為用餐，請設定 "isMeal": true。活動 "cost" 以骨架的 "cost" (每人) 為基準，沒有 "cost" 的地點請查詢實際費用，${dayBudget > 0 ? `當日每人花費不超過 ${prefs.budget.currency} ${dayBudget}` : '預算已由其他天用完，請盡量選擇免費或最便宜的選項'}。
+
+    【當日骨架】
+    Day ${dayNumber} (${dateStr}): ${JSON.stringify(skeleton)}
+
+    【輸出 Schema】
+    {
+      "date": "${dateStr}",
+      "dayNumber": ${dayNumber},
+      "summary": "主題",
+      "activities": [
+        ${ACTIVITY_SCHEMA}
+      ]
+    }
+  `;
+
+  const text = await llm.generate({ stage: 'regenerateDay', tier: 'pro', prompt, useSearch: true });
+  const day = await repairUntilValid(llm, text || "", validateDayPlan);
+
+  const newDay = applyAgeGroupPricing(applyTransportModel({
+      ...day,
+      dayNumber,
+      date: dateStr,
+      activities: day.activities.map(a => ({ ...a, currency: itinerary.currency })),
+  }, prefs, ctx.airportCoords, transfers, dayTrips), resolveTravelerProfiles(prefs));
+
+  const days = itinerary.days.map(d => d.dayNumber === dayNumber ? newDay : d);
+  return {
+      ...itinerary,
+      days,
+      // Cleared when the only transfer or day trip was on this day and could not be kept
+      transfers: transfers.length > 0 ? transfers : undefined,
+      dayTrips: dayTrips.length > 0 ? dayTrips : undefined,
+      ...reviewReplannedDay(itinerary, days, currentDay, newDay, keptMustVisits),
+  };
+};
+
+export const replaceActivity = async (
+  itinerary: ItineraryResult,
+  dayNumber: number,
+  activityIndex: number,
+  options: { provider?: LLMProvider } = {}
+): Promise<ItineraryResult> => {
+  const ctx = requirePlanningContext(itinerary);
+  const llm = options.provider || getDefaultProvider();
+  const { prefs } = ctx;
+  const day = itinerary.days.find(d => d.dayNumber === dayNumber);
+  const current = day?.activities[activityIndex];
+  if (!day || !current) throw new Error(`找不到第 ${dayNumber} 天的第 ${activityIndex + 1} 個活動。`);
+  if (current.isTransfer) throw new Error("城市間移動與一日遊交通無法替換，請重新生成本日。");
+
+  const prev = day.activities[activityIndex - 1];
+  const next = day.activities[activityIndex + 1];
+  const neighbours = [prev, next]
+      .filter((a): a is Activity => !!a && !!a.latitude && !!a.longitude)
+      .map(a => ({ lat: a.latitude!, lng: a.longitude! }));
+  // The replacement must fit in the slot until the next activity starts
+  const slotHours = next ? Math.max(timeToHours(next.time) - timeToHours(current.time), 1) : 3;
+
+  const replacement = findReplacementCandidate(
+      getRemainingCandidates(itinerary),
+      prefs.hotels,
+      prefs.dates.start,
+      dayNumber,
+      neighbours,
+      slotHours,
+      timeToHours(current.time),
+      ctx.holidays,
+      resolveTravelerProfiles(prefs)
+  );
+  if (!replacement) throw new Error("附近沒有其他可替換的候選地點。");
+
+  const prompt = `
+    角色：專業導遊。
+    任務：替換 Day ${dayNumber} (${day.date}) ${current.time} 的活動「${current.placeName}」，產生單一活動 JSON。
+
+    【硬性約束】
+    1. 新地點: ${JSON.stringify(toSkeletonItem(replacement))}
+    2. "time" 必須是 "${current.time}"，停留時間不可超過 ${slotHours.toFixed(1)} 小時。
+    3. 交通資訊從${prev ? `上一個地點「${prev.placeName}」` : '住宿'}出發計算。
+
+    【輸出 Schema】
+    ${ACTIVITY_SCHEMA}
+  `;
+
+  const text = await llm.generate({ stage: 'replaceActivity', tier: 'pro', prompt, useSearch: true });
+  const activity = await repairUntilValid(llm, text || "", validateActivity);
+
+  const newActivity: Activity = { ...activity, time: current.time, currency: itinerary.currency };
+
+  return {
+      ...itinerary,
+      // Both legs around the new activity change, so the whole day is recomputed
+      days: itinerary.days.map(d => d.dayNumber !== dayNumber ? d : applyAgeGroupPricing(applyTransportModel({
+          ...d,
+          activities: d.activities.map((a, i) => i === activityIndex ? newActivity : a),
+      }, prefs, ctx.airportCoords, itinerary.transfers, itinerary.dayTrips), resolveTravelerProfiles(prefs))),
+  };
+};
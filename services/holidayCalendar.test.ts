@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createOfflineHolidaySource, getTripHolidays, HolidaySource } from './holidayCalendar';
+
+const offline = createOfflineHolidaySource();
+const holidaysIn = async (country: string, from: string, to: string) =>
+  (await offline.getHolidays(country, from, to)).map(h => `${h.date} ${h.name}`);
+
+describe('offline holiday source', () => {
+  it('moves a Sunday holiday to the next day that is not already a holiday (JP)', async () => {
+    // 2026-05-03 is a Sunday, and 5/4 and 5/5 are holidays of their own
+    expect(await holidaysIn('JP', '2026-05-03', '2026-05-06')).toEqual([
+      '2026-05-03 憲法記念日',
+      '2026-05-04 みどりの日',
+      '2026-05-05 こどもの日',
+      '2026-05-06 憲法記念日 (補假)',
+    ]);
+  });
+
+  it('makes a day between two holidays a holiday (JP)', async () => {
+    expect(await holidaysIn('JP', '2026-09-21', '2026-09-23')).toEqual([
+      '2026-09-21 敬老の日',
+      '2026-09-22 国民の休日',
+      '2026-09-23 秋分の日',
+    ]);
+  });
+
+  it('observes a Saturday holiday on the Friday before (TW, US)', async () => {
+    expect(await holidaysIn('TW', '2026-10-09', '2026-10-12')).toEqual(['2026-10-09 國慶日 (補假)', '2026-10-10 國慶日']);
+    expect(await holidaysIn('us', '2026-07-03', '2026-07-04')).toEqual(['2026-07-03 Independence Day (補假)', '2026-07-04 Independence Day']);
+  });
+
+  it('moves weekend holidays to the following weekdays in turn (GB)', async () => {
+    // Christmas 2027 is a Saturday and Boxing Day a Sunday
+    expect(await holidaysIn('GB', '2027-12-25', '2027-12-31')).toEqual([
+      '2027-12-25 Christmas Day',
+      '2027-12-26 Boxing Day',
+      '2027-12-27 Christmas Day (補假)',
+      '2027-12-28 Boxing Day (補假)',
+    ]);
+  });
+
+  it('covers ranges across the new year and knows nothing of other countries', async () => {
+    expect(await holidaysIn('JP', '2026-12-31', '2027-01-01')).toEqual(['2027-01-01 元日']);
+    expect(await holidaysIn('FR', '2026-01-01', '2026-12-31')).toEqual([]);
+  });
+});
+
+describe('getTripHolidays', () => {
+  it('includes the day before the trip', async () => {
+    const holidays = await getTripHolidays('JP', '2026-05-06', '2026-05-07', offline);
+    expect(holidays.map(h => h.date)).toEqual(['2026-05-05', '2026-05-06']);
+  });
+
+  it('returns no holidays without a country or when the source fails', async () => {
+    const failing: HolidaySource = { name: 'failing', getHolidays: async () => { throw new Error('offline'); } };
+    expect(await getTripHolidays(undefined, '2026-05-01', '2026-05-07', offline)).toEqual([]);
+    expect(await getTripHolidays('JP', '2026-05-01', '2026-05-07', failing)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { Holiday } from "../types";
+import { OFFLINE_HOLIDAY_DATA, HolidayRule, CountryHolidays } from "./holidayData";
+import { TripDate, addDays, formatTripDate, getDayOfWeek, countTripDays, parseTripDate } from "../utils/tripDates";
+
+// Public holidays per country, consulted by optimizeRoute through ClosureCalendar (closedOnHolidays etc.).
+// Sources are pluggable so a live API can replace the bundled offline rules.
+
+export interface HolidaySource {
+  name: string;
+  // Holidays between `from` and `to` (inclusive, trip-local dates); [] for countries the source does not cover
+  getHolidays: (country: string, from: TripDate, to: TripDate) => Promise<Holiday[]>;
+}
+
+// ==========================================
+// Offline rules (holidayData.ts)
+// ==========================================
+
+// Anonymous Gregorian algorithm
+const getEasterSunday = (year: number): TripDate => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatTripDate(year, month, day);
+};
+
+const nthWeekday = (year: number, month: number, weekday: number, nth: number): TripDate => {
+  if (nth > 0) {
+    const first = formatTripDate(year, month, 1);
+    return addDays(first, ((weekday - getDayOfWeek(first) + 7) % 7) + (nth - 1) * 7);
+  }
+  const last = addDays(formatTripDate(year, month + 1, 1), -1);
+  return addDays(last, -((getDayOfWeek(last) - weekday + 7) % 7));
+};
+
+const expandRule = (rule: HolidayRule, year: number): TripDate[] => {
+  if ('dates' in rule) return (rule.dates[year] || []).map(md => `${year}-${md}`);
+  if ('easterOffset' in rule) return [addDays(getEasterSunday(year), rule.easterOffset)];
+  if ('weekday' in rule) return [nthWeekday(year, rule.month, rule.weekday, rule.nth)];
+  return [formatTripDate(year, rule.month, rule.day)];
+};
+
+const isWeekend = (date: TripDate) => getDayOfWeek(date) === 0 || getDayOfWeek(date) === 6;
+
+const nextFreeDay = (date: TripDate, taken: Map<TripDate, string>, weekdaysOnly: boolean): TripDate => {
+  let next = addDays(date, 1);
+  while (taken.has(next) || (weekdaysOnly && isWeekend(next))) next = addDays(next, 1);
+  return next;
+};
+
+// All holidays of one country and year, substitutes and bridge days included
+const buildYear = (data: CountryHolidays, year: number): Map<TripDate, string> => {
+  const holidays = new Map<TripDate, string>();
+  data.rules.forEach(rule => expandRule(rule, year).forEach(date => {
+    if (!holidays.has(date)) holidays.set(date, rule.name);
+  }));
+
+  const base = Array.from(holidays.entries()).sort(([a], [b]) => a.localeCompare(b));
+  base.forEach(([date, name]) => {
+    const dayOfWeek = getDayOfWeek(date);
+    let substitute: TripDate | null = null;
+    if (data.substitute === 'sunday-next' && dayOfWeek === 0) {
+      substitute = nextFreeDay(date, holidays, false);
+    } else if (data.substitute === 'weekend-next' && isWeekend(date)) {
+      substitute = nextFreeDay(date, holidays, true);
+    } else if (data.substitute === 'weekend-nearest' && isWeekend(date)) {
+      const friday = addDays(date, -1);
+      substitute = dayOfWeek === 6 && !holidays.has(friday) ? friday : nextFreeDay(date, holidays, true);
+    }
+    if (substitute) holidays.set(substitute, `${name} (補假)`);
+  });
+
+  if (data.bridgeSandwichedDays) {
+    Array.from(holidays.keys()).forEach(date => {
+      const between = addDays(date, 1);
+      if (!holidays.has(between) && holidays.has(addDays(date, 2)) && getDayOfWeek(between) !== 0) {
+        holidays.set(between, '国民の休日');
+      }
+    });
+  }
+  return holidays;
+};
+
+export const createOfflineHolidaySource = (data: Record<string, CountryHolidays> = OFFLINE_HOLIDAY_DATA): HolidaySource => {
+  const years = new Map<string, Map<TripDate, string>>();
+  return {
+    name: 'offline',
+    getHolidays: async (country, from, to) => {
+      const rules = data[country.toUpperCase()];
+      if (!rules) return [];
+
+      const result: Holiday[] = [];
+      for (let year = parseTripDate(from).year; year <= parseTripDate(to).year; year++) {
+        const key = `${country.toUpperCase()}:${year}`;
+        if (!years.has(key)) years.set(key, buildYear(rules, year));
+        years.get(key)!.forEach((name, date) => {
+          if (date >= from && date <= to) result.push({ date, name });
+        });
+      }
+      return result.sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+};
+
+let defaultSource: HolidaySource | null = null;
+
+export const getDefaultHolidaySource = (): HolidaySource => {
+  if (!defaultSource) defaultSource = createOfflineHolidaySource();
+  return defaultSource;
+};
+
+// Holidays for every trip day, plus the day before the trip so "closed after a holiday" works on day 1.
+// A failing source only loses the holiday checks, never the trip.
+export const getTripHolidays = async (
+  country: string | undefined,
+  start: TripDate,
+  end: TripDate,
+  source: HolidaySource = getDefaultHolidaySource()
+): Promise<Holiday[]> => {
+  if (!country || countTripDays(start, end) < 1) return [];
+  try {
+    return await source.getHolidays(country, addDays(start, -1), end);
+  } catch (e) {
+    console.warn(`Holiday source "${source.name}" failed:`, e);
+    return [];
+  }
+};
@@ -0,0 +1,128 @@
+// Bundled public holiday rules for the offline HolidaySource (see holidayCalendar.ts).
+// Lunar-calendar and equinox holidays are listed per year, so coverage ends with OFFLINE_HOLIDAY_YEARS.
+
+export type HolidayRule =
+  | { name: string; month: number; day: number } // Same date every year
+  | { name: string; month: number; weekday: number; nth: number } // nth weekday of the month; nth = -1 for the last
+  | { name: string; easterOffset: number } // Days from Easter Sunday
+  | { name: string; dates: Record<number, string[]> }; // "MM-DD" per year
+
+// How a holiday that falls on a weekend is moved to a working day
+//  - 'sunday-next': Sunday -> next day that is not already a holiday (JP, HK)
+//  - 'weekend-nearest': Saturday -> Friday, Sunday -> Monday (TW, US)
+//  - 'weekend-next': Saturday or Sunday -> next weekday not already a holiday (GB)
+//  - 'none': substitutes are listed explicitly in the rules (KR)
+export type SubstitutePolicy = 'sunday-next' | 'weekend-nearest' | 'weekend-next' | 'none';
+
+export interface CountryHolidays {
+  substitute: SubstitutePolicy;
+  bridgeSandwichedDays?: boolean; // JP 国民の休日: a day between two holidays is a holiday too
+  rules: HolidayRule[];
+}
+
+export const OFFLINE_HOLIDAY_YEARS = [2025, 2026, 2027];
+
+export const OFFLINE_HOLIDAY_DATA: Record<string, CountryHolidays> = {
+  JP: {
+    substitute: 'sunday-next',
+    bridgeSandwichedDays: true,
+    rules: [
+      { name: '元日', month: 1, day: 1 },
+      { name: '成人の日', month: 1, weekday: 1, nth: 2 },
+      { name: '建国記念の日', month: 2, day: 11 },
+      { name: '天皇誕生日', month: 2, day: 23 },
+      { name: '春分の日', dates: { 2025: ['03-20'], 2026: ['03-20'], 2027: ['03-21'] } },
+      { name: '昭和の日', month: 4, day: 29 },
+      { name: '憲法記念日', month: 5, day: 3 },
+      { name: 'みどりの日', month: 5, day: 4 },
+      { name: 'こどもの日', month: 5, day: 5 },
+      { name: '海の日', month: 7, weekday: 1, nth: 3 },
+      { name: '山の日', month: 8, day: 11 },
+      { name: '敬老の日', month: 9, weekday: 1, nth: 3 },
+      { name: '秋分の日', dates: { 2025: ['09-23'], 2026: ['09-23'], 2027: ['09-23'] } },
+      { name: 'スポーツの日', month: 10, weekday: 1, nth: 2 },
+      { name: '文化の日', month: 11, day: 3 },
+      { name: '勤労感謝の日', month: 11, day: 23 },
+    ],
+  },
+  KR: {
+    substitute: 'none',
+    rules: [
+      { name: '신정', month: 1, day: 1 },
+      { name: '설날', dates: { 2025: ['01-28', '01-29', '01-30'], 2026: ['02-16', '02-17', '02-18'], 2027: ['02-06', '02-07', '02-08', '02-09'] } },
+      { name: '삼일절', month: 3, day: 1 },
+      { name: '어린이날', month: 5, day: 5 },
+      { name: '부처님오신날', dates: { 2025: ['05-05', '05-06'], 2026: ['05-24', '05-25'], 2027: ['05-13'] } },
+      { name: '현충일', month: 6, day: 6 },
+      { name: '광복절', month: 8, day: 15 },
+      { name: '추석', dates: { 2025: ['10-05', '10-06', '10-07', '10-08'], 2026: ['09-24', '09-25', '09-26'], 2027: ['09-14', '09-15', '09-16'] } },
+      { name: '개천절', month: 10, day: 3 },
+      { name: '한글날', month: 10, day: 9 },
+      { name: '기독탄신일', month: 12, day: 25 },
+      { name: '대체공휴일', dates: { 2025: ['03-03'], 2026: ['03-02', '08-17', '10-05'], 2027: ['08-16', '10-04', '10-11', '12-27'] } },
+    ],
+  },
+  TW: {
+    substitute: 'weekend-nearest',
+    rules: [
+      { name: '中華民國開國紀念日', month: 1, day: 1 },
+      { name: '農曆春節', dates: { 2025: ['01-28', '01-29', '01-30', '01-31'], 2026: ['02-16', '02-17', '02-18', '02-19'], 2027: ['02-05', '02-06', '02-07', '02-08'] } },
+      { name: '和平紀念日', month: 2, day: 28 },
+      { name: '兒童節', month: 4, day: 4 },
+      { name: '清明節', dates: { 2025: ['04-04'], 2026: ['04-05'], 2027: ['04-05'] } },
+      { name: '勞動節', month: 5, day: 1 },
+      { name: '端午節', dates: { 2025: ['05-31'], 2026: ['06-19'], 2027: ['06-09'] } },
+      { name: '中秋節', dates: { 2025: ['10-06'], 2026: ['09-25'], 2027: ['09-15'] } },
+      { name: '國慶日', month: 10, day: 10 },
+    ],
+  },
+  HK: {
+    substitute: 'sunday-next',
+    rules: [
+      { name: '一月一日', month: 1, day: 1 },
+      { name: '農曆年初一至初三', dates: { 2025: ['01-29', '01-30', '01-31'], 2026: ['02-17', '02-18', '02-19'], 2027: ['02-06', '02-07', '02-08'] } },
+      { name: '清明節', dates: { 2025: ['04-04'], 2026: ['04-05'], 2027: ['04-05'] } },
+      { name: '耶穌受難節', easterOffset: -2 },
+      { name: '耶穌受難節翌日', easterOffset: -1 },
+      { name: '復活節星期一', easterOffset: 1 },
+      { name: '勞動節', month: 5, day: 1 },
+      { name: '佛誕', dates: { 2025: ['05-05'], 2026: ['05-24'], 2027: ['05-13'] } },
+      { name: '端午節', dates: { 2025: ['05-31'], 2026: ['06-19'], 2027: ['06-09'] } },
+      { name: '香港特別行政區成立紀念日', month: 7, day: 1 },
+      { name: '中秋節翌日', dates: { 2025: ['10-07'], 2026: ['09-26'], 2027: ['09-16'] } },
+      { name: '國慶日', month: 10, day: 1 },
+      { name: '重陽節', dates: { 2025: ['10-29'], 2026: ['10-18'], 2027: ['10-08'] } },
+      { name: '聖誕節', month: 12, day: 25 },
+      { name: '聖誕節後第一個周日', month: 12, day: 26 },
+    ],
+  },
+  US: {
+    substitute: 'weekend-nearest',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+      { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+      { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+      { name: 'Juneteenth', month: 6, day: 19 },
+      { name: 'Independence Day', month: 7, day: 4 },
+      { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+      { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+      { name: 'Veterans Day', month: 11, day: 11 },
+      { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+    ],
+  },
+  GB: {
+    substitute: 'weekend-next',
+    rules: [
+      { name: "New Year's Day", month: 1, day: 1 },
+      { name: 'Good Friday', easterOffset: -2 },
+      { name: 'Easter Monday', easterOffset: 1 },
+      { name: 'Early May bank holiday', month: 5, weekday: 1, nth: 1 },
+      { name: 'Spring bank holiday', month: 5, weekday: 1, nth: -1 },
+      { name: 'Summer bank holiday', month: 8, weekday: 1, nth: -1 },
+      { name: 'Christmas Day', month: 12, day: 25 },
+      { name: 'Boxing Day', month: 12, day: 26 },
+    ],
+  },
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { validateItinerary, validateDayPlan, validateActivity, ItineraryValidationError } from './itineraryValidator';
+
+const activity = (fields: Record<string, unknown> = {}) => ({
+  time: '09:00',
+  placeName: '淺草寺',
+  description: '東京最古老的寺廟',
+  reasoning: '',
+  matchTags: ['文化'],
+  cost: 0,
+  currency: 'JPY',
+  ...fields,
+});
+
+const itinerary = (activities: unknown[]) => ({
+  tripTitle: '東京三日遊',
+  totalCostEstimate: 30000,
+  currency: 'JPY',
+  summary: '',
+  days: [{ date: '2026-11-10', dayNumber: 1, summary: '淺草', activities }],
+});
+
+describe('validateItinerary', () => {
+  it('accepts a well-formed response unchanged', () => {
+    const data = itinerary([activity()]);
+    const result = validateItinerary(data);
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual({ ...data, days: [{ ...data.days[0], activities: [{ ...activity(), isMeal: false }] }] });
+  });
+
+  it('coerces the values models commonly get almost right', () => {
+    const result = validateItinerary({ ...itinerary([activity({ time: '9:00', cost: '1,200', isMeal: 'true' })]), totalCostEstimate: ' 35000 ' });
+    expect(result.issues).toEqual([]);
+    expect(result.value.totalCostEstimate).toBe(35000);
+    expect(result.value.days[0].activities[0]).toMatchObject({ time: '09:00', cost: 1200, isMeal: true });
+  });
+
+  it('fills in defaults and drops empty optional fields', () => {
+    const result = validateItinerary(itinerary([activity({ description: undefined, matchTags: null, website: '' })]));
+    expect(result.issues).toEqual([]);
+    expect(result.value.days[0].activities[0]).toMatchObject({ description: '', matchTags: [] });
+    expect(result.value.days[0].activities[0]).not.toHaveProperty('website');
+  });
+
+  it('reports every problem with its path', () => {
+    const result = validateItinerary(itinerary([activity({ time: '25:00' }), activity({ cost: 'free', placeName: undefined })]));
+    expect(result.issues.map(i => i.path)).toEqual([
+      'days[0].activities[0].time',
+      'days[0].activities[1].placeName',
+      'days[0].activities[1].cost',
+    ]);
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(validateItinerary([]).issues).toEqual([{ path: '$', message: '應為物件' }]);
+  });
+});
+
+describe('scoped validators', () => {
+  it('validates a single day or activity of a partial regeneration', () => {
+    expect(validateDayPlan({ dayNumber: '2', activities: [activity()] }).value).toMatchObject({ dayNumber: 2, date: '', summary: '' });
+    expect(validateActivity(activity({ cost: undefined })).issues.map(i => i.path)).toEqual(['cost']);
+  });
+});
+
+describe('ItineraryValidationError', () => {
+  it('previews the first issues in its message', () => {
+    const issues = Array.from({ length: 7 }, (_, i) => ({ path: `days[${i}].dayNumber`, message: '缺少必填欄位' }));
+    const error = new ItineraryValidationError(issues);
+    expect(error.issues).toHaveLength(7);
+    expect(error.message).toContain('(7 處)');
+    expect(error.message).toContain('days[4].dayNumber');
+    expect(error.message).not.toContain('days[5].dayNumber');
+    expect(error.message.endsWith(' ...')).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { ItineraryResult, DayPlan, Activity } from "../types";
+
+// Runtime schema for the Stage 3 output. Each schema is typed against its interface,
+// so adding a field to types.ts without describing it here is a compile error.
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'string[]' | 'time' | 'array';
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  defaultValue?: unknown; // Filled in silently when the model omits the field
+  items?: ObjectSchema<any>; // For kind 'array'
+}
+
+type ObjectSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+export interface ValidationIssue {
+  path: string; // e.g. "days[2].activities[0].cost"
+  message: string;
+}
+
+export class ItineraryValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const preview = issues.slice(0, 5).map(i => `${i.path}: ${i.message}`).join('; ');
+    super(`行程資料格式錯誤 (${issues.length} 處)：${preview}${issues.length > 5 ? ' ...' : ''}`);
+    this.name = 'ItineraryValidationError';
+    this.issues = issues;
+  }
+}
+
+// costByAgeGroup is filled in by applyAgeGroupPricing after validation
+const activitySchema: ObjectSchema<Omit<Activity, 'costByAgeGroup'>> = {
+  time: { kind: 'time' },
+  placeName: { kind: 'string' },
+  description: { kind: 'string', defaultValue: '' },
+  reasoning: { kind: 'string', defaultValue: '' },
+  matchTags: { kind: 'string[]', defaultValue: [] },
+  duration: { kind: 'string', optional: true },
+  website: { kind: 'string', optional: true },
+  cost: { kind: 'number' },
+  currency: { kind: 'string', defaultValue: '' }, // Overwritten with the trip currency afterwards
+  transportMethod: { kind: 'string', optional: true },
+  transportCost: { kind: 'number', optional: true },
+  transportTimeMinutes: { kind: 'number', optional: true },
+  latitude: { kind: 'number', optional: true },
+  longitude: { kind: 'number', optional: true },
+  googleMapsUri: { kind: 'string', optional: true },
+  rating: { kind: 'string', optional: true },
+  isMeal: { kind: 'boolean', defaultValue: false },
+  isTransfer: { kind: 'boolean', optional: true }, // Set by the pipeline, not expected from the model
+  costUnknown: { kind: 'boolean', optional: true }, // Set by the pipeline (fallback itinerary), not expected from the model
+};
+
+const dayPlanSchema: ObjectSchema<DayPlan> = {
+  date: { kind: 'string', defaultValue: '' }, // Re-derived by sanitizeItineraryDates
+  dayNumber: { kind: 'number' },
+  summary: { kind: 'string', defaultValue: '' },
+  activities: { kind: 'array', items: activitySchema },
+};
+
+// planningContext / mustVisitIssues / budgetReport / transfers / dayTrips / travelerProfiles are attached by the pipeline
+// after validation, never produced by the model
+const itinerarySchema: ObjectSchema<Omit<ItineraryResult, 'planningContext' | 'mustVisitIssues' | 'budgetReport' | 'transfers' | 'dayTrips' | 'dayTripIssues' | 'travelerProfiles'>> = {
+  tripTitle: { kind: 'string' },
+  totalCostEstimate: { kind: 'number' },
+  currency: { kind: 'string', defaultValue: '' },
+  summary: { kind: 'string', defaultValue: '' },
+  days: { kind: 'array', items: dayPlanSchema },
+  exchangeRateUsed: { kind: 'number', optional: true },
+  travelers: { kind: 'number', optional: true },
+};
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+// Returns the coerced value, or undefined with an issue pushed
+const checkField = (value: any, spec: FieldSpec, path: string, issues: ValidationIssue[]): any => {
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number') return String(value);
+      issues.push({ path, message: `應為字串，收到 ${JSON.stringify(value)}` });
+      return undefined;
+
+    case 'number': {
+      if (typeof value === 'number' && isFinite(value)) return value;
+      // "1,200" / " 350 " are common model outputs; anything else is rejected
+      if (typeof value === 'string') {
+        const n = Number(value.replace(/,/g, '').trim());
+        if (value.trim() !== '' && isFinite(n)) return n;
+      }
+      issues.push({ path, message: `應為數字，收到 ${JSON.stringify(value)}` });
+      return undefined;
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push({ path, message: `應為 true/false，收到 ${JSON.stringify(value)}` });
+      return undefined;
+
+    case 'string[]':
+      if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value;
+      issues.push({ path, message: `應為字串陣列，收到 ${JSON.stringify(value)}` });
+      return undefined;
+
+    case 'time': {
+      const m = typeof value === 'string' ? value.trim().match(TIME_PATTERN) : null;
+      if (m && Number(m[1]) < 24 && Number(m[2]) < 60) return `${m[1].padStart(2, '0')}:${m[2]}`;
+      issues.push({ path, message: `應為 HH:MM 時間格式，收到 ${JSON.stringify(value)}` });
+      return undefined;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `應為陣列，收到 ${JSON.stringify(value)}` });
+        return undefined;
+      }
+      return value.map((item, i) => checkObject(item, spec.items!, `${path}[${i}]`, issues));
+  }
+};
+
+const checkObject = <T,>(value: any, schema: ObjectSchema<T>, path: string, issues: ValidationIssue[]): T => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ path: path || '$', message: '應為物件' });
+    return value;
+  }
+
+  const out: any = { ...value };
+  (Object.keys(schema) as (keyof T)[]).forEach(key => {
+    const spec = schema[key];
+    const fieldPath = path ? `${path}.${String(key)}` : String(key);
+    const raw = value[key];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (spec.defaultValue !== undefined) out[key] = spec.defaultValue;
+      else if (!spec.optional) issues.push({ path: fieldPath, message: '缺少必填欄位' });
+      else delete out[key];
+      return;
+    }
+
+    const checked = checkField(raw, spec, fieldPath, issues);
+    if (checked !== undefined) out[key] = checked;
+  });
+  return out as T;
+};
+
+export interface ValidationResult<T = ItineraryResult> {
+  value: T;
+  issues: ValidationIssue[];
+}
+
+const validateWith = <T,>(data: unknown, schema: ObjectSchema<any>): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const value = checkObject(data, schema, '', issues) as T;
+  return { value, issues };
+};
+
+// Validates and normalises (string numbers, "9:00" -> "09:00") a parsed Stage 3 response
+export const validateItinerary = (data: unknown): ValidationResult<ItineraryResult> => validateWith(data, itinerarySchema);
+
+// Scoped variants used when regenerating part of an existing trip
+export const validateDayPlan = (data: unknown): ValidationResult<DayPlan> => validateWith(data, dayPlanSchema);
+export const validateActivity = (data: unknown): ValidationResult<Activity> => validateWith(data, activitySchema);
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import { ROUTE_IMPROVEMENT_ITERATIONS, RouteOptions, optimizeRouteWithReport, rankCandidates } from './rankingEngine';
+import { walkingKm } from './transportModel';
+import { PACE_SETTINGS } from '../constants';
+import { addDays, getTripDate } from '../utils/tripDates';
+import { CandidatePlace, Hotel, UserPreferences } from '../types';
+
+const hotels: Hotel[] = [
+  { id: 'h1', name: '東京車站飯店', checkIn: '2026-11-10', checkOut: '2026-11-13', location: '東京車站', latitude: 35.6812, longitude: 139.7671 },
+];
+
+const place = (name: string, category: CandidatePlace['category'], dLat: number, dLng: number, extra: Partial<CandidatePlace> = {}): CandidatePlace => ({
+  name,
+  category,
+  rating: 4.4,
+  reviewCount: 10000,
+  priceLevel: 2,
+  latitude: 35.6812 + dLat,
+  longitude: 139.7671 + dLng,
+  description: '',
+  openingText: '09:00 - 20:00',
+  durationHours: 1.5,
+  ...extra,
+});
+
+// Fresh copies every time: the optimizer writes its schedule onto the candidates
+const candidates = (): CandidatePlace[] => [
+  place('淺草寺', 'culture', 0.033, 0.029),
+  place('東京晴空塔', 'sightseeing', 0.029, 0.044, { priceLevel: 3 }),
+  place('築地場外市場', 'food', -0.016, 0.003),
+  place('銀座', 'shopping', -0.009, -0.003),
+  place('明治神宮', 'culture', -0.005, -0.068),
+  place('東京國立博物館', 'culture', 0.037, 0.009),
+  place('上野阿美橫町', 'shopping', 0.027, 0.007),
+  place('一蘭拉麵 澀谷店', 'food', -0.022, -0.066),
+  place('澀谷 SKY', 'sightseeing', -0.023, -0.065, { priceLevel: 3 }),
+  place('新宿御苑', 'sightseeing', -0.006, -0.057),
+  place('秋葉原電器街', 'shopping', 0.017, 0.006),
+  place('豐洲千客萬來', 'food', -0.036, 0.022),
+];
+
+const prefs = (profile: string): UserPreferences => ({
+  dates: { start: '2026-11-10', end: '2026-11-13', startTime: '10:00', endTime: '18:00' },
+  travelers: 2,
+  airport: '成田機場',
+  hotels,
+  budget: { amount: 60000, currency: 'JPY' },
+  style: { pace: 'moderate', focus: 'balanced', transportPreference: 'balanced' },
+  scoring: { profile },
+});
+
+const rankedNames = (profile: string, places: CandidatePlace[]) => rankCandidates(places, prefs(profile), hotels).map(c => c.name);
+
+const plan = (options: RouteOptions = {}) =>
+  optimizeRouteWithReport(candidates(), hotels, '2026-11-10', 4, undefined, { start: '10:00', end: '18:00' }, { currency: 'JPY', ...options });
+
+// Days holding at least one real stop (empty days only get the free-exploration stand-in, which has no times)
+const plannedDays = (scheduled: CandidatePlace[]) => new Set(scheduled.filter(c => c.plannedArrival).map(c => c.suggestedDay));
+
+describe('optimizeRouteWithReport', () => {
+  it('gives the same route every time for the same input', () => {
+    const first = plan();
+    const second = plan();
+    expect(second.scheduled.map(c => [c.name, c.suggestedDay, c.plannedArrival])).toEqual(first.scheduled.map(c => [c.name, c.suggestedDay, c.plannedArrival]));
+    expect(second.improvement.after).toEqual(first.improvement.after);
+    // However long each run took
+    expect(first.improvement.iterations).toBe(ROUTE_IMPROVEMENT_ITERATIONS);
+  });
+
+  it('moves stops between days so no day is left empty', () => {
+    // The greedy pass fills the first days and runs out of places for the last one
+    const greedy = plan({ improvementIterations: 0 });
+    expect(plannedDays(greedy.scheduled).size).toBe(3);
+    expect(plannedDays(plan().scheduled).size).toBe(4);
+  });
+
+  it('reports the same metrics before and after when the pass is skipped', () => {
+    const { improvement } = plan({ improvementIterations: 0 });
+    expect(improvement.iterations).toBe(0);
+    expect(improvement.after).toEqual(improvement.before);
+    expect(improvement.before.totalKm).toBeGreaterThan(0);
+  });
+});
+
+describe('meal slots', () => {
+  const meals = { lunch: { start: '11:30', end: '13:30' }, dinner: { start: '18:00', end: '19:30' } };
+  const mealsOf = (scheduled: CandidatePlace[]) => scheduled.filter(c => c.mealSlot).map(c => [c.suggestedDay, c.mealSlot, c.name]);
+
+  it('books food places only as meals, sat down inside their window', () => {
+    const { scheduled } = plan({ meals });
+    const food = scheduled.filter(c => c.category === 'food');
+    expect(food.length).toBeGreaterThan(0);
+    food.forEach(c => {
+      const window = meals[c.mealSlot!];
+      expect(c.plannedArrival! >= window.start && c.plannedArrival! <= window.end).toBe(true);
+    });
+    expect(mealsOf(scheduled)).toContainEqual([1, 'dinner', '豐洲千客萬來']);
+  });
+
+  it('does not book a restaurant on its closing day', () => {
+    const places = candidates();
+    // 2026-11-10, the first day, is a Tuesday
+    places.find(c => c.name === '豐洲千客萬來')!.closedDays = [2];
+    const { scheduled } = optimizeRouteWithReport(places, hotels, '2026-11-10', 4, undefined, { start: '10:00', end: '18:00' }, { currency: 'JPY', meals });
+    const booked = scheduled.find(c => c.name === '豐洲千客萬來');
+    expect(booked?.suggestedDay).not.toBe(1);
+    expect(mealsOf(scheduled).filter(([day]) => day === 1)).toHaveLength(2);
+  });
+
+  it('reserves no meals unless asked to', () => {
+    expect(plan().scheduled.some(c => c.mealSlot)).toBe(false);
+  });
+});
+
+describe('city transfers', () => {
+  const tokyoToKyoto: Hotel[] = [
+    { ...hotels[0], checkOut: '2026-11-12', location: '東京' },
+    { id: 'h2', name: '京都站飯店', checkIn: '2026-11-12', checkOut: '2026-11-14', location: '京都', latitude: 34.9858, longitude: 135.7588 },
+  ];
+  const kyoto = (name: string, dLat: number, dLng: number) => place(name, 'culture', 0, 0, { latitude: 34.9858 + dLat, longitude: 135.7588 + dLng });
+  const trip = () => optimizeRouteWithReport(
+    [...candidates(), kyoto('清水寺', 0.009, 0.026), kyoto('伏見稻荷大社', -0.018, 0.013), kyoto('二條城', 0.028, -0.007), kyoto('錦市場', 0.019, 0.006)],
+    tokyoToKyoto, '2026-11-10', 4, undefined, { start: '10:00', end: '18:00' }, { currency: 'JPY' }
+  );
+
+  it('inserts a transfer block on the day the hotel changes city', () => {
+    const { transfers, scheduled } = trip();
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0]).toMatchObject({ day: 3, name: '移動：東京 → 京都', fromHotel: '東京車站飯店', toHotel: '京都站飯店', mode: 'rail' });
+    expect(transfers[0].cost).toBeGreaterThan(0);
+    expect(transfers[0].luggage).toContain('東京車站飯店');
+    const block = scheduled.find(c => c.cityTransfer);
+    expect(block).toMatchObject({ suggestedDay: 3, cityTransfer: transfers[0] });
+  });
+
+  it('visits each city while staying there, the old one before the transfer', () => {
+    const { scheduled } = trip();
+    const inKyoto = (c: CandidatePlace) => c.latitude < 35.3;
+    const stops = scheduled.filter(c => c.plannedArrival && !c.cityTransfer);
+    const transfer = scheduled.find(c => c.cityTransfer)!;
+    stops.forEach(c => {
+      const afterTransfer = c.suggestedDay! > 3 || (c.suggestedDay === 3 && c.plannedArrival! > transfer.plannedArrival!);
+      expect(inKyoto(c)).toBe(afterTransfer);
+    });
+    expect(stops.some(c => c.suggestedDay === 3 && !inKyoto(c))).toBe(true);
+    expect(stops.some(inKyoto)).toBe(true);
+  });
+});
+
+describe('day trips', () => {
+  const nikko = { destination: '日光', lat: 36.7199, lng: 139.6982 };
+  const withNikko = (closedDays?: number[]) => [
+    ...candidates(),
+    place('日光東照宮', 'culture', 0, 0, { latitude: 36.758, longitude: 139.599, closedDays }),
+    place('神橋', 'culture', 0, 0, { latitude: 36.754, longitude: 139.603, closedDays }),
+    place('華嚴瀑布', 'sightseeing', 0, 0, { latitude: 36.738, longitude: 139.502, closedDays }),
+  ];
+  const trip = (dayTrips: RouteOptions['dayTrips'], closedDays?: number[]) =>
+    optimizeRouteWithReport(withNikko(closedDays), hotels, '2026-11-10', 4, undefined, { start: '10:00', end: '18:00' }, { currency: 'JPY', dayTrips });
+
+  it('gives the destination a whole day between legs out of and back to the hotel', () => {
+    const { dayTrips, dayTripIssues, scheduled } = trip([nikko]);
+    expect(dayTripIssues).toEqual([]);
+    expect(dayTrips).toHaveLength(1);
+    const { day, outbound, back } = dayTrips[0];
+    const names = scheduled.filter(c => c.suggestedDay === day).map(c => c.name);
+    expect(names[0]).toBe(outbound.name);
+    expect(names[names.length - 1]).toBe(back.name);
+    expect(names.slice(1, -1).sort()).toEqual(['日光東照宮', '神橋', '華嚴瀑布'].sort());
+  });
+
+  it('keeps the preferred date unless the destination is closed then', () => {
+    expect(trip([{ ...nikko, date: '2026-11-12' }]).dayTrips[0]).toMatchObject({ day: 3, date: '2026-11-12' });
+    // 2026-11-11 is a Wednesday
+    const moved = trip([{ ...nikko, date: '2026-11-11' }], [3]).dayTrips[0];
+    expect(moved.requestedDate).toBe('2026-11-11');
+    expect(moved.date).not.toBe('2026-11-11');
+  });
+
+  it('reports destinations it cannot make a day trip of', () => {
+    const { dayTrips, dayTripIssues } = trip([{ destination: '淺草', lat: 35.71, lng: 139.79 }, { destination: '箱根', lat: 35.23, lng: 139.1 }]);
+    expect(dayTrips).toEqual([]);
+    expect(dayTripIssues).toEqual([{ destination: '淺草', reason: 'too_close' }, { destination: '箱根', reason: 'not_found' }]);
+  });
+});
+
+describe('closure calendars', () => {
+  const dayOf = (name: string, options: RouteOptions, closures: CandidatePlace['closures']) => {
+    const places = candidates();
+    places.find(c => c.name === '淺草寺')!.closures = closures;
+    const { scheduled } = optimizeRouteWithReport(places, hotels, '2026-11-10', 4, undefined, { start: '10:00', end: '18:00' }, { currency: 'JPY', ...options });
+    return scheduled.find(c => c.name === name)?.suggestedDay;
+  };
+
+  it('keeps places away from the dates they are closed on', () => {
+    const open = dayOf('淺草寺', {}, undefined);
+    expect(open).toBeDefined();
+    const date = getTripDate('2026-11-10', open!);
+    expect(dayOf('淺草寺', {}, { closedDates: [date] })).not.toBe(open);
+    expect(dayOf('淺草寺', { holidays: [{ date, name: '祝日' }] }, { closedOnHolidays: true })).not.toBe(open);
+    // Closed after the holiday the day before
+    const before = { date: addDays(date, -1), name: '祝日' };
+    expect(dayOf('淺草寺', { holidays: [before] }, { closedAfterHolidays: true })).not.toBe(open);
+  });
+});
+
+describe('pace', () => {
+  const stopsOn = (scheduled: CandidatePlace[], day: number) => scheduled.filter(c => c.plannedArrival && c.suggestedDay === day);
+
+  it('keeps relaxed days to their stop count, end time and walking limit', () => {
+    const { scheduled } = plan({ pace: 'relaxed' });
+    const { maxStops, endTime, maxWalkKm } = PACE_SETTINGS.relaxed;
+    [1, 2, 3, 4].forEach(day => {
+      const stops = stopsOn(scheduled, day);
+      expect(stops.length).toBeLessThanOrEqual(maxStops);
+      stops.forEach(c => expect(c.plannedDeparture! <= endTime).toBe(true));
+      expect(stops.reduce((km, c) => km + (c.transportFromPrevious ? walkingKm(c.transportFromPrevious) : 0), 0)).toBeLessThanOrEqual(maxWalkKm);
+    });
+  });
+
+  it('fits more into the trip at a faster pace', () => {
+    const count = (options: RouteOptions) => plan(options).scheduled.filter(c => c.plannedArrival).length;
+    expect(count({ pace: 'relaxed' })).toBeLessThan(count({ pace: 'moderate' }));
+  });
+
+  it('lets a single day be taken easy', () => {
+    const { scheduled } = plan({ paceByDay: { 2: 'relaxed' } });
+    expect(stopsOn(scheduled, 2).length).toBeLessThanOrEqual(PACE_SETTINGS.relaxed.maxStops);
+    expect(Math.max(...[1, 3, 4].map(day => stopsOn(scheduled, day).length))).toBeGreaterThan(PACE_SETTINGS.relaxed.maxStops);
+  });
+});
+
+describe('rankCandidates', () => {
+  // Same rating, category and distance: only the review count and price tell them apart
+  const famous = () => place('東京晴空塔', 'sightseeing', 0.01, 0.01, { reviewCount: 48000, priceLevel: 4 });
+  const quiet = () => place('小石川後樂園', 'sightseeing', 0.01, -0.01, { reviewCount: 200, priceLevel: 1 });
+
+  it('puts much-reviewed places first with the popular profile', () => {
+    expect(rankedNames('popular', [quiet(), famous()])).toEqual(['東京晴空塔', '小石川後樂園']);
+  });
+
+  it('puts cheap places first with the budget profile', () => {
+    expect(rankedNames('budget', [famous(), quiet()])).toEqual(['小石川後樂園', '東京晴空塔']);
+  });
+
+  it('weighs the review count more heavily in the popular profile than in the balanced one', () => {
+    const gap = (profile: string) => {
+      const [first, second] = rankCandidates([famous(), quiet()], prefs(profile), hotels);
+      return first.scoreBreakdown!.reviewCount - second.scoreBreakdown!.reviewCount;
+    };
+    expect(gap('popular')).toBeGreaterThan(gap('balanced'));
+  });
+
+  it('scores a free place like the cheapest one and an unknown price as neutral', () => {
+    const [free, unknown] = rankCandidates([
+      place('明治神宮', 'culture', 0.01, 0.01, { priceLevel: 0 }),
+      place('神社', 'culture', 0.01, 0.01, { priceLevel: undefined }),
+    ], prefs('budget'), hotels);
+    expect(free.name).toBe('明治神宮');
+    expect(free.scoreBreakdown!.price).toBeGreaterThan(unknown.scoreBreakdown!.price);
+  });
+});
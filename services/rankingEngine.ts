@@ -1,5 +1,11 @@
 
-import { CandidatePlace, UserPreferences, Hotel } from "../types";
+import { CandidatePlace, UserPreferences, Hotel, MustVisitIssue, RouteMetrics, RouteImprovement, MealPreferences, ScoringPreferences, ScoringWeights, ScoreBreakdown, TransportLeg, BudgetSwap, BudgetReport, TravelPace, PaceSettings, Holiday, CityTransfer, ScheduledDayTrip, DayTripIssue, TravelerProfile } from "../types";
+import { SCORING_PROFILES, PACE_SETTINGS } from "../constants";
+import { estimateMealCost, estimatePlaceCost, budgetedPlaceCost } from "../utils/costEstimates";
+import { chooseTransportLeg, chooseTransferLeg, walkingKm, TransportSettings } from "./transportModel";
+import { parseOpeningHours, getWindowsForDay, findVisitStart, formatHours, TimeWindow, WeeklyHours } from "../utils/openingHours";
+import { TripDate, getTripDate, getDayOfWeek, isWithinStay, isTripDate, timeToHours, addDays, daysBetween } from "../utils/tripDates";
+import { resolveTravelerProfiles, isSuitableForGroup, applyGroupLimits } from "../utils/travelerProfiles";
 
 const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
   const R = 6371; 
@@ -13,38 +19,99 @@ const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 };
 
-const isDateInHotelStay = (dateObj: Date, checkInStr: string, checkOutStr: string): boolean => {
-    if (!checkInStr || !checkOutStr) return false;
-    const checkIn = new Date(checkInStr);
-    const checkOut = new Date(checkOutStr);
-    checkIn.setHours(0,0,0,0);
-    checkOut.setHours(0,0,0,0);
-    dateObj.setHours(0,0,0,0);
-    return dateObj.getTime() >= checkIn.getTime() && dateObj.getTime() < checkOut.getTime();
+// Parsed once per distinct text; the route search evaluates the same places thousands of times
+const openingHoursCache = new Map<string, WeeklyHours | null>();
+
+// One trip date as seen by opening-hours checks
+interface CalendarDay {
+  date: TripDate;
+  dayOfWeek: number;
+  holiday: boolean; // Public holiday at the destination
+  afterHoliday: boolean; // First non-holiday after a public holiday
+}
+
+const toCalendarDay = (date: TripDate, holidays: Set<TripDate>): CalendarDay => ({
+  date,
+  dayOfWeek: getDayOfWeek(date),
+  holiday: holidays.has(date),
+  afterHoliday: !holidays.has(date) && holidays.has(addDays(date, -1)),
+});
+
+// Date-specific closures (ClosureCalendar) on top of the weekly closedDays
+const isClosedOnDate = (place: CandidatePlace, day: CalendarDay): boolean => {
+    const closures = place.closures;
+    if (closures) {
+        if (closures.openOnlyOn && closures.openOnlyOn.length > 0 && !closures.openOnlyOn.includes(day.date)) return true;
+        if (closures.closedDates?.includes(day.date)) return true;
+        if (closures.closedRanges?.some(r => daysBetween(r.from, day.date) >= 0 && daysBetween(day.date, r.to) >= 0)) return true;
+        if (closures.closedOnHolidays && day.holiday) return true;
+        if (closures.closedAfterHolidays && day.afterHoliday) return true;
+    }
+    if (!place.closedDays || !place.closedDays.includes(day.dayOfWeek)) return false;
+    return !(closures?.openOnHolidays && day.holiday);
 };
 
-const parseTime = (timeStr: string): number => {
-    if (!timeStr) return 9; 
-    const [h, m] = timeStr.split(':').map(Number);
-    return h + (m / 60);
+// Opening windows on a date: [] = closed (closures, closedDays or parsed hours), null = hours unknown
+const getOpeningWindows = (place: CandidatePlace, day: CalendarDay): TimeWindow[] | null => {
+    if (isClosedOnDate(place, day)) return [];
+    const text = place.openingText || '';
+    if (!openingHoursCache.has(text)) openingHoursCache.set(text, parseOpeningHours(text));
+    const windows = getWindowsForDay(openingHoursCache.get(text)!, day.dayOfWeek);
+    // "週一休館，遇假日順延": the parsed weekly closure is lifted on holidays too
+    if (windows && windows.length === 0 && place.closures?.openOnHolidays && day.holiday) {
+        return openingHoursCache.get(text)!.find(w => w && w.length > 0) || null;
+    }
+    return windows;
+};
+
+const isOpenOnDay = (place: CandidatePlace, day: CalendarDay) => {
+    const windows = getOpeningWindows(place, day);
+    return windows === null || windows.length > 0;
 };
 
+// Whether a visit of `duration` hours fits an opening window inside the usable part of a day
+const fitsOpeningHours = (place: CandidatePlace, day: CalendarDay, dayStart: number, dayEnd: number, duration: number) => {
+    const visitStart = findVisitStart(getOpeningWindows(place, day), dayStart, duration);
+    return visitStart !== null && visitStart + duration <= dayEnd + 0.5;
+};
+
+// Weights of the chosen profile, normalised to sum to 1
+export const resolveScoringWeights = (scoring?: ScoringPreferences): { profile: string, weights: ScoringWeights } => {
+  const preset = SCORING_PROFILES.find(p => p.id === scoring?.profile);
+  const profile = preset ? preset.id : (scoring?.profile === 'custom' && scoring.weights ? 'custom' : SCORING_PROFILES[0].id);
+  const raw = preset ? preset.weights : (profile === 'custom' ? scoring!.weights! : SCORING_PROFILES[0].weights);
+
+  const total = Object.values(raw).reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (total <= 0) return { profile: SCORING_PROFILES[0].id, weights: SCORING_PROFILES[0].weights };
+  const weights = { ...raw };
+  (Object.keys(weights) as (keyof ScoringWeights)[]).forEach(k => { weights[k] = Math.max(0, weights[k]) / total; });
+  return { profile, weights };
+};
+
+const REVIEW_COUNT_CAP = 50000; // Reviews beyond this add nothing
+const UNSUITABLE_PENALTY = -200; // Places the group cannot visit (see isSuitableForGroup); the optimizer drops them anyway
+
 export const rankCandidates = (
   candidates: CandidatePlace[],
   prefs: UserPreferences,
   hotels: Hotel[] 
 ): CandidatePlace[] => {
+  const { profile, weights } = resolveScoringWeights(prefs.scoring);
+  const travelers = resolveTravelerProfiles(prefs);
 
   return candidates.map(place => {
-    let score = 0;
+    // Every component is scored 0-100, then weighted
     const rating = place.rating || 4.0;
-    score += (rating / 5) * 100 * 0.3;
+    const ratingScore = (rating / 5) * 100;
 
     let matchScore = 50; 
     if (prefs.style.focus === 'balanced') matchScore = 80;
     else if (prefs.style.focus === place.category) matchScore = 100;
     else if (place.category === 'sightseeing') matchScore = 70;
-    score += matchScore * 0.4;
+
+    const reviewScore = Math.min(100, (Math.log10((place.reviewCount || 0) + 1) / Math.log10(REVIEW_COUNT_CAP)) * 100);
+    // Free places (level 0) score like the cheapest; an unknown price is neutral
+    const priceScore = place.priceLevel !== undefined ? ((4 - Math.min(Math.max(place.priceLevel, 1), 4)) / 3) * 100 : 50;
 
     let minDistance = Infinity;
     hotels.forEach(h => {
@@ -54,69 +121,510 @@ export const rankCandidates = (
         }
     });
 
+    let distanceScore = 0;
+    let penalty = 0;
     if (minDistance !== Infinity) {
         place.distanceFromHotel = parseFloat(minDistance.toFixed(2));
-        if (minDistance > 100) score -= 200; 
-        else score += Math.max(0, (1 - minDistance / 30) * 100) * 0.2;
+        if (minDistance > 100) penalty = -200; 
+        else distanceScore = Math.max(0, (1 - minDistance / 30) * 100);
     } else {
-        score -= 50; 
+        penalty = -50; 
     }
-    place.score = parseFloat(score.toFixed(1));
+    if (!isSuitableForGroup(place, travelers)) penalty += UNSUITABLE_PENALTY;
+
+    const round = (n: number) => parseFloat(n.toFixed(1));
+    const breakdown: ScoreBreakdown = {
+        profile,
+        rating: round(ratingScore * weights.rating),
+        categoryMatch: round(matchScore * weights.categoryMatch),
+        distance: round(distanceScore * weights.distance),
+        reviewCount: round(reviewScore * weights.reviewCount),
+        price: round(priceScore * weights.price),
+        penalty,
+    };
+    place.scoreBreakdown = breakdown;
+    place.score = round(breakdown.rating + breakdown.categoryMatch + breakdown.distance + breakdown.reviewCount + breakdown.price + penalty);
     return place;
   }).sort((a, b) => (b.score || 0) - (a.score || 0));
 };
 
-export const optimizeRoute = (
+const findActiveHotel = (hotels: Hotel[], currentDate: TripDate): Hotel => {
+    let activeHotel = hotels.find(h => isWithinStay(currentDate, h.checkIn, h.checkOut));
+    if (!activeHotel) {
+        // Check-out day: still based at the hotel just left
+        activeHotel = hotels.find(h => h.checkOut === currentDate);
+        if (!activeHotel) activeHotel = hotels[hotels.length - 1];
+    }
+    return activeHotel;
+};
+
+interface RouteContext {
+  hotels: Hotel[];
+  startDate: TripDate;
+  totalDays: number;
+  airportCoords?: { lat: number, lng: number };
+  arrivalTime: number;
+  departureTime: number;
+  requiredByDay: Map<number, CandidatePlace[]>; // Must-visit places fixed to a day
+  reserved: Set<CandidatePlace>; // Every must-visit place, so other days never take them
+  placeholders: Set<CandidatePlace>; // Travel / free-exploration stand-ins created by scheduleDay
+  meals: ResolvedMeal[];
+  mealStops: Map<CandidatePlace, ResolvedMeal>; // Food places booked as a meal, and for which slot
+  currency: string;
+  transport: TransportSettings;
+  budget?: number; // Per-person spend allowed for the days being planned; 0 when RouteOptions.budgetExhausted
+  pace: TravelPace;
+  paceByDay: Record<number, TravelPace>;
+  holidays: Set<TripDate>;
+  transfers: Map<number, TransferPlan>; // City changes by day
+  dayTrips: Map<number, DayTripPlan>; // Reserved day-trip days
+  dayTripPlaces: Set<CandidatePlace>; // Places around any day-trip destination, kept off the other days
+  fixedLegs: Map<CandidatePlace, FixedLeg>; // Transfer / day-trip blocks held in the day's stops
+  travelers: TravelerProfile[]; // Tightens each day's pace and rules out unsuitable places
+}
+
+interface ResolvedMeal {
+  slot: 'lunch' | 'dinner';
+  start: number; // decimal hours; latest sit-down time is `end`
+  end: number;
+}
+
+const MEAL_HOURS = 1; // Time reserved for a meal during the greedy pass
+
+// A long leg held as a fixed block among a day's stops: it starts at `fromCoords` and leaves the
+// traveller at `toCoords`. Never moved, swapped or dropped by the local search.
+interface FixedLeg {
+  fromCoords: { lat: number, lng: number };
+  toCoords: { lat: number, lng: number };
+  leg: ReturnType<typeof chooseTransferLeg>;
+  window: TimeWindow; // When the block may run
+  duration: number;
+  stop: CandidatePlace;
+}
+
+// A city change between consecutive hotels. The block starts at the old hotel (luggage pickup)
+// and ends at the new one.
+interface TransferPlan extends FixedLeg {
+  day: number;
+  from: Hotel;
+  to: Hotel;
+  blockStart: number; // Target time (decimal hours) to be back at the old hotel
+}
+
+// A whole day at a destination away from the hotel, framed by an outbound and a return leg
+interface DayTripPlan {
+  day: number;
+  destination: string;
+  coords: { lat: number, lng: number };
+  requestedDate?: TripDate; // Only when another day was chosen
+  places: CandidatePlace[];
+  outbound: FixedLeg;
+  back: FixedLeg;
+}
+
+const CITY_CHANGE_KM = 30; // Hotels further apart than this are in different cities
+const LUGGAGE_HOURS = 0.25; // Each end of a transfer: collecting / dropping off bags
+const TRANSFER_SLACK_HOURS = 1; // How late the transfer may leave before it counts as missed
+const DAY_TRIP_RADIUS = 20; // km around a day-trip destination that belong to the trip
+const DAY_TRIP_MIN_HOURS = 3; // Time at the destination that makes the journey worth it
+const DAY_TRIP_KEY_PLACES = 3; // Top-scored places at the destination that should be open on the chosen day
+
+// A UserPreferences.dayTrips entry with its geocoded destination
+export interface DayTripRequest {
+  destination: string;
+  lat: number;
+  lng: number;
+  date?: TripDate; // Preferred day; omitted = flexible
+}
+
+export interface RouteOptions {
+  mustVisit?: string[]; // Names scheduled as hard constraints
+  improvementIterations?: number; // Moves tried by the local-search pass; 0 skips it
+  meals?: MealPreferences; // Lunch / dinner windows to fill with food places; omitted = none
+  currency?: string; // Trip currency for meal cost estimates
+  transport?: TransportSettings; // Mode choice per leg; defaults to 'balanced' for one traveller
+  budgetPerPerson?: number; // Spend cap in `currency` for attractions, meals and transport; omitted = unconstrained
+  budgetExhausted?: boolean; // Nothing of the budget is left: every stop takes its cheapest option, but none is dropped
+  pace?: TravelPace; // Daily load (see PACE_SETTINGS); defaults to 'moderate'
+  paceByDay?: Record<number, TravelPace>; // Overrides `pace` for single days
+  holidays?: Holiday[]; // Destination public holidays (see holidayCalendar), checked against ClosureCalendar
+  dayTrips?: DayTripRequest[]; // Each gets a whole day at its destination (see planDayTrips)
+  travelerProfiles?: TravelerProfile[]; // Group make-up; omitted = adults without mobility needs
+}
+
+// Date, hotel, pace limits and usable hours (decimal) of one trip day
+const getDayInfo = (dayNum: number, ctx: RouteContext) => {
+    const date = getTripDate(ctx.startDate, dayNum);
+    const pace = applyGroupLimits(PACE_SETTINGS[ctx.paceByDay[dayNum] || ctx.pace], ctx.travelers);
+
+    let start = 9.0;
+    let end = timeToHours(pace.endTime);
+    // STRICT Time Constraints
+    if (dayNum === 1) {
+        // Arrival + 2.5 hours buffer
+        start = Math.max(ctx.arrivalTime + 2.5, 9.0);
+    }
+    if (dayNum === ctx.totalDays) {
+        // Departure - 3.5 hours buffer
+        end = Math.min(ctx.departureTime - 3.5, end);
+    }
+
+    return { date, calendar: toCalendarDay(date, ctx.holidays), hotel: findActiveHotel(ctx.hotels, date), start, end, pace, transfer: ctx.transfers.get(dayNum), dayTrip: ctx.dayTrips.get(dayNum) };
+};
+
+// Finds every hotel change that moves to another city and plans its transfer block. Sightseeing time is
+// split evenly around the block: the morning near the old hotel, the afternoon near the new one.
+const planCityTransfers = (ctx: RouteContext) => {
+  const hotels = ctx.hotels
+    .filter(h => isTripDate(h.checkIn) && h.latitude && h.longitude)
+    .sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+
+  for (let i = 1; i < hotels.length; i++) {
+    const from = hotels[i - 1];
+    const to = hotels[i];
+    const fromCoords = { lat: from.latitude!, lng: from.longitude! };
+    const toCoords = { lat: to.latitude!, lng: to.longitude! };
+    const km = calculateDistance(fromCoords.lat, fromCoords.lng, toCoords.lat, toCoords.lng);
+    const day = daysBetween(ctx.startDate, to.checkIn) + 1;
+    if (km <= CITY_CHANGE_KM || day < 2 || day > ctx.totalDays) continue;
+
+    const { start, end } = getDayInfo(day, ctx);
+    if (end - start < 2.0) continue; // Travel day (flight home), no room for a transfer block
+    const leg = chooseTransferLeg(km, ctx.transport);
+    const duration = leg.hours + 2 * LUGGAGE_HOURS;
+    const free = end - start - duration;
+    const sameCity = !from.location || !to.location || from.location === to.location;
+
+    const stop: CandidatePlace = {
+      name: `移動：${sameCity ? from.name : from.location} → ${sameCity ? to.name : to.location}`,
+      category: 'other',
+      rating: 0,
+      reviewCount: 0,
+      priceLevel: 0,
+      latitude: fromCoords.lat,
+      longitude: fromCoords.lng,
+      description: `${leg.label}，${from.name} → ${to.name}`,
+      suggestedDay: day,
+      matchReason: `Day ${day} 更換住宿城市`,
+      openingText: "",
+      durationHours: duration,
+    };
+    const blockStart = free > 0 ? start + Math.round(free) / 2 : start; // Half-hour steps
+    const plan: TransferPlan = {
+      day, from, to, fromCoords, toCoords, leg, duration, stop, blockStart,
+      window: { open: blockStart, close: blockStart + duration + TRANSFER_SLACK_HOURS },
+    };
+    ctx.transfers.set(day, plan);
+    ctx.fixedLegs.set(stop, plan);
+  }
+};
+
+// Writes the public CityTransfer onto the block, from its planned time and its position among the day's stops
+const stampTransfer = (plan: TransferPlan, dayStops: CandidatePlace[]) => {
+  const blockStart = timeToHours(plan.stop.plannedArrival, plan.blockStart);
+  const index = dayStops.indexOf(plan.stop);
+  const before = index > 0;
+  const after = index !== -1 && index < dayStops.length - 1;
+  const depart = blockStart + LUGGAGE_HOURS;
+
+  plan.stop.cityTransfer = {
+    day: plan.day,
+    name: plan.stop.name,
+    fromHotel: plan.from.name,
+    toHotel: plan.to.name,
+    fromLocation: plan.from.location,
+    toLocation: plan.to.location,
+    from: plan.fromCoords,
+    to: plan.toCoords,
+    mode: plan.leg.mode,
+    label: plan.leg.label,
+    km: plan.leg.km,
+    hours: parseFloat(plan.leg.hours.toFixed(2)),
+    cost: plan.leg.cost,
+    depart: formatHours(depart),
+    arrive: formatHours(depart + plan.leg.hours),
+    luggage: [
+      before ? `早上退房後將行李寄放在「${plan.from.name}」櫃台，${formatHours(blockStart)} 回飯店領取` : '退房後直接攜帶行李出發',
+      after ? `抵達後先到「${plan.to.name}」寄放行李或辦理入住，再開始下午行程` : '抵達後辦理入住',
+    ].join('；'),
+  };
+};
+
+// Reserves a day for each requested day trip, framed by legs from that day's hotel to the destination and back.
+// Places within DAY_TRIP_RADIUS of the destination are kept for that day only. The preferred date is kept while
+// the destination's key places are open; otherwise the day with the most of them open wins.
+const planDayTrips = (
   candidates: CandidatePlace[],
+  requests: DayTripRequest[],
+  ctx: RouteContext,
+  onlyDay?: number // Single-day re-planning: the trip may only take this day
+): DayTripIssue[] => {
+  const issues: DayTripIssue[] = [];
+  const middle = (ctx.totalDays + 1) / 2;
+  const isEdgeDay = (day: number) => day === 1 || day === ctx.totalDays;
+
+  requests.forEach(request => {
+    const coords = { lat: request.lat, lng: request.lng };
+    const places = candidates.filter(c =>
+      !ctx.dayTripPlaces.has(c) && calculateDistance(coords.lat, coords.lng, c.latitude, c.longitude) <= DAY_TRIP_RADIUS);
+    if (places.length === 0) {
+      issues.push({ destination: request.destination, reason: 'not_found' });
+      return;
+    }
+    const keyPlaces = [...places].sort((a, b) => (b.score || 0) - (a.score || 0)).slice(0, DAY_TRIP_KEY_PLACES);
+
+    const days = Array.from({ length: ctx.totalDays }, (_, i) => i + 1)
+      .filter(day => (onlyDay === undefined || day === onlyDay) && !ctx.transfers.has(day) && !ctx.dayTrips.has(day))
+      .map(day => {
+        const info = getDayInfo(day, ctx);
+        const hotelCoords = { lat: info.hotel?.latitude || 0, lng: info.hotel?.longitude || 0 };
+        return { day, info, hotelCoords, km: calculateDistance(hotelCoords.lat, hotelCoords.lng, coords.lat, coords.lng) };
+      });
+    // Within the hotel's own area the places are visited on ordinary days
+    const away = days.filter(d => d.km > CITY_CHANGE_KM);
+    if (days.length > 0 && away.length === 0) {
+      issues.push({ destination: request.destination, reason: 'too_close' });
+      return;
+    }
+    const options = away
+      .map(d => ({ ...d, leg: chooseTransferLeg(d.km, ctx.transport), open: keyPlaces.filter(p => isOpenOnDay(p, d.info.calendar)).length }))
+      .filter(o => o.info.end - o.info.start >= 2 * o.leg.hours + DAY_TRIP_MIN_HOURS);
+    if (options.length === 0) {
+      issues.push({ destination: request.destination, reason: 'no_day' });
+      return;
+    }
+    const mostOpen = Math.max(...options.map(o => o.open));
+    if (mostOpen === 0) {
+      issues.push({ destination: request.destination, reason: 'closed' });
+      return;
+    }
+
+    const requestedDay = request.date && isTripDate(request.date) ? daysBetween(ctx.startDate, request.date) + 1 : undefined;
+    // Otherwise: most key places open, then not an arrival / departure day, then the shorter journey, then mid-trip
+    const chosen = options.find(o => o.day === requestedDay && o.open === mostOpen) || [...options].sort((a, b) =>
+      b.open - a.open ||
+      Number(isEdgeDay(a.day)) - Number(isEdgeDay(b.day)) ||
+      a.leg.hours - b.leg.hours ||
+      Math.abs(a.day - middle) - Math.abs(b.day - middle)
+    )[0];
+
+    const { day, info, hotelCoords, leg } = chosen;
+    const toStop = (name: string, at: { lat: number, lng: number }, description: string): CandidatePlace => ({
+      name,
+      category: 'other',
+      rating: 0,
+      reviewCount: 0,
+      priceLevel: 0,
+      latitude: at.lat,
+      longitude: at.lng,
+      description,
+      suggestedDay: day,
+      matchReason: `Day ${day} 一日遊`,
+      openingText: "",
+      durationHours: leg.hours,
+    });
+    const outbound: FixedLeg = {
+      fromCoords: hotelCoords, toCoords: coords, leg, duration: leg.hours,
+      window: { open: info.start, close: info.start + leg.hours + TRANSFER_SLACK_HOURS },
+      stop: toStop(`前往${request.destination} (一日遊)`, hotelCoords, `${leg.label}，${info.hotel.name} → ${request.destination}`),
+    };
+    const back: FixedLeg = {
+      fromCoords: coords, toCoords: hotelCoords, leg, duration: leg.hours,
+      window: { open: info.start + leg.hours, close: info.end + TRANSFER_SLACK_HOURS },
+      stop: toStop(`返回${info.hotel.name}`, coords, `${leg.label}，${request.destination} → ${info.hotel.name}`),
+    };
+
+    ctx.dayTrips.set(day, {
+      day, destination: request.destination, coords, places, outbound, back,
+      ...(request.date && day !== requestedDay ? { requestedDate: request.date } : {}),
+    });
+    ctx.fixedLegs.set(outbound.stop, outbound);
+    ctx.fixedLegs.set(back.stop, back);
+    places.forEach(p => ctx.dayTripPlaces.add(p));
+  });
+
+  return issues;
+};
+
+// Writes the public ScheduledDayTrip onto both legs, from their planned times
+const stampDayTrip = (plan: DayTripPlan, ctx: RouteContext) => {
+  const toLeg = (fixed: FixedLeg) => {
+    const depart = timeToHours(fixed.stop.plannedArrival, fixed.window.open);
+    return { name: fixed.stop.name, depart: formatHours(depart), arrive: formatHours(depart + fixed.duration) };
+  };
+  const trip: ScheduledDayTrip = {
+    destination: plan.destination,
+    day: plan.day,
+    date: getTripDate(ctx.startDate, plan.day),
+    ...(plan.requestedDate ? { requestedDate: plan.requestedDate } : {}),
+    from: plan.outbound.fromCoords,
+    to: plan.coords,
+    mode: plan.outbound.leg.mode,
+    label: plan.outbound.leg.label,
+    hours: parseFloat(plan.outbound.leg.hours.toFixed(2)),
+    cost: plan.outbound.leg.cost,
+    outbound: toLeg(plan.outbound),
+    back: toLeg(plan.back),
+  };
+  plan.outbound.stop.dayTrip = trip;
+  plan.back.stop.dayTrip = trip;
+};
+
+// Day-trip places only belong on their trip's day, and a day-trip day takes nothing else
+const belongsToDay = (place: CandidatePlace, dayNum: number, ctx: RouteContext) => {
+  const dayTrip = ctx.dayTrips.get(dayNum);
+  return dayTrip ? dayTrip.places.includes(place) : !ctx.dayTripPlaces.has(place);
+};
+
+const buildRouteContext = (
   hotels: Hotel[],
   startDateStr: string,
   totalDays: number,
   airportCoords?: { lat: number, lng: number },
-  flightTimes?: { start: string, end: string }
-): CandidatePlace[] => {
-  const finalOrderedList: CandidatePlace[] = [];
-  const unvisited = [...candidates];
-  const startDate = new Date(startDateStr);
-  startDate.setHours(0,0,0,0);
+  flightTimes?: { start: string, end: string },
+  options: RouteOptions = {}
+): RouteContext => {
+  const meals: ResolvedMeal[] = [];
+  (['lunch', 'dinner'] as const).forEach(slot => {
+    const window = options.meals?.[slot];
+    if (window) meals.push({ slot, start: timeToHours(window.start), end: timeToHours(window.end) });
+  });
 
-  const arrivalTime = flightTimes ? parseTime(flightTimes.start) : 10;
-  const departureTime = flightTimes ? parseTime(flightTimes.end) : 18;
-  const defaultDuration = 1.5; 
+  const ctx: RouteContext = {
+    hotels,
+    startDate: startDateStr,
+    totalDays,
+    airportCoords,
+    arrivalTime: flightTimes ? timeToHours(flightTimes.start) : 10,
+    departureTime: flightTimes ? timeToHours(flightTimes.end) : 18,
+    requiredByDay: new Map(),
+    reserved: new Set(),
+    placeholders: new Set(),
+    meals,
+    mealStops: new Map(),
+    currency: options.currency || 'USD',
+    transport: options.transport || { preference: 'balanced', travelers: 1, currency: options.currency || 'USD' },
+    budget: options.budgetExhausted ? 0 : options.budgetPerPerson && options.budgetPerPerson > 0 ? options.budgetPerPerson : undefined,
+    pace: options.pace || 'moderate',
+    paceByDay: options.paceByDay || {},
+    holidays: new Set((options.holidays || []).map(h => h.date)),
+    transfers: new Map(),
+    dayTrips: new Map(),
+    dayTripPlaces: new Set(),
+    fixedLegs: new Map(),
+    travelers: resolveTravelerProfiles({ travelers: options.transport?.travelers || 1, travelerProfiles: options.travelerProfiles }),
+  };
+  planCityTransfers(ctx);
+  return ctx;
+};
 
-  for (let dayNum = 1; dayNum <= totalDays; dayNum++) {
-    const currentDate = new Date(startDate);
-    currentDate.setDate(startDate.getDate() + (dayNum - 1));
-    const currentDayOfWeek = currentDate.getDay();
+const MUST_VISIT_RADIUS = 100; // km from that day's hotel
 
-    let activeHotel = hotels.find(h => isDateInHotelStay(currentDate, h.checkIn, h.checkOut));
-    if (!activeHotel) {
-        activeHotel = hotels.find(h => {
-            const out = new Date(h.checkOut);
-            out.setHours(0,0,0,0);
-            return out.getTime() === currentDate.getTime();
-        });
-        if (!activeHotel) activeHotel = hotels[hotels.length - 1];
+const normalizePlaceName = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+
+// Loose match between a candidate and a user-typed name ("晴空塔" matches "東京晴空塔")
+export const matchesPlaceName = (candidate: string, wanted: string) => {
+  const a = normalizePlaceName(candidate);
+  const b = normalizePlaceName(wanted);
+  return !!a && !!b && (a.includes(b) || b.includes(a));
+};
+
+// Transport leg between two points for this trip's preference / group size
+const legBetween = (
+  from: { lat: number, lng: number },
+  to: { lat: number, lng: number },
+  ctx: RouteContext,
+  walkAllowanceKm = Infinity
+): TransportLeg => chooseTransportLeg(calculateDistance(from.lat, from.lng, to.lat, to.lng), ctx.transport, walkAllowanceKm);
+
+// Rough door-to-door estimate used for feasibility checks (same transport model as the greedy loop)
+const estimateRoundTripHours = (hotel: Hotel, place: CandidatePlace, ctx: RouteContext) => {
+  if (!hotel.latitude || !hotel.longitude) return 1;
+  return 2 * legBetween({ lat: hotel.latitude, lng: hotel.longitude }, { lat: place.latitude, lng: place.longitude }, ctx).hours;
+};
+
+// Fixes every must-visit place to a feasible day before the greedy pass runs.
+// A day is feasible when the place is open, within MUST_VISIT_RADIUS of the hotel and the day still has time.
+// `unsuitable` are the candidates filtered out for the group, so those names get a clearer reason than not_found.
+const planMustVisits = (candidates: CandidatePlace[], mustVisit: string[], ctx: RouteContext, unsuitable: CandidatePlace[] = []): MustVisitIssue[] => {
+  const issues: MustVisitIssue[] = [];
+  const days = Array.from({ length: ctx.totalDays }, (_, i) => ({ dayNum: i + 1, ...getDayInfo(i + 1, ctx) }));
+  const bookedHours: Record<number, number> = {};
+
+  mustVisit.forEach(wanted => {
+    const place = candidates.find(c => !ctx.reserved.has(c) && matchesPlaceName(c.name, wanted));
+    if (!place) {
+      const excluded = unsuitable.find(c => matchesPlaceName(c.name, wanted));
+      issues.push(excluded ? { name: excluded.name, reason: 'unsuitable' } : { name: wanted, reason: 'not_found' });
+      return;
     }
 
-    let currentTime = 9.0;
-    let maxTime = 20.0; 
+    const openDays = days.filter(d => isOpenOnDay(place, d.calendar));
+    if (openDays.length === 0) {
+      issues.push({ name: place.name, reason: 'closed' });
+      return;
+    }
 
-    // STRICT Time Constraints
-    if (dayNum === 1) {
-        // Arrival + 2.5 hours buffer
-        currentTime = Math.max(arrivalTime + 2.5, 9.0);
+    // On a day-trip day the traveller is at the destination, not the hotel
+    const reachable = openDays
+      .filter(d => belongsToDay(place, d.dayNum, ctx))
+      .map(d => ({
+        ...d,
+        dist: d.dayTrip
+          ? calculateDistance(d.dayTrip.coords.lat, d.dayTrip.coords.lng, place.latitude, place.longitude)
+          : d.hotel?.latitude && d.hotel?.longitude
+            ? calculateDistance(d.hotel.latitude, d.hotel.longitude, place.latitude, place.longitude)
+            : 0,
+      }))
+      .filter(d => d.dist <= MUST_VISIT_RADIUS);
+    if (reachable.length === 0) {
+      issues.push({ name: place.name, reason: 'too_far' });
+      return;
     }
-    if (dayNum === totalDays) {
-        // Departure - 3.5 hours buffer
-        maxTime = Math.min(departureTime - 3.5, 20.0);
+
+    const needed = (place.durationHours || 1.5);
+    const travelHours = (d: typeof reachable[number]) => d.dayTrip ? 2 * d.dayTrip.outbound.duration : estimateRoundTripHours(d.hotel, place, ctx);
+    const fitting = reachable.filter(d =>
+      (bookedHours[d.dayNum] || 0) + needed + travelHours(d) <= d.end - d.start &&
+      fitsOpeningHours(place, d.calendar, d.start, d.end, needed)
+    );
+    if (fitting.length === 0) {
+      issues.push({ name: place.name, reason: 'no_time' });
+      return;
     }
 
+    // Closest hotel wins; already-loaded days are penalised so must-visits spread out
+    fitting.sort((a, b) => (a.dist + (bookedHours[a.dayNum] || 0) * 5) - (b.dist + (bookedHours[b.dayNum] || 0) * 5));
+    const chosen = fitting[0];
+    bookedHours[chosen.dayNum] = (bookedHours[chosen.dayNum] || 0) + needed + travelHours(chosen) / (chosen.dayTrip ? 1 : 2);
+    place.pinned = true;
+    ctx.reserved.add(place);
+    ctx.requiredByDay.set(chosen.dayNum, [...(ctx.requiredByDay.get(chosen.dayNum) || []), place]);
+  });
+
+  return issues;
+};
+
+// Schedules a single day. Chosen places are removed from `unvisited`.
+const scheduleDay = (dayNum: number, unvisited: CandidatePlace[], ctx: RouteContext): CandidatePlace[] => {
+    const { airportCoords } = ctx;
+    const finalOrderedList: CandidatePlace[] = [];
+    const defaultDuration = 1.5;
+
+    const { calendar, hotel: activeHotel, start, end, pace, transfer, dayTrip } = getDayInfo(dayNum, ctx);
+    let currentTime = start;
+    // Day trip: sightseeing ends in time for the return leg
+    const maxTime = dayTrip ? end - dayTrip.back.duration : end;
+
+    const required = ctx.requiredByDay.get(dayNum) || [];
+    let requiredHoursLeft = required.reduce((sum, p) => sum + (p.durationHours || defaultDuration), 0);
+
     // Identify if this is purely a travel day (little time left)
     const availableHours = maxTime - currentTime;
     
     if (availableHours < 2.0) {
          // Create a strict placeholder so prompt knows this is a travel day
-         finalOrderedList.push({
+         const travelPlaceholder: CandidatePlace = {
              name: dayNum === 1 ? "抵達、辦理入境與前往飯店" : "前往機場、辦理登機",
              category: 'other',
              rating: 0,
@@ -129,19 +637,25 @@ export const optimizeRoute = (
              matchReason: "時間緊迫，純移動行程",
              openingText: "",
              durationHours: 0
-         });
-         // Force continue to next day
-         continue;
+         };
+         ctx.placeholders.add(travelPlaceholder);
+         finalOrderedList.push(travelPlaceholder);
+         return finalOrderedList;
     }
 
-    let currentLoc = { lat: activeHotel.latitude || 0, lng: activeHotel.longitude || 0 };
+    let currentLoc = transfer ? transfer.fromCoords : { lat: activeHotel.latitude || 0, lng: activeHotel.longitude || 0 };
     if (dayNum === 1 && airportCoords && airportCoords.lat !== 0) {
         currentLoc = airportCoords;
     }
 
     const MAX_RADIUS = 30; // km
     const todaysCandidates = unvisited.filter(p => {
-        if (p.closedDays && p.closedDays.includes(currentDayOfWeek)) return false;
+        // Must-visit places only appear on the day they were fixed to (already checked for feasibility)
+        if (ctx.reserved.has(p)) return required.includes(p);
+        if (!belongsToDay(p, dayNum, ctx)) return false;
+        // With meal slots on, food places are only booked as meals (see placeMeals)
+        if (ctx.meals.length > 0 && p.category === 'food') return false;
+        if (!isOpenOnDay(p, calendar)) return false;
         
         let dist = 999;
         if (activeHotel.latitude && activeHotel.longitude && p.latitude && p.longitude) {
@@ -152,59 +666,175 @@ export const optimizeRoute = (
              const distAirport = calculateDistance(airportCoords.lat, airportCoords.lng, p.latitude, p.longitude);
              if (distAirport < 20) dist = distAirport; 
         }
+        // City-change day: places around the hotel being left are visited before the transfer
+        if (transfer) {
+             dist = Math.min(dist, calculateDistance(transfer.fromCoords.lat, transfer.fromCoords.lng, p.latitude, p.longitude));
+        }
+        if (dayTrip) {
+             dist = calculateDistance(dayTrip.coords.lat, dayTrip.coords.lng, p.latitude, p.longitude);
+        }
 
         p.distanceFromHotel = parseFloat(dist.toFixed(1));
-        const effectiveRadius = unvisited.length < 10 ? 100 : MAX_RADIUS;
+        const effectiveRadius = dayTrip ? DAY_TRIP_RADIUS : unvisited.length < 10 ? 100 : MAX_RADIUS;
         return dist <= effectiveRadius;
     });
 
+    const MAX_WAIT = 1.5; // hours we are willing to idle until a place opens
+    const WAIT_PENALTY = 5; // km-equivalent per hour of waiting
+
+    // Time is held for each meal window inside today's hours; placeMeals books the actual restaurant
+    const pendingMeals = ctx.meals.filter(m => m.end > currentTime && m.start < maxTime);
+
+    // Pace: must-visits always go in, but count towards the day's stop limit
+    const optionalLimit = Math.max(pace.maxStops - required.length, 0);
+    const restHours = pace.restMinutes / 60;
+    let optionalAdded = 0;
+    let walkedKm = 0;
+
     let spotsAdded = 0;
+    let transferPending = !!transfer;
+    // Which side of the transfer a place belongs to: the hotel it is closer to
+    const isAroundOldHotel = (p: CandidatePlace) => !!transfer &&
+        calculateDistance(transfer.fromCoords.lat, transfer.fromCoords.lng, p.latitude, p.longitude) <
+        calculateDistance(transfer.toCoords.lat, transfer.toCoords.lng, p.latitude, p.longitude);
+    // Gets to the start of a fixed leg (not before `earliest`) and rides it to its end
+    const takeFixedLeg = (fixed: FixedLeg, earliest: number) => {
+        const access = legBetween(currentLoc, fixed.fromCoords, ctx);
+        const blockStart = Math.max(currentTime + access.hours, earliest);
+        fixed.stop.suggestedDay = dayNum;
+        fixed.stop.plannedArrival = formatHours(blockStart);
+        fixed.stop.plannedDeparture = formatHours(blockStart + fixed.duration);
+        fixed.stop.transportFromPrevious = access;
+        fixed.stop.estimatedCost = fixed.leg.cost;
+        finalOrderedList.push(fixed.stop);
+        currentTime = blockStart + fixed.duration;
+        currentLoc = fixed.toCoords;
+        spotsAdded++;
+    };
+    // Back to the old hotel for the luggage, then on to the new city
+    const takeTransfer = (plan: TransferPlan) => {
+        takeFixedLeg(plan, plan.blockStart);
+        transferPending = false;
+    };
+    if (dayTrip) takeFixedLeg(dayTrip.outbound, start);
     // Greedy Loop
     while (currentTime < maxTime && todaysCandidates.length > 0) {
+         while (pendingMeals.length > 0 && currentTime > pendingMeals[0].end) pendingMeals.shift();
+         const meal = pendingMeals[0];
+         if (meal && currentTime >= meal.start - 0.5) {
+             currentTime = Math.max(currentTime, meal.start) + MEAL_HOURS;
+             pendingMeals.shift();
+             continue;
+         }
+
          let bestIdx = -1;
          let minDist = Infinity;
+         let bestStart = 0;
+         let bestLeg: TransportLeg | null = null;
+         let earliestDeferred = Infinity; // leave-time that would reach a deferred place right at MAX_WAIT
 
          for (let i=0; i < todaysCandidates.length; i++) {
              const cand = todaysCandidates[i];
+             if (optionalAdded >= optionalLimit && !required.includes(cand)) continue;
+             if (transfer && isAroundOldHotel(cand) !== transferPending) continue;
              const d = calculateDistance(currentLoc.lat, currentLoc.lng, cand.latitude, cand.longitude);
-             const weight = d - ((cand.score || 0) / 20);
+             const leg = chooseTransportLeg(d, ctx.transport, pace.maxWalkKm - walkedKm);
+             const travel = leg.hours;
+             const duration = cand.durationHours || defaultDuration;
+
+             // Time-window constraint: drop places that can no longer fit today, defer ones that open much later
+             const visitStart = findVisitStart(getOpeningWindows(cand, calendar), currentTime + travel, duration);
+             if (visitStart === null) {
+                 todaysCandidates.splice(i--, 1);
+                 continue;
+             }
+             // Would run past the latest sit-down time of a meal not yet taken
+             if (meal && visitStart + duration > meal.end) continue;
+             // Must be back at the old hotel by the time the transfer block starts
+             if (transfer && transferPending) {
+                 const back = calculateDistance(cand.latitude, cand.longitude, transfer.fromCoords.lat, transfer.fromCoords.lng);
+                 if (visitStart + duration + chooseTransportLeg(back, ctx.transport).hours > transfer.blockStart) continue;
+             }
+             const wait = visitStart - (currentTime + travel);
+             if (wait > MAX_WAIT) {
+                 earliestDeferred = Math.min(earliestDeferred, visitStart - travel - MAX_WAIT);
+                 continue;
+             }
+
+             const weight = d - ((cand.score || 0) / 20) + wait * WAIT_PENALTY;
 
              if (weight < minDist) {
                  minDist = weight;
                  bestIdx = i;
+                 bestStart = visitStart;
+                 bestLeg = leg;
              }
          }
 
          if (bestIdx !== -1) {
              const chosen = todaysCandidates[bestIdx];
-             const travelTime = (minDist / 30) + 0.3; 
              const duration = chosen.durationHours || defaultDuration;
+             const isRequired = required.includes(chosen);
 
-             if (currentTime + travelTime + duration > maxTime + 0.5) {
+             // Optional stops must leave room for the must-visits still to come
+             if (!isRequired && bestStart + duration + requiredHoursLeft > maxTime + 0.5) {
                  todaysCandidates.splice(bestIdx, 1);
                  continue;
              }
+             if (isRequired) requiredHoursLeft -= duration; else optionalAdded++;
+             if (bestLeg) walkedKm += walkingKm(bestLeg);
 
              chosen.suggestedDay = dayNum;
              chosen.matchReason = `Day ${dayNum} (從${spotsAdded === 0 ? (dayNum===1 ? '機場/飯店' : '飯店') : '上一景點'}出發)`;
+             chosen.plannedArrival = formatHours(bestStart);
+             chosen.plannedDeparture = formatHours(bestStart + duration);
              finalOrderedList.push(chosen);
              
-             currentTime += travelTime + duration;
+             currentTime = bestStart + duration + restHours;
              currentLoc = { lat: chosen.latitude, lng: chosen.longitude };
              spotsAdded++;
              
              const gIdx = unvisited.findIndex(u => u.name === chosen.name);
              if (gIdx !== -1) unvisited.splice(gIdx, 1);
              todaysCandidates.splice(bestIdx, 1);
+         } else if (transfer && transferPending && (!meal || meal.start >= transfer.blockStart)) {
+             // Nothing else fits before the transfer
+             takeTransfer(transfer);
+         } else if (meal) {
+             // Nothing fits before the meal: take it now
+             currentTime = Math.max(currentTime, meal.start) + MEAL_HOURS;
+             pendingMeals.shift();
+         } else if (isFinite(earliestDeferred) && earliestDeferred < maxTime) {
+             // Everything left opens later: skip ahead instead of ending the day early
+             currentTime = earliestDeferred;
          } else {
              break;
          }
     }
 
+    if (transfer && transferPending) takeTransfer(transfer);
+
+    // Must-visits the loop never reached (e.g. day ran out while travelling) are appended anyway
+    required.filter(p => !finalOrderedList.includes(p)).forEach(p => {
+        const duration = p.durationHours || defaultDuration;
+        const visitStart = findVisitStart(getOpeningWindows(p, calendar), start, duration) ?? currentTime;
+        p.suggestedDay = dayNum;
+        p.matchReason = `Day ${dayNum} (必去地點)`;
+        p.plannedArrival = formatHours(Math.max(visitStart, currentTime));
+        p.plannedDeparture = formatHours(Math.max(visitStart, currentTime) + duration);
+        currentTime = Math.max(visitStart, currentTime) + duration;
+        finalOrderedList.push(p);
+        spotsAdded++;
+        const gIdx = unvisited.indexOf(p);
+        if (gIdx !== -1) unvisited.splice(gIdx, 1);
+    });
+
+    if (dayTrip) takeFixedLeg(dayTrip.back, currentTime);
+
     // GUARANTEE: Never leave a day empty in the algorithm output
     // If no specific candidates matched, insert a "Free Exploration" placeholder
     if (spotsAdded === 0) {
-        finalOrderedList.push({
+        const explorePlaceholder: CandidatePlace = {
             name: "市區自由探索 (AI 推薦)",
             category: 'other',
             rating: 0,
@@ -217,9 +847,678 @@ export const optimizeRoute = (
             matchReason: "行程彈性安排",
             openingText: "",
             durationHours: 2
+        };
+        ctx.placeholders.add(explorePlaceholder);
+        finalOrderedList.push(explorePlaceholder);
+    }
+
+    if (transfer) stampTransfer(transfer, finalOrderedList);
+    if (dayTrip) stampDayTrip(dayTrip, ctx);
+    return finalOrderedList;
+};
+
+// ==========================================
+// ROUTE IMPROVEMENT (local search after the greedy pass)
+// ==========================================
+// A fixed number of moves rather than a time limit, so the same input always gives the same route
+export const ROUTE_IMPROVEMENT_ITERATIONS = 2000;
+
+// Objective weights, all expressed in hours
+const SCORE_WEIGHT = 0.01; // 100 score points ~ one hour of travel
+const IDLE_WEIGHT = 0.5;
+const BALANCE_WEIGHT = 0.3; // per hour a day's visiting time deviates from the trip average
+const OVERTIME_PENALTY = 10;
+const CLOSED_PENALTY = 100;
+const EXTRA_STOP_PENALTY = 5; // per sight beyond the pace's daily limit
+const OVER_BUDGET_WEIGHT = 20; // per 100% of the budget overspent
+
+interface EditableDay {
+  dayNum: number;
+  calendar: CalendarDay;
+  start: number;
+  end: number;
+  origin: { lat: number, lng: number };
+  hotel: { lat: number, lng: number };
+  pace: PaceSettings;
+  stops: CandidatePlace[];
+  placeholder: CandidatePlace[]; // Restored when the day ends up without real stops
+}
+
+const toEditableDay = (dayNum: number, list: CandidatePlace[], ctx: RouteContext): EditableDay | null => {
+  const info = getDayInfo(dayNum, ctx);
+  if (info.end - info.start < 2.0) return null; // Travel day, left as is
+  const hotel = { lat: info.hotel?.latitude || 0, lng: info.hotel?.longitude || 0 };
+  return {
+    dayNum,
+    calendar: info.calendar,
+    start: info.start,
+    end: info.end,
+    pace: info.pace,
+    origin: dayNum === 1 && ctx.airportCoords && ctx.airportCoords.lat !== 0 ? ctx.airportCoords : (info.transfer?.fromCoords || hotel),
+    hotel,
+    stops: list.filter(c => !ctx.placeholders.has(c)),
+    placeholder: list.filter(c => ctx.placeholders.has(c)),
+  };
+};
+
+const getVisitDuration = (stop: CandidatePlace, ctx: RouteContext) =>
+  ctx.mealStops.has(stop) ? MEAL_HOURS : (stop.durationHours || 1.5);
+
+// Opening windows, narrowed to the sit-down window when the stop is booked as a meal
+const getVisitWindows = (stop: CandidatePlace, day: CalendarDay, ctx: RouteContext): TimeWindow[] | null => {
+  const fixed = ctx.fixedLegs.get(stop);
+  if (fixed) return [fixed.window];
+  const windows = getOpeningWindows(stop, day);
+  const meal = ctx.mealStops.get(stop);
+  if (!meal) return windows;
+  const mealWindow = { open: meal.start, close: meal.end + MEAL_HOURS };
+  return (windows || [mealWindow])
+    .map(w => ({ open: Math.max(w.open, mealWindow.open), close: Math.min(w.close, mealWindow.close) }))
+    .filter(w => w.close > w.open);
+};
+
+interface DaySimulation {
+  km: number;
+  travelHours: number;
+  idleHours: number;
+  visitHours: number;
+  scoreSum: number;
+  overtime: number;
+  violations: number; // Stops that cannot fit an opening window
+  extraStops: number; // Sights beyond the pace's daily limit
+  spend: number; // Per person: admissions, meals and transport including the way back
+  slots: { arrival: number, departure: number }[];
+  legs: TransportLeg[]; // Leg arriving at each stop
+}
+
+// Where the traveller is after a stop: the end of a fixed leg (new hotel, day-trip destination), the place itself otherwise
+const locationAfter = (stop: CandidatePlace, ctx: RouteContext) =>
+  ctx.fixedLegs.get(stop)?.toCoords || { lat: stop.latitude, lng: stop.longitude };
+
+// Walks a day in order with the same speed model as the greedy loop
+const simulateDay = (day: EditableDay, stops: CandidatePlace[], ctx: RouteContext): DaySimulation => {
+  const sim: DaySimulation = { km: 0, travelHours: 0, idleHours: 0, visitHours: 0, scoreSum: 0, overtime: 0, violations: 0, extraStops: 0, spend: 0, slots: [], legs: [] };
+  let t = day.start;
+  let loc = day.origin;
+  let walkedKm = 0;
+
+  stops.forEach((stop, i) => {
+    if (i > 0) t += day.pace.restMinutes / 60;
+    const leg = legBetween(loc, { lat: stop.latitude, lng: stop.longitude }, ctx, day.pace.maxWalkKm - walkedKm);
+    walkedKm += walkingKm(leg);
+    const travel = leg.hours;
+    const duration = getVisitDuration(stop, ctx);
+    const visitStart = findVisitStart(getVisitWindows(stop, day.calendar, ctx), t + travel, duration);
+    if (visitStart === null) sim.violations++;
+    const arrival = visitStart ?? t + travel;
+
+    sim.km += leg.km;
+    sim.travelHours += travel;
+    sim.legs.push(leg);
+    sim.idleHours += arrival - (t + travel);
+    sim.visitHours += duration;
+    sim.scoreSum += stop.score || 0;
+    sim.spend += leg.cost + (getStopCost(stop, ctx) ?? budgetedPlaceCost(stop, ctx.currency));
+    sim.slots.push({ arrival, departure: arrival + duration });
+    t = arrival + duration;
+    loc = locationAfter(stop, ctx);
+  });
+
+  if (stops.length > 0 && day.hotel.lat) {
+    const back = legBetween(loc, day.hotel, ctx, day.pace.maxWalkKm - walkedKm);
+    sim.km += back.km;
+    sim.travelHours += back.hours;
+    sim.spend += back.cost;
+  }
+  sim.overtime = Math.max(0, t - (day.end + 0.5));
+  sim.extraStops = Math.max(0, stops.filter(stop => !ctx.mealStops.has(stop) && !ctx.fixedLegs.has(stop)).length - day.pace.maxStops);
+  return sim;
+};
+
+// Undefined when the place's price is unknown
+const getStopCost = (stop: CandidatePlace, ctx: RouteContext): number | undefined => {
+  const fixed = ctx.fixedLegs.get(stop);
+  if (fixed) return fixed.leg.cost;
+  return ctx.placeholders.has(stop) ? 0 : estimatePlaceCost(stop, ctx.currency);
+};
+
+const dayCost = (sim: DaySimulation) =>
+  sim.travelHours + IDLE_WEIGHT * sim.idleHours - SCORE_WEIGHT * sim.scoreSum +
+  OVERTIME_PENALTY * sim.overtime + CLOSED_PENALTY * sim.violations + EXTRA_STOP_PENALTY * sim.extraStops;
+
+const totalSpend = (sims: DaySimulation[]) => sims.reduce((sum, s) => sum + s.spend, 0);
+
+const routeObjective = (sims: DaySimulation[], ctx: RouteContext) => {
+  const mean = sims.reduce((sum, s) => sum + s.visitHours, 0) / sims.length;
+  const overBudget = ctx.budget ? Math.max(0, totalSpend(sims) - ctx.budget) / ctx.budget : 0;
+  return sims.reduce((sum, s) => sum + dayCost(s) + BALANCE_WEIGHT * Math.abs(s.visitHours - mean), 0) +
+    OVER_BUDGET_WEIGHT * overBudget;
+};
+
+const summarize = (sims: DaySimulation[]): RouteMetrics => ({
+  totalKm: parseFloat(sims.reduce((sum, s) => sum + s.km, 0).toFixed(1)),
+  travelHours: parseFloat(sims.reduce((sum, s) => sum + s.travelHours, 0).toFixed(2)),
+  idleHours: parseFloat(sims.reduce((sum, s) => sum + s.idleHours, 0).toFixed(2)),
+});
+
+// Small seeded PRNG so the same input always yields the same route
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let x = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+  return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+};
+
+const MEAL_LABELS: Record<ResolvedMeal['slot'], string> = { lunch: '午餐', dinner: '晚餐' };
+
+const bookMeal = (place: CandidatePlace, meal: ResolvedMeal, ctx: RouteContext) => {
+  ctx.mealStops.set(place, meal);
+  place.mealSlot = meal.slot;
+  place.estimatedCost = estimateMealCost(place.priceLevel, ctx.currency);
+};
+
+// Clears optimizer output from a place that went back to the leftover pool
+const unbookStop = (place: CandidatePlace, ctx: RouteContext) => {
+  ctx.mealStops.delete(place);
+  delete place.suggestedDay;
+  delete place.plannedArrival;
+  delete place.plannedDeparture;
+  delete place.mealSlot;
+  delete place.estimatedCost;
+  delete place.transportFromPrevious;
+};
+
+// Fills every meal window of every day with the food place that adds the least detour between the
+// stops around it, honouring opening hours. Mutates `dayLists` and removes booked places from `unvisited`.
+const placeMeals = (dayLists: CandidatePlace[][], unvisited: CandidatePlace[], ctx: RouteContext, onlyDay?: number) => {
+  if (ctx.meals.length === 0) return;
+
+  dayLists.forEach((list, i) => {
+    if (onlyDay !== undefined && i + 1 !== onlyDay) return;
+    const day = toEditableDay(i + 1, list, ctx);
+    if (!day) return;
+
+    ctx.meals.forEach(meal => {
+      if (meal.end <= day.start || meal.start >= day.end) return;
+      const { slots } = simulateDay(day, day.stops, ctx);
+      let best: { place: CandidatePlace, index: number, cost: number } | null = null;
+
+      // On a day-trip day the meal is taken at the destination, between the two legs
+      const dayTrip = ctx.dayTrips.get(day.dayNum);
+      for (let index = dayTrip ? 1 : 0; index <= day.stops.length - (dayTrip ? 1 : 0); index++) {
+        const prev = index === 0 ? day.origin : locationAfter(day.stops[index - 1], ctx);
+        const next = index < day.stops.length ? { lat: day.stops[index].latitude, lng: day.stops[index].longitude } : day.hotel;
+        const leaveAt = index === 0 ? day.start : slots[index - 1].departure;
+        if (leaveAt > meal.end) break;
+        const direct = calculateDistance(prev.lat, prev.lng, next.lat, next.lng);
+
+        unvisited.forEach(place => {
+          if (place.category !== 'food' || ctx.reserved.has(place) || ctx.placeholders.has(place) || !belongsToDay(place, day.dayNum, ctx)) return;
+          const toPlace = calculateDistance(prev.lat, prev.lng, place.latitude, place.longitude);
+          const detour = toPlace + calculateDistance(place.latitude, place.longitude, next.lat, next.lng) - direct;
+          const arrival = leaveAt + chooseTransportLeg(toPlace, ctx.transport).hours;
+
+          ctx.mealStops.set(place, meal);
+          const sitDown = findVisitStart(getVisitWindows(place, day.calendar, ctx), arrival, MEAL_HOURS);
+          ctx.mealStops.delete(place);
+          if (sitDown === null) return;
+
+          const cost = detour / 30 + IDLE_WEIGHT * (sitDown - arrival) - SCORE_WEIGHT * (place.score || 0);
+          if (!best || cost < best.cost) best = { place, index, cost };
         });
+      }
+
+      if (!best) return;
+      const { place, index } = best as { place: CandidatePlace, index: number };
+      bookMeal(place, meal, ctx);
+      day.stops.splice(index, 0, place);
+      unvisited.splice(unvisited.indexOf(place), 1);
+    });
+
+    dayLists[i] = [...day.placeholder, ...day.stops];
+  });
+};
+
+// Copies the edited days back into the day lists, stamping day, reason, planned times, leg and cost on each stop
+const writeBackDays = (dayLists: CandidatePlace[][], days: EditableDay[], sims: DaySimulation[], ctx: RouteContext) => {
+  const result = dayLists.map(list => [...list]);
+  days.forEach((day, idx) => {
+    if (day.stops.length === 0) {
+      result[day.dayNum - 1] = day.placeholder;
+      return;
+    }
+    // A day holding only meals still gets its free-exploration stand-in
+    const onlyMeals = day.stops.every(stop => ctx.mealStops.has(stop));
+    sims[idx].slots.forEach((slot, i) => {
+      const stop = day.stops[i];
+      stop.suggestedDay = day.dayNum;
+      const meal = ctx.mealStops.get(stop);
+      if (meal) {
+        stop.matchReason = `Day ${day.dayNum} ${MEAL_LABELS[meal.slot]} (鄰近前後行程)`;
+      } else if (!ctx.fixedLegs.has(stop) && (!ctx.reserved.has(stop) || !stop.matchReason?.includes('必去'))) {
+        stop.matchReason = `Day ${day.dayNum} (從${i === 0 ? (day.dayNum === 1 ? '機場/飯店' : '飯店') : '上一景點'}出發)`;
+      }
+      stop.plannedArrival = formatHours(slot.arrival);
+      stop.plannedDeparture = formatHours(slot.departure);
+      stop.transportFromPrevious = sims[idx].legs[i];
+      stop.estimatedCost = getStopCost(stop, ctx);
+    });
+    const transfer = ctx.transfers.get(day.dayNum);
+    if (transfer) stampTransfer(transfer, day.stops);
+    const dayTrip = ctx.dayTrips.get(day.dayNum);
+    if (dayTrip) stampDayTrip(dayTrip, ctx);
+    result[day.dayNum - 1] = onlyMeals ? [...day.placeholder, ...day.stops] : day.stops;
+  });
+  return result;
+};
+
+// Improves the greedy schedule with random moves (reorder within a day, move/swap between days,
+// swap in a leftover candidate) and keeps every move that lowers the objective.
+// Travel days and must-visit day assignments are never changed.
+const improveRoute = (
+  dayLists: CandidatePlace[][],
+  leftovers: CandidatePlace[],
+  ctx: RouteContext,
+  maxIterations: number,
+  onlyDay?: number // Restrict the search to one day (single-day re-planning)
+): { dayLists: CandidatePlace[][], improvement: RouteImprovement } => {
+  const startedAt = Date.now();
+  const days: EditableDay[] = [];
+  dayLists.forEach((list, i) => {
+    if (onlyDay !== undefined && i + 1 !== onlyDay) return;
+    const day = toEditableDay(i + 1, list, ctx);
+    if (day) days.push(day);
+  });
+
+  let sims = days.map(d => simulateDay(d, d.stops, ctx));
+  const before = summarize(sims);
+  let objective = sims.length > 0 ? routeObjective(sims, ctx) : 0;
+  const pool = leftovers.filter(c => !ctx.reserved.has(c) && !ctx.placeholders.has(c));
+  const random = createRandom(dayLists.length * 7919 + pool.length);
+  const pick = (n: number) => Math.floor(random() * n);
+  // Must-visits keep their day; meals keep their day and slot (but may be swapped for another restaurant)
+  // Transfer and day-trip legs never leave their day, nor do the places of a day trip
+  const isMovable = (c: CandidatePlace) =>
+    !ctx.reserved.has(c) && !ctx.mealStops.has(c) && !ctx.fixedLegs.has(c) && !ctx.dayTripPlaces.has(c);
+  // A day-trip day keeps starting with the outbound leg and ending with the return
+  const keepsDayTripFrame = (day: EditableDay, stops: CandidatePlace[]) => {
+    const dayTrip = ctx.dayTrips.get(day.dayNum);
+    return !dayTrip || (stops[0] === dayTrip.outbound.stop && stops[stops.length - 1] === dayTrip.back.stop);
+  };
+
+  let iterations = 0;
+  while (days.length > 0 && iterations < maxIterations) {
+    iterations++;
+
+    const a = pick(days.length);
+    const b = pick(days.length);
+    const stopsA = [...days[a].stops];
+    const stopsB = a === b ? stopsA : [...days[b].stops];
+    let swappedIn: CandidatePlace | null = null;
+    let swappedOut: CandidatePlace | null = null;
+
+    const move = pick(4);
+    if (move === 0) {
+      // Reorder: move one stop to another position in the same day
+      if (stopsA.length < 2) continue;
+      const [stop] = stopsA.splice(pick(stopsA.length), 1);
+      stopsA.splice(pick(stopsA.length + 1), 0, stop);
+    } else if (move === 1) {
+      // Relocate a stop to another day, never emptying the source day
+      if (a === b || stopsA.length < 2) continue;
+      const idx = pick(stopsA.length);
+      if (!isMovable(stopsA[idx]) || !belongsToDay(stopsA[idx], days[b].dayNum, ctx)) continue;
+      const [stop] = stopsA.splice(idx, 1);
+      stopsB.splice(pick(stopsB.length + 1), 0, stop);
+    } else if (move === 2) {
+      // Swap two stops between days
+      if (a === b || stopsA.length === 0 || stopsB.length === 0) continue;
+      const i = pick(stopsA.length);
+      const j = pick(stopsB.length);
+      if (!isMovable(stopsA[i]) || !isMovable(stopsB[j])) continue;
+      [stopsA[i], stopsB[j]] = [stopsB[j], stopsA[i]];
+    } else {
+      // Replace a stop with a leftover candidate (a meal only with another food place)
+      if (stopsA.length === 0 || pool.length === 0) continue;
+      const i = pick(stopsA.length);
+      if (ctx.reserved.has(stopsA[i]) || ctx.fixedLegs.has(stopsA[i])) continue;
+      const isMeal = ctx.mealStops.has(stopsA[i]);
+      const options = pool.filter(c =>
+        (ctx.meals.length === 0 || (c.category === 'food') === isMeal) && belongsToDay(c, days[a].dayNum, ctx));
+      if (options.length === 0) continue;
+      swappedIn = options[pick(options.length)];
+      swappedOut = stopsA[i];
+      stopsA[i] = swappedIn;
+    }
+
+    if (!keepsDayTripFrame(days[a], stopsA) || !keepsDayTripFrame(days[b], stopsB)) continue;
+
+    // The incoming place inherits the meal slot while it is being evaluated
+    const swappedMeal = swappedOut ? ctx.mealStops.get(swappedOut) : undefined;
+    if (swappedIn && swappedMeal) ctx.mealStops.set(swappedIn, swappedMeal);
+
+    const nextSims = [...sims];
+    nextSims[a] = simulateDay(days[a], stopsA, ctx);
+    if (a !== b) nextSims[b] = simulateDay(days[b], stopsB, ctx);
+    const nextObjective = routeObjective(nextSims, ctx);
+
+    if (nextObjective < objective - 1e-6) {
+      days[a].stops = stopsA;
+      days[b].stops = stopsB;
+      sims = nextSims;
+      objective = nextObjective;
+      if (swappedIn && swappedOut) {
+        pool.splice(pool.indexOf(swappedIn), 1, swappedOut);
+        if (swappedMeal) bookMeal(swappedIn, swappedMeal, ctx);
+        unbookStop(swappedOut, ctx);
+      }
+    } else if (swappedIn && swappedMeal) {
+      ctx.mealStops.delete(swappedIn);
+    }
+  }
+
+  return {
+    dayLists: writeBackDays(dayLists, days, sims, ctx),
+    improvement: { before, after: summarize(sims), iterations, elapsedMs: Date.now() - startedAt },
+  };
+};
+
+const MAX_SUGGESTED_SWAPS = 5;
+
+interface SwapOption {
+  dayIdx: number;
+  index: number;
+  replacement: CandidatePlace | null; // null = drop the stop
+  sim: DaySimulation;
+  savings: number;
+  loss: number; // Objective hours given up
+}
+
+// Every single-stop change (cheaper replacement from the pool, or dropping the stop) that lowers spend
+// without breaking opening hours, ordered by objective lost per unit saved
+const findBudgetSwaps = (
+  days: EditableDay[],
+  sims: DaySimulation[],
+  pool: CandidatePlace[],
+  ctx: RouteContext,
+  includeFixed: boolean // Also consider must-visits (for suggestions only)
+): SwapOption[] => {
+  const options: SwapOption[] = [];
+  days.forEach((day, dayIdx) => {
+    day.stops.forEach((stop, index) => {
+      if ((ctx.reserved.has(stop) && !includeFixed) || ctx.fixedLegs.has(stop)) return;
+      const meal = ctx.mealStops.get(stop);
+
+      const evaluate = (replacement: CandidatePlace | null) => {
+        const stops = [...day.stops];
+        if (replacement) stops[index] = replacement; else stops.splice(index, 1);
+        if (replacement && meal) ctx.mealStops.set(replacement, meal);
+        const sim = simulateDay(day, stops, ctx);
+        if (replacement && meal) ctx.mealStops.delete(replacement);
+
+        const savings = sims[dayIdx].spend - sim.spend;
+        if (savings <= 0 || sim.violations > sims[dayIdx].violations) return;
+        options.push({ dayIdx, index, replacement, sim, savings, loss: Math.max(0, dayCost(sim) - dayCost(sims[dayIdx])) });
+      };
+
+      // Meals keep their slot, so they can only become a cheaper restaurant. With no budget at all,
+      // dropping stops would empty the day, so stops are only ever swapped for cheaper ones.
+      if (!meal && day.stops.length > 1 && ctx.budget !== 0) evaluate(null);
+      pool
+        .filter(c => meal ? c.category === 'food' : (ctx.meals.length === 0 || c.category !== 'food'))
+        .filter(c => belongsToDay(c, day.dayNum, ctx))
+        .filter(c => getStopCost(c, ctx) < getStopCost(stop, ctx))
+        .forEach(evaluate);
+    });
+  });
+  return options.sort((x, y) => x.loss / x.savings - y.loss / y.savings);
+};
+
+const toBudgetSwap = (option: SwapOption, days: EditableDay[], ctx: RouteContext): BudgetSwap => {
+  const stop = days[option.dayIdx].stops[option.index];
+  return {
+    day: days[option.dayIdx].dayNum,
+    remove: stop.name,
+    ...(option.replacement ? { add: option.replacement.name } : {}),
+    savings: Math.round(option.savings),
+    scoreLoss: parseFloat(((stop.score || 0) - (option.replacement?.score || 0)).toFixed(1)),
+    ...(ctx.reserved.has(stop) ? { mustVisit: true } : {}),
+  };
+};
+
+// Keeps the planned per-person spend under ctx.budget by repeatedly applying the cheapest swap
+// (least objective lost per unit saved). Must-visits are never changed; when the budget still
+// cannot be met, the report lists the swaps, must-visits included, that would close the gap.
+const enforceBudget = (
+  dayLists: CandidatePlace[][],
+  candidates: CandidatePlace[], // Anything not scheduled in `dayLists` may be swapped in
+  ctx: RouteContext,
+  onlyDay?: number
+): { dayLists: CandidatePlace[][], report?: BudgetReport } => {
+  if (ctx.budget === undefined) return { dayLists };
+  const budget = ctx.budget;
+
+  const days: EditableDay[] = [];
+  dayLists.forEach((list, i) => {
+    if (onlyDay !== undefined && i + 1 !== onlyDay) return;
+    const day = toEditableDay(i + 1, list, ctx);
+    if (day) days.push(day);
+  });
+  const sims = days.map(d => simulateDay(d, d.stops, ctx));
+  const scheduled = new Set(dayLists.flat());
+  const pool = candidates.filter(c => !scheduled.has(c) && !ctx.reserved.has(c) && !ctx.placeholders.has(c));
+  const appliedSwaps: BudgetSwap[] = [];
+
+  while (totalSpend(sims) > budget) {
+    const [best] = findBudgetSwaps(days, sims, pool, ctx, false);
+    if (!best) break;
+    appliedSwaps.push(toBudgetSwap(best, days, ctx));
+
+    const day = days[best.dayIdx];
+    const removed = day.stops[best.index];
+    const meal = ctx.mealStops.get(removed);
+    if (best.replacement) {
+      day.stops[best.index] = best.replacement;
+      pool.splice(pool.indexOf(best.replacement), 1);
+      if (meal) bookMeal(best.replacement, meal, ctx);
+    } else {
+      day.stops.splice(best.index, 1);
+    }
+    unbookStop(removed, ctx);
+    pool.push(removed);
+    sims[best.dayIdx] = best.sim;
+  }
+
+  const plannedSpend = Math.round(totalSpend(sims));
+  const overrun = Math.max(0, plannedSpend - Math.round(budget));
+  const suggestedSwaps: BudgetSwap[] = [];
+  if (overrun > 0) {
+    // One suggestion per stop, cheapest first, until they would cover the overrun
+    const touched = new Set<CandidatePlace>();
+    let covered = 0;
+    for (const option of findBudgetSwaps(days, sims, pool, ctx, true)) {
+      const stop = days[option.dayIdx].stops[option.index];
+      if (touched.has(stop) || (option.replacement && touched.has(option.replacement))) continue;
+      touched.add(stop);
+      if (option.replacement) touched.add(option.replacement);
+      suggestedSwaps.push(toBudgetSwap(option, days, ctx));
+      covered += option.savings;
+      if (covered >= overrun || suggestedSwaps.length >= MAX_SUGGESTED_SWAPS) break;
     }
   }
 
-  return finalOrderedList;
+  return {
+    dayLists: writeBackDays(dayLists, days, sims, ctx),
+    report: { budget: Math.round(budget), plannedSpend, overrun, appliedSwaps, suggestedSwaps },
+  };
+};
+
+export interface RouteResult {
+  scheduled: CandidatePlace[];
+  mustVisitIssues: MustVisitIssue[]; // Must-visit places that could not be placed, with the reason
+  improvement: RouteImprovement; // Before/after metrics of the local-search pass
+  budgetReport?: BudgetReport; // Set when RouteOptions.budgetPerPerson is given
+  transfers: CityTransfer[]; // Inter-city moves inserted on hotel-change days (also on their blocks in `scheduled`)
+  dayTrips: ScheduledDayTrip[]; // Days reserved for RouteOptions.dayTrips (also on their legs in `scheduled`)
+  dayTripIssues: DayTripIssue[]; // Requested day trips that got no day
+}
+
+// Same as optimizeRoute, but applies RouteOptions (must-visits, meals, ...) and reports what could not be honoured
+export const optimizeRouteWithReport = (
+  candidates: CandidatePlace[],
+  hotels: Hotel[],
+  startDateStr: string,
+  totalDays: number,
+  airportCoords?: { lat: number, lng: number },
+  flightTimes?: { start: string, end: string },
+  options: RouteOptions = {}
+): RouteResult => {
+  const ctx = buildRouteContext(hotels, startDateStr, totalDays, airportCoords, flightTimes, options);
+  const suitable = candidates.filter(c => isSuitableForGroup(c, ctx.travelers));
+  const unvisited = [...suitable];
+  const dayTripIssues = planDayTrips(unvisited, options.dayTrips || [], ctx);
+  const mustVisitIssues = planMustVisits(unvisited, options.mustVisit || [], ctx, candidates.filter(c => !suitable.includes(c)));
+  const greedyDays: CandidatePlace[][] = [];
+
+  for (let dayNum = 1; dayNum <= totalDays; dayNum++) {
+    greedyDays.push(scheduleDay(dayNum, unvisited, ctx));
+  }
+
+  placeMeals(greedyDays, unvisited, ctx);
+  const improved = improveRoute(greedyDays, unvisited, ctx, options.improvementIterations ?? ROUTE_IMPROVEMENT_ITERATIONS);
+  // Places the local search swapped out are candidates again, so every suitable place is offered as the pool
+  const { dayLists, report } = enforceBudget(improved.dayLists, suitable, ctx);
+  const transfers = Array.from(ctx.transfers.values()).map(t => t.stop.cityTransfer).filter((t): t is CityTransfer => !!t);
+  const dayTrips = Array.from(ctx.dayTrips.values())
+    .map(t => t.outbound.stop.dayTrip)
+    .filter((t): t is ScheduledDayTrip => !!t)
+    .sort((a, b) => a.day - b.day);
+  return { scheduled: dayLists.flat(), mustVisitIssues, improvement: improved.improvement, budgetReport: report, transfers, dayTrips, dayTripIssues };
+};
+
+// Re-derives the must-visit and budget reports of `result` for the plan the user settled on in the
+// candidate review. Moved places lost their modelled leg, so only their own cost counts towards the spend.
+export const reportReviewedPlan = (
+  scheduled: CandidatePlace[],
+  result: Pick<RouteResult, 'mustVisitIssues' | 'budgetReport'>,
+  mustVisit: string[],
+  currency: string
+): Pick<RouteResult, 'mustVisitIssues' | 'budgetReport'> => {
+  const isPlanned = (name: string) => scheduled.some(c => matchesPlaceName(c.name, name));
+  const mustVisitIssues: MustVisitIssue[] = [
+    ...result.mustVisitIssues.filter(issue => !isPlanned(issue.name)),
+    ...mustVisit
+      .filter(name => !isPlanned(name) && !result.mustVisitIssues.some(issue => matchesPlaceName(issue.name, name)))
+      .map(name => ({ name, reason: 'removed' as const })),
+  ];
+
+  const previous = result.budgetReport;
+  if (!previous) return { mustVisitIssues };
+  const plannedSpend = Math.round(scheduled.reduce((sum, c) =>
+    sum + (c.estimatedCost ?? budgetedPlaceCost(c, currency)) + (c.transportFromPrevious?.cost || 0), 0));
+  const overrun = Math.max(0, plannedSpend - previous.budget);
+  const isScheduled = (name: string) => scheduled.some(c => c.name === name);
+  return {
+    mustVisitIssues,
+    budgetReport: {
+      budget: previous.budget,
+      plannedSpend,
+      overrun,
+      // Swaps the review undid are no longer part of the plan, and suggestions only hold while they still apply
+      appliedSwaps: previous.appliedSwaps.filter(s => !isScheduled(s.remove) && (!s.add || isScheduled(s.add))),
+      suggestedSwaps: overrun > 0 ? previous.suggestedSwaps.filter(s => isScheduled(s.remove) && (!s.add || !isScheduled(s.add))) : [],
+    },
+  };
+};
+
+export const optimizeRoute = (
+  candidates: CandidatePlace[],
+  hotels: Hotel[],
+  startDateStr: string,
+  totalDays: number,
+  airportCoords?: { lat: number, lng: number },
+  flightTimes?: { start: string, end: string }
+): CandidatePlace[] => optimizeRouteWithReport(candidates, hotels, startDateStr, totalDays, airportCoords, flightTimes).scheduled;
+
+// Re-plans one day of an existing trip from the leftover candidates (used by "regenerate this day")
+export const optimizeSingleDay = (
+  candidates: CandidatePlace[],
+  dayNum: number,
+  hotels: Hotel[],
+  startDateStr: string,
+  totalDays: number,
+  airportCoords?: { lat: number, lng: number },
+  flightTimes?: { start: string, end: string },
+  required: CandidatePlace[] = [], // Must-visits that belong to this day; kept even if the pool would not pick them
+  options: RouteOptions = {}
+): CandidatePlace[] => {
+  const ctx = buildRouteContext(hotels, startDateStr, totalDays, airportCoords, flightTimes, options);
+  const pool = [...required, ...candidates.filter(c => !required.includes(c) && isSuitableForGroup(c, ctx.travelers))];
+  planDayTrips(pool, options.dayTrips || [], ctx, dayNum);
+  ctx.requiredByDay.set(dayNum, required);
+  required.forEach(p => ctx.reserved.add(p));
+  const dayList = scheduleDay(dayNum, pool, ctx);
+
+  // Other days are not part of this context, so only this day is searched
+  const lists: CandidatePlace[][] = Array.from({ length: totalDays }, (_, i) => (i + 1 === dayNum ? dayList : []));
+  placeMeals(lists, pool, ctx, dayNum);
+  const improved = improveRoute(lists, pool, ctx, options.improvementIterations ?? ROUTE_IMPROVEMENT_ITERATIONS, dayNum);
+  return enforceBudget(improved.dayLists, pool, ctx, dayNum).dayLists[dayNum - 1];
+};
+
+// Modelled leg between two coordinates (used to fill Activity transport fields outside the optimizer)
+export const getTransportLeg = (
+  from: { lat: number, lng: number },
+  to: { lat: number, lng: number },
+  settings: TransportSettings
+): TransportLeg => chooseTransportLeg(calculateDistance(from.lat, from.lng, to.lat, to.lng), settings);
+
+export const getActiveHotelForDay = (hotels: Hotel[], startDateStr: string, dayNum: number): Hotel =>
+  findActiveHotel(hotels, getTripDate(startDateStr, dayNum));
+
+// Picks the best leftover candidate to slot in between two stops of a given day ("replace this activity").
+// Uses the same distance-minus-score weighting as the greedy loop, measured from the midpoint of the neighbours.
+export const findReplacementCandidate = (
+  candidates: CandidatePlace[],
+  hotels: Hotel[],
+  startDateStr: string,
+  dayNum: number,
+  neighbours: { lat: number, lng: number }[],
+  maxDurationHours: number,
+  slotStart?: number, // Decimal hour the slot begins; when given, the place must be open for the visit
+  holidays: Holiday[] = [],
+  travelerProfiles: TravelerProfile[] = []
+): CandidatePlace | null => {
+  const date = getTripDate(startDateStr, dayNum);
+  const calendar = toCalendarDay(date, new Set(holidays.map(h => h.date)));
+
+  const hotel = findActiveHotel(hotels, date);
+  const anchors = neighbours.filter(n => n.lat && n.lng);
+  if (anchors.length === 0 && hotel?.latitude && hotel?.longitude) anchors.push({ lat: hotel.latitude, lng: hotel.longitude });
+  if (anchors.length === 0) return null;
+
+  const anchor = {
+    lat: anchors.reduce((sum, a) => sum + a.lat, 0) / anchors.length,
+    lng: anchors.reduce((sum, a) => sum + a.lng, 0) / anchors.length,
+  };
+
+  let best: CandidatePlace | null = null;
+  let bestWeight = Infinity;
+  candidates.forEach(c => {
+    if (!isOpenOnDay(c, calendar) || !isSuitableForGroup(c, travelerProfiles)) return;
+    const duration = c.durationHours || 1.5;
+    if (duration > maxDurationHours) return;
+    if (slotStart !== undefined) {
+      const visitStart = findVisitStart(getOpeningWindows(c, calendar), slotStart, duration);
+      if (visitStart === null || visitStart + duration > slotStart + maxDurationHours) return;
+    }
+    const d = calculateDistance(anchor.lat, anchor.lng, c.latitude, c.longitude);
+    if (d > 30) return;
+    const weight = d - ((c.score || 0) / 20);
+    if (weight < bestWeight) {
+      bestWeight = weight;
+      best = c;
+    }
+  });
+  return best;
 };
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  StorageBackend, createMemoryStorage, saveItineraryToCloud, getItineraryFromCloud, listShareLinks, revokeShareLink,
+} from './storageService';
+import { ItineraryResult, PlanningContext, UserPreferences } from '../types';
+
+const prefs: UserPreferences = {
+  dates: { start: '2026-11-10', end: '2026-11-12', startTime: '10:00', endTime: '18:00' },
+  travelers: 2,
+  airport: '成田機場',
+  hotels: [{ id: 'h1', name: '東京車站飯店', checkIn: '2026-11-10', checkOut: '2026-11-12', location: '東京' }],
+  budget: { amount: 60000, currency: 'JPY' },
+  style: { pace: 'moderate', focus: 'balanced', transportPreference: 'balanced' },
+};
+
+const planningContext: PlanningContext = { prefs, rankedCandidates: [] };
+
+// What a shared link keeps: the itinerary without its planning context
+const snapshot: ItineraryResult = {
+  tripTitle: '東京三日遊',
+  totalCostEstimate: 0,
+  currency: 'JPY',
+  summary: '',
+  days: [],
+};
+
+const itinerary: ItineraryResult = { ...snapshot, planningContext };
+
+describe('share links on the memory backend', () => {
+  let storage: StorageBackend;
+  beforeEach(() => { storage = createMemoryStorage(); });
+
+  it('lists documents by field on the backend', async () => {
+    await storage.put('things', 'a', { owner: 'x', kind: 1 });
+    await storage.put('things', 'b', { owner: 'y', kind: 1 });
+    await storage.put('things', 'c', { owner: 'x', kind: 2 });
+    const listed = await storage.list('things', { owner: 'x', kind: 1 });
+    expect(listed.value?.map(d => d.id)).toEqual(['a']);
+  });
+
+  it('opens a read-only link with the snapshot in a single call', async () => {
+    const id = (await saveItineraryToCloud(itinerary, {}, storage)).value!;
+    const opened = await getItineraryFromCloud(id, undefined, storage);
+    expect(opened.value).toEqual({ itinerary: snapshot, permission: 'view' });
+  });
+
+  it('hands the editing session to editable links only', async () => {
+    const id = (await saveItineraryToCloud(itinerary, { permission: 'edit', collabId: 'session-1' }, storage)).value!;
+    expect((await getItineraryFromCloud(id, undefined, storage)).value).toMatchObject({ permission: 'edit', collabId: 'session-1' });
+    expect((await saveItineraryToCloud(itinerary, { permission: 'edit' }, storage)).error?.code).toBe('invalid_data');
+  });
+
+  it('keeps a passcode-protected snapshot under a key derived from the passcode', async () => {
+    const id = (await saveItineraryToCloud(itinerary, { passcode: '1234' }, storage)).value!;
+
+    expect((await getItineraryFromCloud(id, undefined, storage)).error?.code).toBe('passcode_required');
+    expect((await getItineraryFromCloud(id, '0000', storage)).error?.code).toBe('wrong_passcode');
+    expect((await getItineraryFromCloud(id, '1234', storage)).value?.itinerary).toEqual(snapshot);
+
+    // Nothing readable by id holds the passcode or a hash of it
+    const settings = await storage.get<Record<string, unknown>>('shareLinks', id);
+    expect(settings.value).toMatchObject({ hasPasscode: true });
+    expect(JSON.stringify(settings.value)).not.toContain('1234');
+    expect((await storage.get('itineraries', id)).error?.code).toBe('not_found');
+  });
+
+  it('refuses expired links and deletes their snapshots when the owner lists links', async () => {
+    const expiresAt = new Date(Date.now() - 1000).toISOString();
+    const expired = (await saveItineraryToCloud(itinerary, { ownerKey: 'trip-1', expiresAt }, storage)).value!;
+    const open = (await saveItineraryToCloud(itinerary, { ownerKey: 'trip-1' }, storage)).value!;
+
+    expect((await getItineraryFromCloud(expired, undefined, storage)).error?.code).toBe('expired');
+    const listed = await listShareLinks('trip-1', storage);
+    expect(listed.value?.map(l => l.id)).toEqual([open]);
+    expect((await storage.get('itineraries', expired)).error?.code).toBe('not_found');
+    // Still reported as expired rather than missing
+    expect((await getItineraryFromCloud(expired, undefined, storage)).error?.code).toBe('expired');
+  });
+
+  it('lists only the links of the given trip', async () => {
+    await saveItineraryToCloud(itinerary, { ownerKey: 'trip-1' }, storage);
+    await saveItineraryToCloud(itinerary, { ownerKey: 'trip-2' }, storage);
+    const listed = await listShareLinks('trip-2', storage);
+    expect(listed.value).toHaveLength(1);
+    expect(listed.value?.[0].ownerKey).toBe('trip-2');
+  });
+
+  it('revokes a link and deletes its snapshot', async () => {
+    const id = (await saveItineraryToCloud(itinerary, { ownerKey: 'trip-1', passcode: 'abcd' }, storage)).value!;
+    expect((await revokeShareLink(id, storage)).ok).toBe(true);
+
+    expect((await getItineraryFromCloud(id, 'abcd', storage)).error?.code).toBe('revoked');
+    expect((await listShareLinks('trip-1', storage)).value).toEqual([]);
+    expect((await storage.list('itineraries')).value).toEqual([]);
+  });
+
+  it('opens links made before settings existed as read-only', async () => {
+    await storage.put('itineraries', 'legacy', { ...snapshot, createdAt: '2025-01-01T00:00:00Z' });
+    const opened = await getItineraryFromCloud('legacy', undefined, storage);
+    expect(opened.value?.permission).toBe('view');
+    expect(opened.value?.itinerary.tripTitle).toBe('東京三日遊');
+    expect((await getItineraryFromCloud('missing', undefined, storage)).error?.code).toBe('not_found');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { chooseTransportLeg, chooseTransferLeg, walkingKm, getTransportSettings, TransportSettings } from './transportModel';
+import { UserPreferences } from '../types';
+
+const settings = (preference: TransportSettings['preference'], travelers = 2): TransportSettings => ({ preference, travelers, currency: 'USD' });
+
+describe('chooseTransportLeg', () => {
+  it('walks short legs for free', () => {
+    expect(chooseTransportLeg(0.5, settings('balanced'))).toMatchObject({ mode: 'walk', km: 0.5, cost: 0 });
+  });
+
+  it('stops walking once the leg no longer fits the walking allowance', () => {
+    expect(chooseTransportLeg(0.5, settings('balanced'), 0.3).mode).toBe('taxi');
+  });
+
+  it('picks the mode by the transport preference', () => {
+    expect(chooseTransportLeg(10, settings('cheaper')).mode).toBe('rail');
+    expect(chooseTransportLeg(10, settings('faster', 4)).mode).toBe('taxi');
+  });
+
+  it('splits the taxi fare between the travellers', () => {
+    // Alone the fare is not worth the time saved; four people share one car
+    expect(chooseTransportLeg(10, settings('faster', 1)).mode).toBe('rail');
+    const shared = chooseTransportLeg(10, settings('faster', 4));
+    expect(shared.cost).toBe(8);
+  });
+});
+
+describe('chooseTransferLeg', () => {
+  it('only flies between cities far enough apart', () => {
+    expect(chooseTransferLeg(100, settings('faster')).mode).toBe('rail');
+    expect(chooseTransferLeg(500, settings('faster')).mode).toBe('flight');
+  });
+
+  it('takes the long-distance bus when cheaper travel is preferred', () => {
+    expect(chooseTransferLeg(500, settings('cheaper'))).toMatchObject({ mode: 'bus', label: '長途巴士' });
+  });
+});
+
+describe('walkingKm', () => {
+  it('counts the street distance of walked legs only', () => {
+    expect(walkingKm(chooseTransportLeg(1, settings('cheaper')))).toBeCloseTo(1.3);
+    expect(walkingKm(chooseTransportLeg(10, settings('cheaper')))).toBe(0);
+  });
+});
+
+describe('getTransportSettings', () => {
+  it('takes the preference and currency of the trip, counting at least one traveller', () => {
+    const prefs: UserPreferences = {
+      dates: { start: '2026-11-10', end: '2026-11-12', startTime: '10:00', endTime: '18:00' },
+      travelers: 0,
+      airport: '成田機場',
+      hotels: [],
+      budget: { amount: 60000, currency: 'JPY' },
+      style: { pace: 'moderate', focus: 'balanced', transportPreference: 'faster' },
+    };
+    expect(getTransportSettings(prefs)).toEqual({ preference: 'faster', travelers: 1, currency: 'JPY' });
+  });
+});
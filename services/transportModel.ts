@@ -0,0 +1,105 @@
+import { UserPreferences, TransportMode, TransportLeg, IntercityMode } from "../types";
+import { convertFromUsd } from "../utils/costEstimates";
+
+// Deterministic per-leg transport model used by the route optimizer and to fill Activity transport fields.
+// Distances passed in are straight-line km; DETOUR_FACTOR approximates the real street / track distance.
+
+export type TransportPreference = UserPreferences['style']['transportPreference'];
+
+interface ModeSpec {
+  label: string;
+  speedKmh: number;
+  overheadHours: number; // Access, waiting and transfers
+  minKm: number;
+  maxKm: number;
+  fareUsd: (routeKm: number) => number; // Per vehicle for taxis, per person otherwise
+  sharedByGroup?: boolean; // Taxi fare is split between up to TAXI_CAPACITY travellers
+}
+
+const DETOUR_FACTOR = 1.3;
+const TAXI_CAPACITY = 4;
+
+export const TRANSPORT_MODES: Record<TransportMode, ModeSpec> = {
+  walk: { label: '步行', speedKmh: 4.5, overheadHours: 0, minKm: 0, maxKm: 1.5, fareUsd: () => 0 },
+  rail: { label: '地鐵/電車', speedKmh: 32, overheadHours: 0.25, minKm: 0.8, maxKm: Infinity, fareUsd: km => 1.2 + 0.15 * km },
+  bus: { label: '巴士', speedKmh: 18, overheadHours: 0.2, minKm: 0.8, maxKm: 40, fareUsd: km => 1.5 + 0.05 * km },
+  taxi: { label: '計程車', speedKmh: 28, overheadHours: 0.08, minKm: 0, maxKm: 60, fareUsd: km => 4 + 2 * km, sharedByGroup: true },
+};
+
+// Long-distance modes between cities (hotel change days). Overheads cover getting to the station / airport.
+export const INTERCITY_MODES: Record<IntercityMode, ModeSpec> = {
+  rail: { label: '高鐵/特急列車', speedKmh: 150, overheadHours: 0.5, minKm: 0, maxKm: 1200, fareUsd: km => 2 + 0.2 * km },
+  bus: { label: '長途巴士', speedKmh: 65, overheadHours: 0.5, minKm: 0, maxKm: 900, fareUsd: km => 3 + 0.07 * km },
+  flight: { label: '飛機', speedKmh: 650, overheadHours: 3, minKm: 300, maxKm: Infinity, fareUsd: km => 60 + 0.12 * km },
+};
+
+// How much an hour saved is worth (USD) for each preference; drives the mode choice
+const VALUE_OF_TIME_USD: Record<TransportPreference, number> = {
+  cheaper: 4,
+  balanced: 20,
+  faster: 80,
+};
+
+export interface TransportSettings {
+  preference: TransportPreference;
+  travelers: number;
+  currency: string;
+}
+
+const evaluateMode = (spec: ModeSpec, straightKm: number, settings: TransportSettings) => {
+  const routeKm = straightKm * DETOUR_FACTOR;
+  const hours = spec.overheadHours + routeKm / spec.speedKmh;
+  const vehicles = spec.sharedByGroup ? Math.ceil(Math.max(settings.travelers, 1) / TAXI_CAPACITY) : 1;
+  const perPersonUsd = spec.sharedByGroup
+    ? (spec.fareUsd(routeKm) * vehicles) / Math.max(settings.travelers, 1)
+    : spec.fareUsd(routeKm);
+  return { hours, perPersonUsd };
+};
+
+// Walking distance of a leg (street km), counted against the pace's daily walking limit
+export const walkingKm = (leg: TransportLeg): number => leg.mode === 'walk' ? leg.km * DETOUR_FACTOR : 0;
+
+// Picks the mode with the lowest generalised cost (fare + time valued by the preference).
+// Walking is only considered while the leg fits in `walkAllowanceKm`.
+export const chooseTransportLeg = (straightKm: number, settings: TransportSettings, walkAllowanceKm = Infinity): TransportLeg => {
+  let best: TransportLeg | null = null;
+  let bestCost = Infinity;
+
+  (Object.keys(TRANSPORT_MODES) as TransportMode[]).forEach(mode => {
+    const spec = TRANSPORT_MODES[mode];
+    if (straightKm < spec.minKm || straightKm > spec.maxKm) return;
+    if (mode === 'walk' && straightKm * DETOUR_FACTOR > walkAllowanceKm) return;
+    const { hours, perPersonUsd } = evaluateMode(spec, straightKm, settings);
+    const generalised = perPersonUsd + hours * VALUE_OF_TIME_USD[settings.preference];
+    if (generalised < bestCost) {
+      bestCost = generalised;
+      best = { mode, label: spec.label, km: parseFloat(straightKm.toFixed(2)), hours, cost: convertFromUsd(perPersonUsd, settings.currency) };
+    }
+  });
+
+  // Beyond every mode's range (long transfers): rail is the fallback
+  if (!best) {
+    const { hours, perPersonUsd } = evaluateMode(TRANSPORT_MODES.rail, straightKm, settings);
+    best = { mode: 'rail', label: TRANSPORT_MODES.rail.label, km: parseFloat(straightKm.toFixed(2)), hours, cost: convertFromUsd(perPersonUsd, settings.currency) };
+  }
+  return best;
+};
+
+// Inter-city leg between two hotels, chosen with the same generalised cost as chooseTransportLeg
+export const chooseTransferLeg = (straightKm: number, settings: TransportSettings): Omit<TransportLeg, 'mode'> & { mode: IntercityMode } => {
+  const options = (Object.keys(INTERCITY_MODES) as IntercityMode[])
+    .filter(mode => straightKm >= INTERCITY_MODES[mode].minKm && straightKm <= INTERCITY_MODES[mode].maxKm)
+    .map(mode => {
+      const { hours, perPersonUsd } = evaluateMode(INTERCITY_MODES[mode], straightKm, settings);
+      return { mode, hours, perPersonUsd, generalised: perPersonUsd + hours * VALUE_OF_TIME_USD[settings.preference] };
+    })
+    .sort((a, b) => a.generalised - b.generalised);
+  const { mode, hours, perPersonUsd } = options[0];
+  return { mode, label: INTERCITY_MODES[mode].label, km: parseFloat(straightKm.toFixed(2)), hours, cost: convertFromUsd(perPersonUsd, settings.currency) };
+};
+
+export const getTransportSettings = (prefs: UserPreferences): TransportSettings => ({
+  preference: prefs.style.transportPreference || 'balanced',
+  travelers: prefs.travelers || 1,
+  currency: prefs.budget.currency,
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MAX_TRIP_VERSIONS, recordVersion, loadHistory, loadVersion, undoVersion, redoVersion, restoreVersion, canUndo, canRedo,
+} from './tripHistory';
+import { StorageBackend, createMemoryStorage } from './storageService';
+import { ItineraryResult, PlanningContext, UserPreferences } from '../types';
+
+const TRIP = 'trip-1';
+
+const prefs: UserPreferences = {
+  dates: { start: '2026-11-10', end: '2026-11-12', startTime: '10:00', endTime: '18:00' },
+  travelers: 2,
+  airport: '成田機場',
+  hotels: [{ id: 'h1', name: '東京車站飯店', checkIn: '2026-11-10', checkOut: '2026-11-12', location: '東京' }],
+  budget: { amount: 60000, currency: 'JPY' },
+  style: { pace: 'moderate', focus: 'balanced', transportPreference: 'balanced' },
+};
+
+const planningContext: PlanningContext = { prefs, rankedCandidates: [] };
+
+const version = (title: string): ItineraryResult => ({
+  tripTitle: title,
+  totalCostEstimate: 0,
+  currency: 'JPY',
+  summary: '',
+  days: [],
+});
+
+describe('tripHistory on the memory backend', () => {
+  let storage: StorageBackend;
+  beforeEach(() => { storage = createMemoryStorage(); });
+
+  const record = (title: string) => recordVersion(TRIP, version(title), title, 'edit', storage);
+
+  it('starts empty for a trip without history', async () => {
+    const history = await loadHistory(TRIP, storage);
+    expect(history.value).toEqual({ tripId: TRIP, versions: [], cursor: -1 });
+    expect(canUndo(history.value!)).toBe(false);
+  });
+
+  it('undoes and redoes through the recorded versions', async () => {
+    await record('v1');
+    await record('v2');
+    await record('v3');
+
+    const undone = await undoVersion(TRIP, storage);
+    expect(undone.value?.itinerary.tripTitle).toBe('v2');
+    expect(canRedo(undone.value!.history)).toBe(true);
+
+    const redone = await redoVersion(TRIP, storage);
+    expect(redone.value?.itinerary.tripTitle).toBe('v3');
+    expect((await redoVersion(TRIP, storage)).error?.code).toBe('not_found');
+  });
+
+  it('drops the undone versions and their snapshots when a new one is recorded', async () => {
+    await record('v1');
+    const v2 = await record('v2');
+    await undoVersion(TRIP, storage);
+    const history = await record('v3');
+
+    expect(history.value?.versions.map(v => v.label)).toEqual(['v1', 'v3']);
+    const undoneId = v2.value!.versions[1].id;
+    expect((await loadVersion(TRIP, undoneId, storage)).error?.code).toBe('not_found');
+  });
+
+  it('restores an old version as the newest one', async () => {
+    const v1 = await record('v1');
+    await record('v2');
+    await undoVersion(TRIP, storage);
+
+    const restored = await restoreVersion(TRIP, v1.value!.versions[0], storage);
+    expect(restored.value?.itinerary.tripTitle).toBe('v1');
+    expect(restored.value?.history.versions.map(v => v.label)).toEqual(['v1', 'v2', '還原至「v1」']);
+    expect(restored.value?.history.cursor).toBe(2);
+  });
+
+  it('leaves the planning context out of snapshots', async () => {
+    const withContext = { ...version('v1'), planningContext };
+    const recorded = await recordVersion(TRIP, withContext, 'v1', 'generate', storage);
+    const snapshot = await loadVersion(TRIP, recorded.value!.versions[0].id, storage);
+    expect(snapshot.value).toEqual(version('v1'));
+  });
+
+  it(`keeps at most ${MAX_TRIP_VERSIONS} versions`, async () => {
+    for (let i = 1; i <= MAX_TRIP_VERSIONS + 2; i++) await record(`v${i}`);
+
+    const history = await loadHistory(TRIP, storage);
+    expect(history.value?.versions).toHaveLength(MAX_TRIP_VERSIONS);
+    expect(history.value?.versions[0].label).toBe('v3');
+    expect((await storage.list('tripVersions')).value).toHaveLength(MAX_TRIP_VERSIONS);
+  });
+});
@@ -0,0 +1,122 @@
+import { ItineraryResult } from "../types";
+import { StorageBackend, StorageResult, getDefaultStorage, createDocumentId } from "./storageService";
+
+// Version history of a "My Trips" entry: every generation, regeneration or edit is stored as a snapshot,
+// and undo / redo move a cursor through them. Recording after an undo drops the versions that were undone,
+// like any editor; restoring an old version instead records it again as the newest one.
+
+export type TripVersionKind = 'generate' | 'regenerate_day' | 'replace_activity' | 'edit' | 'restore';
+
+export interface TripVersionMeta {
+  id: string;
+  label: string; // e.g. "重新生成 Day 2"
+  kind: TripVersionKind;
+  createdAt: string; // ISO timestamp
+}
+
+export interface TripHistory {
+  tripId: string;
+  versions: TripVersionMeta[]; // Oldest first
+  cursor: number; // Index of the version on screen
+}
+
+export const MAX_TRIP_VERSIONS = 50; // Older snapshots are deleted beyond this
+
+const HISTORIES = 'tripHistory';
+const VERSIONS = 'tripVersions';
+
+const versionKey = (tripId: string, versionId: string) => `${tripId}:${versionId}`;
+
+// The planning context is the same for every version of a trip, so snapshots leave it out
+const toSnapshot = ({ planningContext, ...itinerary }: ItineraryResult): ItineraryResult => itinerary;
+
+export const canUndo = (history: TripHistory | null): boolean => !!history && history.cursor > 0;
+export const canRedo = (history: TripHistory | null): boolean => !!history && history.cursor < history.versions.length - 1;
+
+// A trip saved before history existed has none yet
+export const loadHistory = async (tripId: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<TripHistory>> => {
+  const result = await storage.get<TripHistory>(HISTORIES, tripId);
+  if (!result.ok && result.error.code === 'not_found') return { ok: true, value: { tripId, versions: [], cursor: -1 } };
+  return result;
+};
+
+const removeSnapshots = (tripId: string, versions: TripVersionMeta[], storage: StorageBackend) =>
+  Promise.all(versions.map(v => storage.remove(VERSIONS, versionKey(tripId, v.id))));
+
+export const recordVersion = async (
+  tripId: string,
+  itinerary: ItineraryResult,
+  label: string,
+  kind: TripVersionKind,
+  storage: StorageBackend = getDefaultStorage()
+): Promise<StorageResult<TripHistory>> => {
+  const loaded = await loadHistory(tripId, storage);
+  if (!loaded.ok) return loaded;
+
+  const meta: TripVersionMeta = { id: createDocumentId(), label, kind, createdAt: new Date().toISOString() };
+  const saved = await storage.put(VERSIONS, versionKey(tripId, meta.id), toSnapshot(itinerary));
+  if (!saved.ok) return { ok: false, error: saved.error };
+
+  const kept = loaded.value.versions.slice(0, loaded.value.cursor + 1);
+  const undone = loaded.value.versions.slice(loaded.value.cursor + 1);
+  const versions = [...kept, meta];
+  const expired = versions.splice(0, Math.max(versions.length - MAX_TRIP_VERSIONS, 0));
+  const history: TripHistory = { tripId, versions, cursor: versions.length - 1 };
+
+  const written = await storage.put(HISTORIES, tripId, history);
+  if (!written.ok) return { ok: false, error: written.error };
+  // Best effort: an orphaned snapshot only costs space
+  await removeSnapshots(tripId, [...undone, ...expired], storage);
+  return { ok: true, value: history };
+};
+
+// Snapshot of one version; the caller re-attaches the trip's planning context
+export const loadVersion = (tripId: string, versionId: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<ItineraryResult>> =>
+  storage.get<ItineraryResult>(VERSIONS, versionKey(tripId, versionId));
+
+// Moves the cursor by `step` (-1 = undo, 1 = redo) and returns the version now on screen
+const moveCursor = async (tripId: string, step: number, storage: StorageBackend): Promise<StorageResult<{ history: TripHistory; itinerary: ItineraryResult }>> => {
+  const loaded = await loadHistory(tripId, storage);
+  if (!loaded.ok) return { ok: false, error: loaded.error };
+  const cursor = loaded.value.cursor + step;
+  if (cursor < 0 || cursor >= loaded.value.versions.length) {
+    return { ok: false, error: { code: 'not_found', message: step < 0 ? 'Nothing to undo' : 'Nothing to redo' } };
+  }
+
+  const snapshot = await loadVersion(tripId, loaded.value.versions[cursor].id, storage);
+  if (!snapshot.ok) return { ok: false, error: snapshot.error };
+  const history = { ...loaded.value, cursor };
+  const written = await storage.put(HISTORIES, tripId, history);
+  if (!written.ok) return { ok: false, error: written.error };
+  return { ok: true, value: { history, itinerary: snapshot.value } };
+};
+
+export const undoVersion = (tripId: string, storage: StorageBackend = getDefaultStorage()) => moveCursor(tripId, -1, storage);
+export const redoVersion = (tripId: string, storage: StorageBackend = getDefaultStorage()) => moveCursor(tripId, 1, storage);
+
+// Makes an old version the newest one again, keeping everything in between
+export const restoreVersion = async (
+  tripId: string,
+  version: TripVersionMeta,
+  storage: StorageBackend = getDefaultStorage()
+): Promise<StorageResult<{ history: TripHistory; itinerary: ItineraryResult }>> => {
+  const snapshot = await loadVersion(tripId, version.id, storage);
+  if (!snapshot.ok) return { ok: false, error: snapshot.error };
+  const loaded = await loadHistory(tripId, storage);
+  if (!loaded.ok) return { ok: false, error: loaded.error };
+  // Moving to the end first means nothing is discarded as "undone"
+  const moved = await storage.put(HISTORIES, tripId, { ...loaded.value, cursor: loaded.value.versions.length - 1 });
+  if (!moved.ok) return { ok: false, error: moved.error };
+
+  const recorded = await recordVersion(tripId, snapshot.value, `還原至「${version.label}」`, 'restore', storage);
+  if (!recorded.ok) return { ok: false, error: recorded.error };
+  return { ok: true, value: { history: recorded.value, itinerary: snapshot.value } };
+};
+
+// Removes every version of a trip (when the trip itself is deleted)
+export const deleteHistory = async (tripId: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<void>> => {
+  const loaded = await loadHistory(tripId, storage);
+  if (!loaded.ok) return { ok: false, error: loaded.error };
+  await removeSnapshots(tripId, loaded.value.versions, storage);
+  return storage.remove(HISTORIES, tripId);
+};
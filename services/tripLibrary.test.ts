@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { saveTrip, loadTrip, listTrips, renameTrip, duplicateTrip, deleteTrip, filterTrips } from './tripLibrary';
+import { recordVersion, loadHistory } from './tripHistory';
+import { StorageBackend, createMemoryStorage } from './storageService';
+import { ItineraryResult, UserPreferences } from '../types';
+
+const prefs: UserPreferences = {
+  dates: { start: '2026-11-10', end: '2026-11-12', startTime: '10:00', endTime: '18:00' },
+  timeZone: 'Asia/Tokyo',
+  travelers: 2,
+  airport: '成田機場',
+  hotels: [
+    { id: 'h1', name: '東京車站飯店', checkIn: '2026-11-10', checkOut: '2026-11-11', location: '東京' },
+    { id: 'h2', name: '京都站前飯店', checkIn: '2026-11-11', checkOut: '2026-11-12', location: '京都' },
+  ],
+  budget: { amount: 60000, currency: 'JPY' },
+  style: { pace: 'moderate', focus: 'balanced', transportPreference: 'balanced' },
+};
+
+const itinerary: ItineraryResult = {
+  tripTitle: '東京京都三日遊',
+  totalCostEstimate: 12000,
+  currency: 'JPY',
+  summary: '',
+  days: [1, 2, 3].map(dayNumber => ({ date: `2026-11-${9 + dayNumber}`, dayNumber, summary: '', activities: [] })),
+};
+
+describe('tripLibrary on the memory backend', () => {
+  let storage: StorageBackend;
+  beforeEach(() => { storage = createMemoryStorage(); });
+
+  it('saves a trip with its summary and loads it back', async () => {
+    const saved = await saveTrip(itinerary, prefs, undefined, storage);
+    expect(saved.ok).toBe(true);
+    expect(saved.value).toMatchObject({ name: '東京京都三日遊', destination: '東京、京都', start: '2026-11-10', end: '2026-11-12', dayCount: 3, travelers: 2 });
+
+    const loaded = await loadTrip(saved.value!.id, storage);
+    expect(loaded.value?.itinerary).toEqual(itinerary);
+    expect(loaded.value?.prefs).toEqual(prefs);
+  });
+
+  it('keeps the name and creation time when a trip is saved again', async () => {
+    const saved = await saveTrip(itinerary, prefs, undefined, storage);
+    await renameTrip(saved.value!.id, '秋季旅行', storage);
+    const resaved = await saveTrip({ ...itinerary, tripTitle: '新標題' }, prefs, saved.value!.id, storage);
+
+    expect(resaved.value?.name).toBe('秋季旅行');
+    expect(resaved.value?.createdAt).toBe(saved.value!.createdAt);
+    expect((await listTrips(storage)).value).toHaveLength(1);
+  });
+
+  it('lists duplicates as separate trips, most recently edited first', async () => {
+    const saved = await saveTrip(itinerary, prefs, undefined, storage);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const copy = await duplicateTrip(saved.value!.id, storage);
+
+    const listed = await listTrips(storage);
+    expect(listed.value?.map(t => t.name)).toEqual(['東京京都三日遊 (副本)', '東京京都三日遊']);
+    expect(copy.value?.id).not.toBe(saved.value!.id);
+  });
+
+  it('deletes a trip together with its version history', async () => {
+    const saved = await saveTrip(itinerary, prefs, undefined, storage);
+    const id = saved.value!.id;
+    await recordVersion(id, itinerary, '產生行程', 'generate', storage);
+
+    expect((await deleteTrip(id, storage)).ok).toBe(true);
+    expect((await loadTrip(id, storage)).error?.code).toBe('not_found');
+    expect((await listTrips(storage)).value).toEqual([]);
+    expect((await loadHistory(id, storage)).value?.versions).toEqual([]);
+    expect((await storage.list('tripVersions')).value).toEqual([]);
+  });
+
+  it('lists only the trips of the current owner', async () => {
+    // Two signed-in users of the same database
+    const as = (uid: string): StorageBackend => ({ ...storage, getOwnerId: async () => ({ ok: true, value: uid }) });
+    const alice = as('alice');
+    const bob = as('bob');
+    const saved = await saveTrip(itinerary, prefs, undefined, alice);
+    await saveTrip({ ...itinerary, tripTitle: '大阪之旅' }, prefs, undefined, bob);
+
+    expect(saved.value?.ownerUid).toBe('alice');
+    expect((await loadTrip(saved.value!.id, alice)).value?.ownerUid).toBe('alice');
+    expect((await listTrips(alice)).value?.map(t => t.name)).toEqual(['東京京都三日遊']);
+    expect((await listTrips(bob)).value?.map(t => t.name)).toEqual(['大阪之旅']);
+  });
+
+  it('still lists trips saved on the device before trips had owners', async () => {
+    const { ownerUid: _owner, ...legacy } = (await saveTrip(itinerary, prefs, undefined, storage)).value!;
+    await storage.put('tripIndex', legacy.id, legacy);
+    expect((await listTrips(storage)).value?.map(t => t.id)).toEqual([legacy.id]);
+  });
+
+  it('splits trips into upcoming and past at the destination', async () => {
+    const saved = await saveTrip(itinerary, prefs, undefined, storage);
+    const trips = [saved.value!];
+    // 2026-11-13 00:30 in Tokyo is still 2026-11-12 in UTC
+    const now = new Date('2026-11-12T15:30:00Z');
+    expect(filterTrips(trips, 'past', now)).toHaveLength(1);
+    expect(filterTrips(trips, 'upcoming', new Date('2026-11-12T14:30:00Z'))).toHaveLength(1);
+  });
+});
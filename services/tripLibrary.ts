@@ -0,0 +1,135 @@
+import { ItineraryResult, UserPreferences } from "../types";
+import { StorageBackend, StorageResult, LOCAL_OWNER_ID, getDefaultStorage, createDocumentId } from "./storageService";
+import { deleteHistory } from "./tripHistory";
+import { TripDate, todayIn, countTripDays } from "../utils/tripDates";
+
+// "My Trips": every generated itinerary is saved with the preferences it came from, so it can be reopened
+// (and re-planned) later. Full trips and their list entries live in separate collections, so listing the
+// library never downloads the planning context of every trip. Both carry the owner's id, which is what
+// the Firestore rules check and what the library is listed by.
+
+export interface TripSummary {
+  id: string;
+  ownerUid: string; // StorageBackend.getOwnerId of whoever last saved the trip
+  name: string;
+  destination: string; // Hotel locations, e.g. "東京、京都"
+  start: TripDate;
+  end: TripDate;
+  timeZone?: string; // Decides when the trip counts as past
+  dayCount: number;
+  travelers: number;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+export interface SavedTrip {
+  ownerUid: string; // Same as summary.ownerUid
+  summary: TripSummary;
+  itinerary: ItineraryResult;
+  prefs: UserPreferences;
+}
+
+export type TripFilter = 'all' | 'upcoming' | 'past';
+
+const TRIPS = 'trips';
+const TRIP_INDEX = 'tripIndex';
+
+const describeDestination = (prefs: UserPreferences): string =>
+  Array.from(new Set(prefs.hotels.map(h => h.location.trim()).filter(Boolean))).join('、') || prefs.airport;
+
+const buildSummary = (id: string, name: string, itinerary: ItineraryResult, prefs: UserPreferences, createdAt: string): Omit<TripSummary, 'ownerUid'> => ({
+  id,
+  name,
+  destination: describeDestination(prefs),
+  start: prefs.dates.start,
+  end: prefs.dates.end,
+  ...(prefs.timeZone ? { timeZone: prefs.timeZone } : {}),
+  dayCount: itinerary.days.length || countTripDays(prefs.dates.start, prefs.dates.end),
+  travelers: prefs.travelers,
+  createdAt,
+  updatedAt: new Date().toISOString(),
+});
+
+// The full trip first, so a list entry never points at a missing trip. Both are stamped with the
+// current owner.
+const writeTrip = async (
+  trip: { summary: Omit<TripSummary, 'ownerUid'>; itinerary: ItineraryResult; prefs: UserPreferences },
+  storage: StorageBackend
+): Promise<StorageResult<TripSummary>> => {
+  const owner = await storage.getOwnerId();
+  if (!owner.ok) return { ok: false, error: owner.error };
+  const summary: TripSummary = { ...trip.summary, ownerUid: owner.value };
+  const saved = await storage.put<SavedTrip>(TRIPS, summary.id, { ...trip, ownerUid: owner.value, summary });
+  if (!saved.ok) return { ok: false, error: saved.error };
+  const indexed = await storage.put(TRIP_INDEX, summary.id, summary);
+  if (!indexed.ok) return { ok: false, error: indexed.error };
+  return { ok: true, value: summary };
+};
+
+// Creates a trip, or overwrites trip `id` (auto-save after every edit). The name is kept on overwrite.
+export const saveTrip = async (
+  itinerary: ItineraryResult,
+  prefs: UserPreferences,
+  id?: string,
+  storage: StorageBackend = getDefaultStorage()
+): Promise<StorageResult<TripSummary>> => {
+  const existing = id ? await storage.get<TripSummary>(TRIP_INDEX, id) : null;
+  if (existing && !existing.ok && existing.error.code !== 'not_found') return { ok: false, error: existing.error };
+
+  const previous = existing?.ok ? existing.value : null;
+  const summary = buildSummary(id || createDocumentId(), previous?.name || itinerary.tripTitle, itinerary, prefs, previous?.createdAt || new Date().toISOString());
+  return writeTrip({ summary, itinerary, prefs }, storage);
+};
+
+export const loadTrip = (id: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<SavedTrip>> =>
+  storage.get<SavedTrip>(TRIPS, id);
+
+// The current owner's trips, most recently edited first. On a device-only backend, trips saved before
+// trips had owners are listed too (and become the owner's the next time they are saved).
+export const listTrips = async (storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<TripSummary[]>> => {
+  const owner = await storage.getOwnerId();
+  if (!owner.ok) return { ok: false, error: owner.error };
+  const result = await storage.list<TripSummary>(TRIP_INDEX, { ownerUid: owner.value });
+  if (!result.ok) return { ok: false, error: result.error };
+  let trips = result.value.map(d => d.data);
+  if (owner.value === LOCAL_OWNER_ID) {
+    const all = await storage.list<TripSummary>(TRIP_INDEX);
+    if (!all.ok) return { ok: false, error: all.error };
+    trips = [...trips, ...all.value.map(d => d.data).filter(t => !t.ownerUid)];
+  }
+  return { ok: true, value: trips.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)) };
+};
+
+export const renameTrip = async (id: string, name: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<TripSummary>> => {
+  const trip = await loadTrip(id, storage);
+  if (!trip.ok) return { ok: false, error: trip.error };
+  const summary = { ...trip.value.summary, name: name.trim() || trip.value.summary.name, updatedAt: new Date().toISOString() };
+  return writeTrip({ ...trip.value, summary }, storage);
+};
+
+// The copy starts without version history
+export const duplicateTrip = async (id: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<TripSummary>> => {
+  const trip = await loadTrip(id, storage);
+  if (!trip.ok) return { ok: false, error: trip.error };
+  const now = new Date().toISOString();
+  const summary = { ...trip.value.summary, id: createDocumentId(), name: `${trip.value.summary.name} (副本)`, createdAt: now, updatedAt: now };
+  return writeTrip({ ...trip.value, summary }, storage);
+};
+
+// The list entry goes first, so a half-finished delete leaves an orphaned trip rather than a broken entry.
+// The trip's version history goes with it (duplicates have their own), before the trip itself: access to
+// the history is granted by owning the trip.
+export const deleteTrip = async (id: string, storage: StorageBackend = getDefaultStorage()): Promise<StorageResult<void>> => {
+  const unlisted = await storage.remove(TRIP_INDEX, id);
+  if (!unlisted.ok) return unlisted;
+  const forgotten = await deleteHistory(id, storage);
+  if (!forgotten.ok) return forgotten;
+  return storage.remove(TRIPS, id);
+};
+
+// A trip is past once its last day is over at the destination; trips under way count as upcoming
+export const isPastTrip = (trip: Pick<TripSummary, 'end' | 'timeZone'>, now: Date = new Date()): boolean =>
+  trip.end < todayIn(trip.timeZone, now);
+
+export const filterTrips = (trips: TripSummary[], filter: TripFilter, now: Date = new Date()): TripSummary[] =>
+  filter === 'all' ? trips : trips.filter(t => isPastTrip(t, now) === (filter === 'past'));
@@ -10,14 +10,53 @@ export interface Hotel {
   longitude?: number;
 }
 
+export interface MealWindow {
+  start: string; // "HH:MM", earliest time to sit down
+  end: string; // "HH:MM", latest time to sit down
+}
+
+// An omitted meal means the optimizer reserves no slot for it
+export interface MealPreferences {
+  lunch?: MealWindow;
+  dinner?: MealWindow;
+}
+
+// Relative importance of each rankCandidates component (normalised to sum to 1)
+export interface ScoringWeights {
+  rating: number;
+  categoryMatch: number; // Category vs. style.focus
+  distance: number; // Closeness to the nearest hotel
+  reviewCount: number; // Popularity
+  price: number; // Cheaper places score higher
+}
+
+export interface ScoringPreferences {
+  profile: string; // Id from SCORING_PROFILES, or 'custom'
+  weights?: ScoringWeights; // Only used when profile is 'custom'
+}
+
+// Points each component contributed to CandidatePlace.score
+export interface ScoreBreakdown {
+  profile: string;
+  rating: number;
+  categoryMatch: number;
+  distance: number;
+  reviewCount: number;
+  price: number;
+  penalty: number; // Negative: unknown location or more than 100 km from every hotel
+}
+
 export interface UserPreferences {
   dates: {
-    start: string;
+    start: string; // Trip-local "YYYY-MM-DD" (see utils/tripDates)
     end: string;
-    startTime: string; // e.g. "10:00"
+    startTime: string; // e.g. "10:00", local time at the destination
     endTime: string;
   };
+  timeZone?: string; // IANA zone of the destination, e.g. "Asia/Tokyo"; omitted = the browser's zone
+  country?: string; // ISO 3166-1 alpha-2 code of the destination, for its public holiday calendar
   travelers: number; // New field for number of people
+  travelerProfiles?: TravelerProfile[]; // Who they are; omitted = `travelers` adults without mobility needs
   airport: string;
   hotels: Hotel[];
   budget: {
@@ -30,6 +69,53 @@ export interface UserPreferences {
     transportPreference: 'cheaper' | 'faster' | 'balanced'; // 省錢(巴士), 省時(新幹線), 平衡
   };
   customRequests?: string; // New: Free text for specific requirements (e.g. day trips)
+  mustVisit?: string[]; // Place names that optimizeRoute must schedule (hard constraint)
+  meals?: MealPreferences; // Defaults to DEFAULT_MEALS
+  scoring?: ScoringPreferences; // Defaults to the 'balanced' profile
+  paceByDay?: Record<number, TravelPace>; // Per-day override of style.pace, keyed by day number
+  dayTrips?: DayTrip[]; // Whole days away from the hotel's area, each given its own day by optimizeRoute
+}
+
+export type AgeGroup = 'adult' | 'child' | 'senior';
+export type MobilityNeed = 'wheelchair' | 'stroller' | 'limited_walking';
+
+// Travellers of the same age group and needs, e.g. 2 adults or 1 senior using a wheelchair
+export interface TravelerProfile {
+  ageGroup: AgeGroup;
+  count: number;
+  mobility?: MobilityNeed;
+}
+
+// A day spent at a destination beyond the hotel's area, e.g. 日光 from Tokyo
+export interface DayTrip {
+  destination: string;
+  date?: string; // Preferred trip-local "YYYY-MM-DD"; omitted = flexible, the optimizer picks the day
+}
+
+export type TravelPace = UserPreferences['style']['pace'];
+
+// Daily load limits applied by optimizeRoute for each pace
+export interface PaceSettings {
+  maxStops: number; // Sights per day, meals not counted
+  endTime: string; // "HH:MM" the last stop must finish by
+  restMinutes: number; // Buffer between consecutive stops
+  maxWalkKm: number; // Walking per day; longer legs switch to transit once it is used up
+}
+
+// Date-specific exceptions to a place's weekly hours; all dates are trip-local "YYYY-MM-DD"
+export interface ClosureCalendar {
+  closedDates?: string[];
+  closedRanges?: { from: string; to: string }[]; // Inclusive, e.g. the New Year break
+  closedOnHolidays?: boolean; // Closed on the destination's public holidays
+  closedAfterHolidays?: boolean; // Closed on the first non-holiday after a public holiday
+  openOnHolidays?: boolean; // Weekly closedDays do not apply on public holidays ("週一休館，遇假日順延")
+  openOnlyOn?: string[]; // Special-event places: closed on every other date
+}
+
+// A public holiday from a HolidaySource
+export interface Holiday {
+  date: string; // Trip-local "YYYY-MM-DD"
+  name: string;
 }
 
 // Intermediate type for the Ranking Engine
@@ -38,7 +124,8 @@ export interface CandidatePlace {
   category: 'sightseeing' | 'shopping' | 'food' | 'culture' | 'other';
   rating: number; // 1-5
   reviewCount: number;
-  priceLevel: number; // 1-4 ($, $$, $$$, $$$$)
+  priceLevel?: number; // 0-4 (free, $, $$, $$$, $$$$); omitted when unknown
+  admissionFee?: { amount: number; currency: string }; // Adult admission as quoted, 0 = free; omitted when unknown
   latitude: number;
   longitude: number;
   description: string;
@@ -46,6 +133,8 @@ export interface CandidatePlace {
   // New: Time Constraint Dictionary Data
   // 0=Sun, 1=Mon, ..., 6=Sat
   closedDays?: number[]; 
+  closures?: ClosureCalendar; // Closures tied to dates rather than weekdays
+  accessibility?: PlaceAccessibility;
   openingText?: string; // e.g. "10:00 - 22:00"
   website?: string; // New: Official website URL
   
@@ -54,11 +143,40 @@ export interface CandidatePlace {
 
   // Calculated fields
   score?: number;
+  scoreBreakdown?: ScoreBreakdown;
   distanceFromHotel?: number; // km
   matchReason?: string;
   
   // Algorithm output
   suggestedDay?: number; // Which day of the trip (1-based) the algo assigned this to
+  pinned?: boolean; // User insisted on keeping this place during candidate review
+  plannedArrival?: string; // "HH:MM", start of the visit after travel / waiting for opening
+  plannedDeparture?: string; // "HH:MM"
+  mealSlot?: 'lunch' | 'dinner'; // Set when the optimizer booked this place as a meal
+  estimatedCost?: number; // Per person, trip currency; omitted when the price is unknown
+  transportFromPrevious?: TransportLeg; // Leg arriving here (from the hotel / airport for the first stop)
+  cityTransfer?: CityTransfer; // Set on the transfer block the optimizer inserts when the hotel changes city
+  dayTrip?: ScheduledDayTrip; // Set on the outbound / return legs the optimizer inserts on a day-trip day
+}
+
+// What the Stage 1 search knows about access; a missing field counts as suitable
+export interface PlaceAccessibility {
+  wheelchair?: boolean; // false = not step-free
+  stroller?: boolean;
+  strenuous?: boolean; // Long climbs, hikes or many stairs
+  adultsOnly?: boolean;
+}
+
+export type TransportMode = 'walk' | 'rail' | 'bus' | 'taxi';
+export type IntercityMode = 'rail' | 'bus' | 'flight';
+
+// One leg between consecutive stops, chosen by services/transportModel
+export interface TransportLeg {
+  mode: TransportMode;
+  label: string; // Shown as Activity.transportMethod
+  km: number; // Straight-line distance
+  hours: number; // Door to door, including walking to the station and waiting
+  cost: number; // Per person, trip currency
 }
 
 export interface Activity {
@@ -79,6 +197,29 @@ export interface Activity {
   googleMapsUri?: string;
   rating?: string;
   isMeal?: boolean;
+  isTransfer?: boolean; // Inter-city leg (hotel change or day trip); details in ItineraryResult.transfers / dayTrips
+  costByAgeGroup?: Partial<Record<AgeGroup, number>>; // Per-person cost for groups not paying `cost` (the adult price)
+  costUnknown?: boolean; // No price was found; `cost` stays 0 until one is
+}
+
+// Move between hotels in different cities, on the day the second hotel's stay begins
+export interface CityTransfer {
+  day: number;
+  name: string; // Shown as the Activity placeName, e.g. "移動：東京 → 京都"
+  fromHotel: string;
+  toHotel: string;
+  fromLocation: string; // Hotel.location, e.g. "東京"
+  toLocation: string;
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number };
+  mode: IntercityMode;
+  label: string; // Shown as Activity.transportMethod
+  km: number; // Straight-line distance between the hotels
+  hours: number; // Hotel to hotel, including getting to the station / airport and waiting
+  cost: number; // Per person, trip currency
+  depart: string; // "HH:MM", leaving the old hotel with the luggage
+  arrive: string; // "HH:MM" at the new hotel
+  luggage: string; // How to handle the luggage around the day's sightseeing
 }
 
 export interface DayPlan {
@@ -88,6 +229,59 @@ export interface DayPlan {
   activities: Activity[];
 }
 
+// A day reserved for a UserPreferences.dayTrips entry, with the legs out of and back to the hotel
+export interface ScheduledDayTrip {
+  destination: string;
+  day: number;
+  date: string;
+  requestedDate?: string; // Set when the destination was closed on the requested date and another day was chosen
+  from: { lat: number; lng: number }; // That day's hotel
+  to: { lat: number; lng: number }; // The destination
+  mode: IntercityMode;
+  label: string;
+  hours: number; // One way, hotel to destination
+  cost: number; // Per person, one way, trip currency
+  outbound: DayTripLeg;
+  back: DayTripLeg;
+}
+
+export interface DayTripLeg {
+  name: string; // Shown as the Activity placeName
+  depart: string; // "HH:MM"
+  arrive: string;
+}
+
+// Why a requested day trip got no day
+export interface DayTripIssue {
+  destination: string;
+  reason: 'not_found' | 'too_close' | 'closed' | 'no_day';
+}
+
+// Why a must-visit place could not be scheduled
+export interface MustVisitIssue {
+  name: string;
+  reason: 'not_found' | 'unsuitable' | 'closed' | 'too_far' | 'no_time' | 'removed'; // 'removed': taken out in the candidate review
+}
+
+// One change to the plan that lowers the per-person spend: a stop replaced by a cheaper one, or dropped
+export interface BudgetSwap {
+  day: number;
+  remove: string;
+  add?: string; // Omitted when the stop is simply dropped
+  savings: number; // Per person, trip currency
+  scoreLoss: number; // Ranking score given up (negative when the swap is an improvement)
+  mustVisit?: boolean; // Touches a must-visit place, so it is only ever suggested
+}
+
+// Planned per-person spend (attractions, meals, transport) against the budget
+export interface BudgetReport {
+  budget: number;
+  plannedSpend: number;
+  overrun: number; // 0 when the plan fits the budget
+  appliedSwaps: BudgetSwap[]; // Made automatically by the optimizer
+  suggestedSwaps: BudgetSwap[]; // Cheapest further changes that would close a remaining overrun
+}
+
 export interface ItineraryResult {
   tripTitle: string;
   totalCostEstimate: number;
@@ -96,4 +290,53 @@ export interface ItineraryResult {
   days: DayPlan[];
   exchangeRateUsed?: number;
   travelers?: number; // Added field to persist traveler count
+  travelerProfiles?: TravelerProfile[]; // Persisted with the trip so shared links can price per profile
+  planningContext?: PlanningContext; // Kept so parts of the trip can be re-planned later
+  mustVisitIssues?: MustVisitIssue[]; // Must-visit places the optimizer could not fit
+  budgetReport?: BudgetReport; // Optimizer's spend estimate against budget.amount
+  transfers?: CityTransfer[]; // Inter-city moves on the days the hotel changes city
+  dayTrips?: ScheduledDayTrip[];
+  dayTripIssues?: DayTripIssue[]; // Requested day trips that could not be scheduled
+}
+
+// Route quality figures measured on the optimizer's schedule
+export interface RouteMetrics {
+  totalKm: number; // Straight-line km including the return to the hotel each day
+  travelHours: number;
+  idleHours: number; // Waiting for places to open
+}
+
+// What the local-search pass after the greedy route gained
+export interface RouteImprovement {
+  before: RouteMetrics;
+  after: RouteMetrics;
+  iterations: number;
+  elapsedMs: number;
+}
+
+// Pipeline state retained after generation (ranked pool + constraints used by optimizeRoute)
+export interface PlanningContext {
+  prefs: UserPreferences; // Hotels carry the geocoded coordinates from Stage 1
+  rankedCandidates: CandidatePlace[];
+  airportCoords?: { lat: number; lng: number };
+  routeImprovement?: RouteImprovement;
+  holidays?: Holiday[]; // Public holidays within the trip, reused when re-planning
+}
+
+// Candidate review step between Stage 2 (routing) and Stage 3 (final planning)
+export interface CandidateReview {
+  totalDays: number;
+  scheduled: CandidatePlace[]; // Output of optimizeRoute, each with suggestedDay
+  unscheduled: CandidatePlace[]; // Ranked candidates the optimizer dropped
+}
+
+// Progress reporting for the generateItinerary pipeline
+export type PipelineStage = 'airport' | 'candidates' | 'routing' | 'final';
+
+export interface ProgressEvent {
+  stage: PipelineStage;
+  status: 'running' | 'done' | 'skipped';
+  completed?: number; // e.g. hotels searched / days planned so far
+  total?: number;
+  detail?: string;
 }
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { budgetedPlaceCost, convertCurrency, estimateMealCost, estimatePlaceCost } from './costEstimates';
+
+describe('estimatePlaceCost', () => {
+  it('prices a meal by its price level', () => {
+    expect(estimatePlaceCost({ category: 'food', priceLevel: 1 }, 'USD')).toBe(10);
+    expect(estimatePlaceCost({ category: 'food', priceLevel: 4 }, 'USD')).toBe(80);
+  });
+
+  it('prefers the quoted admission fee over the price level', () => {
+    expect(estimatePlaceCost({ category: 'culture', priceLevel: 3, admissionFee: { amount: 1000, currency: 'JPY' } }, 'JPY')).toBe(1000);
+    expect(estimatePlaceCost({ category: 'culture', admissionFee: { amount: 1500, currency: 'JPY' } }, 'USD')).toBe(10);
+    expect(estimatePlaceCost({ category: 'sightseeing', admissionFee: { amount: 0, currency: 'JPY' } }, 'JPY')).toBe(0);
+  });
+
+  it('treats price level 0 as free', () => {
+    expect(estimatePlaceCost({ category: 'sightseeing', priceLevel: 0 }, 'JPY')).toBe(0);
+  });
+
+  it('leaves the cost unknown when nothing is known about the price', () => {
+    expect(estimatePlaceCost({ category: 'sightseeing' }, 'JPY')).toBeUndefined();
+    expect(estimatePlaceCost({ category: 'food' }, 'JPY')).toBeUndefined();
+    expect(estimateMealCost(undefined, 'JPY')).toBeUndefined();
+  });
+});
+
+describe('budgetedPlaceCost', () => {
+  it('assumes a typical price for places without one, so they never look free', () => {
+    expect(budgetedPlaceCost({ category: 'culture' }, 'USD')).toBe(15);
+    expect(budgetedPlaceCost({ category: 'food' }, 'USD')).toBe(20);
+    expect(budgetedPlaceCost({ category: 'culture', priceLevel: 0 }, 'USD')).toBe(0);
+  });
+});
+
+describe('convertCurrency', () => {
+  it('goes through the approximate USD rates', () => {
+    expect(convertCurrency(150, 'JPY', 'USD')).toBe(1);
+    expect(convertCurrency(1234.4, 'JPY', 'JPY')).toBe(1234);
+  });
+});
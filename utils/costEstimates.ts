@@ -0,0 +1,38 @@
+import { CandidatePlace } from "../types";
+import { APPROX_USD_RATES, MEAL_COST_USD, ENTRY_COST_USD } from "../constants";
+
+// Offline cost estimates used by the route optimizer; Stage 3 may refine them with live prices.
+
+export const convertFromUsd = (amountUsd: number, currency: string): number =>
+  Math.round(amountUsd * (APPROX_USD_RATES[currency] ?? 1));
+
+export const convertCurrency = (amount: number, from: string, to: string): number =>
+  from === to ? Math.round(amount) : convertFromUsd(amount / (APPROX_USD_RATES[from] ?? 1), to);
+
+// Undefined when the price level is unknown
+export const estimateMealCost = (priceLevel: number | undefined, currency: string): number | undefined => {
+  if (priceLevel === undefined) return undefined;
+  const level = Math.min(Math.max(Math.round(priceLevel), 1), 4);
+  return convertFromUsd(MEAL_COST_USD[level], currency);
+};
+
+// Per-person spend at a place: a meal for food places, admission otherwise (the quoted fee when there is one).
+// Undefined when nothing is known about its price, rather than assuming it is free.
+export const estimatePlaceCost = (
+  place: Pick<CandidatePlace, 'category' | 'priceLevel' | 'admissionFee'>,
+  currency: string
+): number | undefined => {
+  if (place.category === 'food') return estimateMealCost(place.priceLevel, currency);
+  if (place.admissionFee) return convertCurrency(place.admissionFee.amount, place.admissionFee.currency, currency);
+  if (place.priceLevel === undefined) return undefined;
+  const level = Math.min(Math.max(Math.round(place.priceLevel), 0), 4);
+  return convertFromUsd(ENTRY_COST_USD[level], currency);
+};
+
+// What a place is assumed to cost when keeping to a budget: its estimate, or a typical price when unknown,
+// so that places without a price never look like the cheapest choice
+export const budgetedPlaceCost = (
+  place: Pick<CandidatePlace, 'category' | 'priceLevel' | 'admissionFee'>,
+  currency: string
+): number =>
+  estimatePlaceCost(place, currency) ?? estimatePlaceCost({ category: place.category, priceLevel: 2 }, currency)!;
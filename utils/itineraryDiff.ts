@@ -0,0 +1,107 @@
+import { ItineraryResult, Activity } from "../types";
+
+// Differences between two versions of a trip, activity by activity. Activities are matched by place name;
+// a name that appears several times (e.g. "市區自由探索") is matched occurrence by occurrence, in trip order.
+
+export interface ActivityRef {
+  placeName: string;
+  day: number;
+  time: string;
+}
+
+export interface MovedActivity {
+  placeName: string;
+  from: Omit<ActivityRef, 'placeName'>;
+  to: Omit<ActivityRef, 'placeName'>;
+}
+
+export interface ChangedActivity extends ActivityRef {
+  changes: { field: 'time' | 'cost' | 'transportCost' | 'duration'; before: string | number; after: string | number }[];
+}
+
+export interface DayCostChange {
+  day: number;
+  before: number; // Per person, activities + transport
+  after: number;
+}
+
+export interface ItineraryDiff {
+  added: ActivityRef[];
+  removed: ActivityRef[];
+  moved: MovedActivity[]; // Now on another day or in another position within its day
+  changed: ChangedActivity[]; // Same slot, different time / cost / duration
+  dayCosts: DayCostChange[]; // Days whose per-person cost changed
+  totalBefore: number;
+  totalAfter: number;
+}
+
+interface Located {
+  activity: Activity;
+  day: number;
+  index: number; // Position within the day
+  key: string;
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+
+const activityCost = (a: Activity) => (a.cost || 0) + (a.transportCost || 0);
+
+const locate = (itinerary: ItineraryResult): Located[] => {
+  const seen = new Map<string, number>();
+  return itinerary.days.flatMap(day => day.activities.map((activity, index) => {
+    const name = normalize(activity.placeName);
+    const occurrence = seen.get(name) || 0;
+    seen.set(name, occurrence + 1);
+    return { activity, day: day.dayNumber, index, key: `${name}#${occurrence}` };
+  }));
+};
+
+const toRef = (l: Located): ActivityRef => ({ placeName: l.activity.placeName, day: l.day, time: l.activity.time });
+
+export const diffItineraries = (before: ItineraryResult, after: ItineraryResult): ItineraryDiff => {
+  const oldStops = locate(before);
+  const newStops = locate(after);
+  const oldByKey = new Map(oldStops.map(l => [l.key, l]));
+  const newKeys = new Set(newStops.map(l => l.key));
+
+  const diff: ItineraryDiff = {
+    added: [],
+    removed: oldStops.filter(l => !newKeys.has(l.key)).map(toRef),
+    moved: [],
+    changed: [],
+    dayCosts: [],
+    totalBefore: oldStops.reduce((sum, l) => sum + activityCost(l.activity), 0),
+    totalAfter: newStops.reduce((sum, l) => sum + activityCost(l.activity), 0),
+  };
+
+  newStops.forEach(l => {
+    const old = oldByKey.get(l.key);
+    if (!old) {
+      diff.added.push(toRef(l));
+      return;
+    }
+    if (old.day !== l.day || old.index !== l.index) {
+      diff.moved.push({ placeName: l.activity.placeName, from: { day: old.day, time: old.activity.time }, to: { day: l.day, time: l.activity.time } });
+      return;
+    }
+    const changes: ChangedActivity['changes'] = [];
+    (['time', 'cost', 'transportCost', 'duration'] as const).forEach(field => {
+      const a = old.activity[field] ?? (field === 'time' || field === 'duration' ? '' : 0);
+      const b = l.activity[field] ?? (field === 'time' || field === 'duration' ? '' : 0);
+      if (a !== b) changes.push({ field, before: a, after: b });
+    });
+    if (changes.length > 0) diff.changed.push({ ...toRef(l), changes });
+  });
+
+  const dayNumbers = Array.from(new Set([...before.days, ...after.days].map(d => d.dayNumber))).sort((a, b) => a - b);
+  dayNumbers.forEach(day => {
+    const cost = (itinerary: ItineraryResult) =>
+      (itinerary.days.find(d => d.dayNumber === day)?.activities || []).reduce((sum, a) => sum + activityCost(a), 0);
+    const change = { day, before: cost(before), after: cost(after) };
+    if (change.before !== change.after) diff.dayCosts.push(change);
+  });
+  return diff;
+};
+
+export const isEmptyDiff = (diff: ItineraryDiff): boolean =>
+  diff.added.length + diff.removed.length + diff.moved.length + diff.changed.length === 0 && diff.totalBefore === diff.totalAfter;
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseOpeningHours, getWindowsForDay } from './openingHours';
+
+describe('parseOpeningHours', () => {
+  it('applies plain hours to every day', () => {
+    const hours = parseOpeningHours('10:00 - 22:00');
+    expect(hours).toHaveLength(7);
+    hours!.forEach(day => expect(day).toEqual([{ open: 10, close: 22 }]));
+  });
+
+  it('closes the days named after the hours', () => {
+    const hours = parseOpeningHours('09:30 - 17:00 (週一休館)');
+    expect(getWindowsForDay(hours, 1)).toEqual([]);
+    expect(getWindowsForDay(hours, 2)).toEqual([{ open: 9.5, close: 17 }]);
+  });
+
+  it('closes only the listed weekdays when the hours are weekday-specific', () => {
+    const hours = parseOpeningHours('Mon-Fri 10:00-20:00; Sat 09:00-18:00');
+    expect(getWindowsForDay(hours, 3)).toEqual([{ open: 10, close: 20 }]);
+    expect(getWindowsForDay(hours, 6)).toEqual([{ open: 9, close: 18 }]);
+    expect(getWindowsForDay(hours, 0)).toEqual([]);
+  });
+
+  it('leaves the other days unknown when only a closure is given', () => {
+    const hours = parseOpeningHours('週一休館');
+    expect(getWindowsForDay(hours, 1)).toEqual([]);
+    [0, 2, 3, 4, 5, 6].forEach(day => expect(getWindowsForDay(hours, day)).toBeNull());
+  });
+
+  it('returns null for text without hours or closures', () => {
+    expect(parseOpeningHours('請見官網')).toBeNull();
+    expect(parseOpeningHours('')).toBeNull();
+  });
+});
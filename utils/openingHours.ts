@@ -0,0 +1,136 @@
+// Parses the free-text `openingText` the model returns into per-weekday time windows.
+// Handles "10:00 - 22:00", split hours ("11:00-14:00, 17:00-22:00"), overnight hours ("18:00-02:00"),
+// "24 小時" and weekday prefixes in English or Chinese ("Mon-Fri 10:00-20:00; Sat 09:00-18:00", "週一至週五 ...").
+
+export interface TimeWindow {
+  open: number; // decimal hours, e.g. 9.5 = 09:30
+  close: number; // may exceed 24 for places open past midnight
+}
+
+// Index 0 = Sunday ... 6 = Saturday; an empty array means closed that day, null that its hours are unknown
+export type WeeklyHours = (TimeWindow[] | null)[];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const RANGE_SEP = /^\s*(?:-|–|—|~|至|到|to)\s*$/;
+const TIME_RANGE = /(\d{1,2})[:：](\d{2})\s*(?:-|–|—|~|～|至|到|to)\s*(\d{1,2})[:：](\d{2})/g;
+const ALL_DAY = /24\s*(?:小時|小时|hours?|h\b)|全天|open 24/;
+const CLOSED = /closed|休息|公休|定休|休館|休馆/;
+
+const EN_DAYS: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+const ZH_DAYS: Record<string, number> = { 日: 0, 天: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6 };
+
+const expandRange = (from: number, to: number): number[] => {
+  const days: number[] = [];
+  for (let d = from; ; d = (d + 1) % 7) {
+    days.push(d);
+    if (d === to) break;
+  }
+  return days;
+};
+
+// Weekdays named in the part of a segment before its first time, or null when none are named
+const parseDayPrefix = (prefix: string): number[] | null => {
+  if (/平日|weekdays?/.test(prefix)) return [1, 2, 3, 4, 5];
+  if (/週末|周末|假日|weekends?/.test(prefix)) return [0, 6];
+  if (/每日|每天|daily|every ?day/.test(prefix)) return ALL_DAYS;
+
+  const tokens: { day: number; start: number; end: number }[] = [];
+  const enPattern = /\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?/g;
+  const zhPattern = /(?:週|周|星期|禮拜|礼拜)?([日天一二三四五六])/g;
+  let m: RegExpExecArray | null;
+  while ((m = enPattern.exec(prefix)) !== null) tokens.push({ day: EN_DAYS[m[1]], start: m.index, end: m.index + m[0].length });
+  // Bare Chinese numerals only count once a 週/周/星期 prefix has appeared ("週一至五")
+  if (/週|周|星期|禮拜|礼拜/.test(prefix)) {
+    while ((m = zhPattern.exec(prefix)) !== null) tokens.push({ day: ZH_DAYS[m[1]], start: m.index, end: m.index + m[0].length });
+  }
+  if (tokens.length === 0) return null;
+
+  tokens.sort((a, b) => a.start - b.start);
+  const days = new Set<number>();
+  for (let i = 0; i < tokens.length; i++) {
+    const next = tokens[i + 1];
+    if (next && RANGE_SEP.test(prefix.slice(tokens[i].end, next.start))) {
+      expandRange(tokens[i].day, next.day).forEach(d => days.add(d));
+      i++;
+    } else {
+      days.add(tokens[i].day);
+    }
+  }
+  return Array.from(days);
+};
+
+const toWindow = (h1: string, m1: string, h2: string, m2: string): TimeWindow => {
+  const open = Number(h1) + Number(m1) / 60;
+  let close = Number(h2) + Number(m2) / 60;
+  if (close <= open) close += 24; // "18:00 - 02:00"
+  return { open, close };
+};
+
+// Returns null when nothing usable could be read, so callers can treat the hours as unknown
+export const parseOpeningHours = (text?: string): WeeklyHours | null => {
+  if (!text || !text.trim()) return null;
+  const normalized = text.toLowerCase().replace(/，|；|、/g, ',');
+
+  const week: WeeklyHours = ALL_DAYS.map(() => null);
+  let defaultWindows: TimeWindow[] | null = null;
+  let currentDays: number[] | null = null;
+
+  normalized.split(/[;,\n|]/).forEach(segment => {
+    const firstDigit = segment.search(/\d/);
+    const prefix = firstDigit === -1 ? segment : segment.slice(0, firstDigit);
+    const days = parseDayPrefix(prefix);
+    if (days) currentDays = days;
+
+    const windows: TimeWindow[] = [];
+    if (ALL_DAY.test(segment)) windows.push({ open: 0, close: 24 });
+    let m: RegExpExecArray | null;
+    let tailStart = 0;
+    TIME_RANGE.lastIndex = 0;
+    while ((m = TIME_RANGE.exec(segment)) !== null) {
+      windows.push(toWindow(m[1], m[2], m[3], m[4]));
+      tailStart = TIME_RANGE.lastIndex;
+    }
+
+    // Trailing notes such as "09:30 - 17:00 (週一休館)"
+    const tail = segment.slice(tailStart);
+    if (windows.length > 0 && CLOSED.test(tail)) {
+      (parseDayPrefix(tail) || []).forEach(d => { week[d] = []; });
+    }
+
+    const closed = windows.length === 0 && CLOSED.test(segment);
+    if (windows.length === 0 && !closed) return;
+
+    if (currentDays) {
+      currentDays.forEach(d => { week[d] = closed ? [] : [...(week[d] || []), ...windows]; });
+    } else if (!closed) {
+      // Times before any weekday prefix apply to every day not given its own hours
+      defaultWindows = [...(defaultWindows || []), ...windows];
+    }
+  });
+
+  if (!defaultWindows && week.every(w => w === null)) return null;
+  // Text that only names closures ("週一休館") says nothing about the other days
+  if (!defaultWindows && week.every(w => w === null || w.length === 0)) return week;
+  // When only some weekdays are listed, the rest are assumed closed
+  return week.map(w => w ?? (defaultWindows || []));
+};
+
+// Windows for one weekday; null when the hours are unknown (no constraint)
+export const getWindowsForDay = (hours: WeeklyHours | null, dayOfWeek: number): TimeWindow[] | null =>
+  hours ? hours[dayOfWeek] : null;
+
+// Earliest start at or after `arrival` that leaves `duration` hours before closing, or null when it cannot fit
+export const findVisitStart = (windows: TimeWindow[] | null, arrival: number, duration: number): number | null => {
+  if (!windows) return arrival;
+  const fits = windows
+    .map(w => Math.max(arrival, w.open))
+    .filter((start, i) => start + duration <= windows[i].close);
+  return fits.length > 0 ? Math.min(...fits) : null;
+};
+
+export const formatHours = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60) % 24;
+  const m = totalMinutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
@@ -0,0 +1,47 @@
+// Helpers for reading a JSON document while it is still being streamed.
+
+// Returns every complete element of the top-level array stored under `key`, ignoring the unfinished tail.
+// e.g. '{"days": [{"a":1}, {"b":' -> [{ a: 1 }]
+export const extractCompleteArrayItems = (partial: string, key: string): any[] => {
+  const keyIdx = partial.indexOf(`"${key}"`);
+  if (keyIdx === -1) return [];
+  const arrayStart = partial.indexOf('[', keyIdx);
+  if (arrayStart === -1) return [];
+
+  const items: any[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  for (let i = arrayStart + 1; i < partial.length; i++) {
+    const ch = partial[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break; // End of the array itself
+      depth--;
+      if (depth === 0 && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(partial.substring(itemStart, i + 1)));
+        } catch (e) {
+          // Malformed element; the final parse will report it
+        }
+        itemStart = -1;
+      }
+    }
+  }
+
+  return items;
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveTravelerProfiles, isSuitableForGroup, applyGroupLimits, applyAgeGroupPricing, activityCostFor, groupActivityCost,
+  describeTravelerProfiles,
+} from './travelerProfiles';
+import { PACE_SETTINGS } from '../constants';
+import { Activity, DayPlan, TravelerProfile } from '../types';
+
+const activity = (fields: Partial<Activity> = {}): Activity => ({
+  time: '10:00',
+  placeName: '東京國立博物館',
+  description: '',
+  reasoning: '',
+  matchTags: [],
+  cost: 1000,
+  currency: 'JPY',
+  ...fields,
+});
+
+const day = (activities: Activity[]): DayPlan => ({ date: '2026-11-10', dayNumber: 1, summary: '', activities });
+
+const family: TravelerProfile[] = [
+  { ageGroup: 'adult', count: 2 },
+  { ageGroup: 'child', count: 1 },
+  { ageGroup: 'senior', count: 1, mobility: 'wheelchair' },
+];
+
+describe('resolveTravelerProfiles', () => {
+  it('treats a trip without profiles as that many adults', () => {
+    expect(resolveTravelerProfiles({ travelers: 3 })).toEqual([{ ageGroup: 'adult', count: 3 }]);
+    expect(resolveTravelerProfiles({ travelers: 3, travelerProfiles: [{ ageGroup: 'child', count: 0 }] })).toEqual([{ ageGroup: 'adult', count: 3 }]);
+    expect(resolveTravelerProfiles({ travelers: 3, travelerProfiles: family })).toEqual(family);
+  });
+});
+
+describe('age group pricing', () => {
+  it('prices admissions and meals for children and seniors', () => {
+    const [admission, meal] = applyAgeGroupPricing(day([activity(), activity({ placeName: '一蘭拉麵', cost: 1500, isMeal: true })]), family).activities;
+    expect(admission.costByAgeGroup).toEqual({ child: 500, senior: 700 });
+    expect(meal.costByAgeGroup).toEqual({ child: 900, senior: 1500 });
+  });
+
+  it('leaves transfers, free and adult-only trips at the adult price', () => {
+    const plan = day([activity({ isTransfer: true, cost: 14000 }), activity({ cost: 0 })]);
+    expect(applyAgeGroupPricing(plan, family).activities.map(a => a.costByAgeGroup)).toEqual([undefined, undefined]);
+    expect(applyAgeGroupPricing(day([activity()]), [{ ageGroup: 'adult', count: 2 }]).activities[0].costByAgeGroup).toBeUndefined();
+  });
+
+  it('adds up the cost of the whole group', () => {
+    const [priced] = applyAgeGroupPricing(day([activity()]), family).activities;
+    expect(activityCostFor(priced, 'adult')).toBe(1000);
+    expect(activityCostFor(priced, 'child')).toBe(500);
+    // Two adults, one child, one senior
+    expect(groupActivityCost(priced, family)).toBe(2 * 1000 + 500 + 700);
+    // Without age prices everyone pays the activity's cost
+    expect(groupActivityCost(activity(), family)).toBe(4000);
+  });
+});
+
+describe('group limits', () => {
+  it('keeps places that do not suit everyone in the group out', () => {
+    expect(isSuitableForGroup({ accessibility: { wheelchair: false } }, family)).toBe(false);
+    expect(isSuitableForGroup({ accessibility: { adultsOnly: true } }, family)).toBe(false);
+    expect(isSuitableForGroup({ accessibility: { stroller: false } }, family)).toBe(true);
+    expect(isSuitableForGroup({}, family)).toBe(true);
+  });
+
+  it('takes the strictest walking cap and the longest rest of the group', () => {
+    const limited = applyGroupLimits(PACE_SETTINGS.moderate, family);
+    expect(limited).toMatchObject({ maxStops: PACE_SETTINGS.moderate.maxStops, maxWalkKm: 1.5, restMinutes: PACE_SETTINGS.moderate.restMinutes + 15 });
+    expect(applyGroupLimits(PACE_SETTINGS.moderate, [{ ageGroup: 'adult', count: 2 }])).toEqual(PACE_SETTINGS.moderate);
+  });
+});
+
+describe('describeTravelerProfiles', () => {
+  it('labels each group with its size', () => {
+    expect(describeTravelerProfiles(family)).toBe('成人 2 位、兒童 1 位、長者 (輪椅) 1 位');
+  });
+});
@@ -0,0 +1,77 @@
+import { UserPreferences, TravelerProfile, CandidatePlace, PaceSettings, DayPlan, Activity, AgeGroup } from "../types";
+import { TRAVELER_LIMITS, AGE_GROUP_PRICE_FACTORS, AGE_GROUPS, MOBILITY_NEEDS } from "../constants";
+
+// Who is travelling and what that means for places, daily load and prices.
+// A trip without profiles is `travelers` adults, for whom none of the rules below change anything.
+
+export const resolveTravelerProfiles = (prefs: Pick<UserPreferences, 'travelers' | 'travelerProfiles'>): TravelerProfile[] => {
+  const profiles = (prefs.travelerProfiles || []).filter(p => p.count > 0);
+  return profiles.length > 0 ? profiles : [{ ageGroup: 'adult', count: Math.max(prefs.travelers || 1, 1) }];
+};
+
+export const countTravelers = (profiles: TravelerProfile[]): number =>
+  profiles.reduce((sum, p) => sum + p.count, 0);
+
+// True when the group has children, seniors or mobility needs
+export const hasSpecialNeeds = (profiles: TravelerProfile[]): boolean =>
+  profiles.some(p => p.ageGroup !== 'adult' || !!p.mobility);
+
+// A place suits the group only if it suits everyone in it
+export const isSuitableForGroup = (place: Pick<CandidatePlace, 'accessibility'>, profiles: TravelerProfile[]): boolean => {
+  const access = place.accessibility;
+  if (!access) return true;
+  return profiles.every(p => {
+    if (access.adultsOnly && p.ageGroup === 'child') return false;
+    if (p.mobility === 'wheelchair') return access.wheelchair !== false && !access.strenuous;
+    if (p.mobility === 'stroller') return access.stroller !== false && !access.strenuous;
+    if (p.mobility === 'limited_walking') return !access.strenuous;
+    return true;
+  });
+};
+
+// Pace tightened for the group: the lowest walking cap and the longest extra rest of anyone in it
+export const applyGroupLimits = (pace: PaceSettings, profiles: TravelerProfile[]): PaceSettings => {
+  const limits = profiles.flatMap(p => p.mobility ? [TRAVELER_LIMITS[p.ageGroup], TRAVELER_LIMITS[p.mobility]] : [TRAVELER_LIMITS[p.ageGroup]]);
+  return {
+    ...pace,
+    maxWalkKm: Math.min(pace.maxWalkKm, ...limits.map(l => l.maxWalkKm)),
+    restMinutes: pace.restMinutes + Math.max(0, ...limits.map(l => l.extraRestMinutes)),
+  };
+};
+
+// Sets costByAgeGroup for every child / senior group on the trip. Transport keeps the adult fare and
+// inter-city legs are left alone, as their cost is the fare itself.
+export const applyAgeGroupPricing = (day: DayPlan, profiles: TravelerProfile[]): DayPlan => {
+  const groups = Array.from(new Set(profiles.map(p => p.ageGroup))).filter(g => g !== 'adult');
+  if (groups.length === 0) return day;
+  return {
+    ...day,
+    activities: day.activities.map(activity => {
+      if (activity.isTransfer || !activity.cost) return activity;
+      const kind = activity.isMeal ? 'meal' : 'admission';
+      const costByAgeGroup: Partial<Record<AgeGroup, number>> = {};
+      groups.forEach(g => { costByAgeGroup[g] = Math.round(activity.cost * AGE_GROUP_PRICE_FACTORS[g][kind]); });
+      return { ...activity, costByAgeGroup };
+    }),
+  };
+};
+
+// Per-person admission / meal price of an activity for one age group (transport not included)
+export const activityCostFor = (activity: Activity, ageGroup: AgeGroup): number =>
+  activity.costByAgeGroup?.[ageGroup] ?? activity.cost ?? 0;
+
+// Admission / meal cost of an activity for the whole group
+export const groupActivityCost = (activity: Activity, profiles: TravelerProfile[]): number =>
+  profiles.reduce((sum, p) => sum + p.count * activityCostFor(activity, p.ageGroup), 0);
+
+const ageGroupLabel = (ageGroup: AgeGroup) => AGE_GROUPS.find(g => g.value === ageGroup)?.label || ageGroup;
+
+// e.g. "長者 (輪椅)"
+export const describeProfile = (profile: Pick<TravelerProfile, 'ageGroup' | 'mobility'>): string => {
+  const mobility = MOBILITY_NEEDS.find(m => m.value === profile.mobility)?.label;
+  return mobility ? `${ageGroupLabel(profile.ageGroup)} (${mobility})` : ageGroupLabel(profile.ageGroup);
+};
+
+// e.g. "成人 2 位、長者 (輪椅) 1 位"
+export const describeTravelerProfiles = (profiles: TravelerProfile[]): string =>
+  profiles.map(p => `${describeProfile(p)} ${p.count} 位`).join('、');
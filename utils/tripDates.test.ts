@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getTripDate, countTripDays, todayIn, getDayOfWeek, isWithinStay } from './tripDates';
+
+// Trip dates must come out the same whatever zone the runtime is in, so every case runs under several zones.
+// Assigning process.env.TZ switches Node's local zone for the rest of the process.
+const RUNTIME_ZONES = ['UTC', 'America/Los_Angeles', 'Asia/Tokyo'];
+
+describe.each(RUNTIME_ZONES)('trip dates with the runtime in %s', (zone) => {
+  const originalZone = process.env.TZ;
+  beforeAll(() => { process.env.TZ = zone; });
+  afterAll(() => { process.env.TZ = originalZone; });
+
+  it('runs in the requested zone', () => {
+    expect(Intl.DateTimeFormat().resolvedOptions().timeZone).toBe(zone);
+  });
+
+  it('getTripDate counts calendar days from the start', () => {
+    expect(getTripDate('2026-11-02', 1)).toBe('2026-11-02');
+    expect(getTripDate('2026-11-02', 4)).toBe('2026-11-05');
+    expect(getTripDate('2026-12-30', 3)).toBe('2027-01-01');
+    expect(getTripDate('2028-02-28', 2)).toBe('2028-02-29');
+  });
+
+  it('getTripDate is not shifted by daylight saving changes', () => {
+    // US clocks spring forward on 2026-03-08 and fall back on 2026-11-01
+    expect(getTripDate('2026-03-07', 2)).toBe('2026-03-08');
+    expect(getTripDate('2026-03-07', 3)).toBe('2026-03-09');
+    expect(getTripDate('2026-10-31', 2)).toBe('2026-11-01');
+    expect(getTripDate('2026-10-31', 3)).toBe('2026-11-02');
+    // Europe changes on 2026-03-29
+    expect(getTripDate('2026-03-28', 3)).toBe('2026-03-30');
+  });
+
+  it('countTripDays is inclusive, also across daylight saving changes', () => {
+    expect(countTripDays('2026-11-02', '2026-11-05')).toBe(4);
+    expect(countTripDays('2026-11-02', '2026-11-02')).toBe(1);
+    expect(countTripDays('2026-03-06', '2026-03-10')).toBe(5);
+    expect(countTripDays('2026-10-30', '2026-11-03')).toBe(5);
+    expect(countTripDays('2026-12-31', '2027-01-01')).toBe(2);
+  });
+
+  it('weekdays and hotel stays use the calendar date', () => {
+    expect(getDayOfWeek('2026-03-08')).toBe(0); // Sunday
+    expect(getDayOfWeek('2026-11-02')).toBe(1); // Monday
+    expect(isWithinStay('2026-03-08', '2026-03-07', '2026-03-09')).toBe(true);
+    expect(isWithinStay('2026-03-09', '2026-03-07', '2026-03-09')).toBe(false);
+  });
+
+  it('todayIn gives the date at the destination', () => {
+    // 07:30 UTC on the US spring-forward day: still the evening before in Los Angeles (PST, UTC-8)
+    const springForward = new Date('2026-03-08T07:30:00Z');
+    expect(todayIn('America/Los_Angeles', springForward)).toBe('2026-03-07');
+    expect(todayIn('Asia/Tokyo', springForward)).toBe('2026-03-08');
+    expect(todayIn('UTC', springForward)).toBe('2026-03-08');
+    // 07:30 UTC after the fall-back: Los Angeles is on PDT (UTC-7) until 09:00 UTC
+    expect(todayIn('America/Los_Angeles', new Date('2026-11-01T07:30:00Z'))).toBe('2026-11-01');
+    expect(todayIn('America/Los_Angeles', new Date('2026-11-01T06:30:00Z'))).toBe('2026-10-31');
+  });
+
+  it('todayIn falls back to the runtime zone', () => {
+    const now = new Date('2026-03-08T07:30:00Z');
+    const expected = { 'UTC': '2026-03-08', 'America/Los_Angeles': '2026-03-07', 'Asia/Tokyo': '2026-03-08' }[zone];
+    expect(todayIn(undefined, now)).toBe(expected);
+    expect(todayIn('Not/AZone', now)).toBe(expected);
+  });
+});
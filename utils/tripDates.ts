@@ -0,0 +1,65 @@
+// Trip-local calendar dates. Every trip date is a wall-clock date at the destination ("YYYY-MM-DD") and every
+// time ("HH:MM") is a wall-clock time there. Arithmetic runs on the calendar date itself (as a UTC day number),
+// so the timezone of the browser or server never shifts a day or a weekday.
+
+export type TripDate = string; // "YYYY-MM-DD"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const TRIP_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const toDayNumber = (date: TripDate): number => {
+  const m = TRIP_DATE.exec(date);
+  if (!m) throw new Error(`Invalid trip date: "${date}"`);
+  return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) / MS_PER_DAY;
+};
+
+const fromDayNumber = (day: number): TripDate => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+
+export const isTripDate = (value: unknown): value is TripDate =>
+  typeof value === 'string' && TRIP_DATE.test(value);
+
+// Calendar date from year / month (1-12) / day, e.g. a cell of the date picker
+export const formatTripDate = (year: number, month: number, day: number): TripDate =>
+  fromDayNumber(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+
+export const parseTripDate = (date: TripDate): { year: number, month: number, day: number } => {
+  const [year, month, day] = fromDayNumber(toDayNumber(date)).split('-').map(Number);
+  return { year, month, day };
+};
+
+export const addDays = (date: TripDate, days: number): TripDate => fromDayNumber(toDayNumber(date) + days);
+
+export const daysBetween = (from: TripDate, to: TripDate): number => toDayNumber(to) - toDayNumber(from);
+
+// Inclusive day count of a trip: "2026-11-02" -> "2026-11-05" is 4 days
+export const countTripDays = (start: TripDate, end: TripDate): number => daysBetween(start, end) + 1;
+
+// Date of day `dayNum` (1-based) of a trip starting on `start`
+export const getTripDate = (start: TripDate, dayNum: number): TripDate => addDays(start, dayNum - 1);
+
+// 0 = Sunday ... 6 = Saturday, matching CandidatePlace.closedDays
+export const getDayOfWeek = (date: TripDate): number => new Date(toDayNumber(date) * MS_PER_DAY).getUTCDay();
+
+// Nights run from check-in up to, not including, check-out
+export const isWithinStay = (date: TripDate, checkIn: TripDate, checkOut: TripDate): boolean => {
+  if (!isTripDate(checkIn) || !isTripDate(checkOut)) return false;
+  const day = toDayNumber(date);
+  return day >= toDayNumber(checkIn) && day < toDayNumber(checkOut);
+};
+
+// "HH:MM" -> decimal hours (9.5 = 09:30); `fallback` when the time is missing
+export const timeToHours = (time: string | undefined, fallback = 9): number => {
+  if (!time) return fallback;
+  const [h, m] = time.split(':').map(Number);
+  return h + (m || 0) / 60;
+};
+
+// Today's date at the destination; the runtime's own zone when `timeZone` is omitted or unknown
+export const todayIn = (timeZone?: string, now: Date = new Date()): TripDate => {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+  } catch {
+    return formatTripDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+  }
+};